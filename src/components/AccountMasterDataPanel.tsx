@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Users, X } from 'lucide-react';
+import { AccountField, AccountMasterData, ColumnMapping, ValidationError } from '@/types';
+import { readCSVHeaders } from '@/lib/csvParser';
+import { findMatchingProfile, loadMappingProfiles, suggestColumnMapping } from '@/lib/columnMapping';
+import {
+  ACCOUNT_FIELDS,
+  ACCOUNT_FIELD_KEYWORDS,
+  ACCOUNT_MAPPING_STORAGE_KEY,
+  parseAccountMasterData,
+} from '@/lib/accountMasterData';
+import { ColumnMappingPanel } from './ColumnMappingPanel';
+
+export interface LoadedMasterData {
+  fileName: string;
+  accounts: AccountMasterData;
+}
+
+interface AccountMasterDataPanelProps {
+  masterData: LoadedMasterData | null;
+  timezone?: string;
+  onChange: (masterData: LoadedMasterData | null) => void;
+}
+
+export function AccountMasterDataPanel({ masterData, timezone, onChange }: AccountMasterDataPanelProps) {
+  const [pending, setPending] = useState<{ file: File; headers: string[] } | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping<AccountField>>({});
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+
+  const selectFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const headers = await readCSVHeaders(file);
+    if (headers.length === 0) {
+      setErrors([{ message: `${file.name}: could not read a header row.` }]);
+      return;
+    }
+    const profile = findMatchingProfile(headers, loadMappingProfiles<AccountField>(ACCOUNT_MAPPING_STORAGE_KEY));
+    setErrors([]);
+    setMapping(profile ? { ...profile.mapping } : suggestColumnMapping(headers, ACCOUNT_FIELDS, ACCOUNT_FIELD_KEYWORDS));
+    setPending({ file, headers });
+  };
+
+  const confirm = async () => {
+    if (!pending) return;
+    const { accounts, errors: loadErrors } = await parseAccountMasterData(pending.file, mapping, { timezone });
+    setErrors(loadErrors);
+    if (loadErrors.length === 0) {
+      onChange({ fileName: pending.file.name, accounts });
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="glass-card mt-4 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-1 text-xs font-semibold text-muted-foreground uppercase tracking-widest">
+          <Users className="w-3 h-3" />
+          Account Master Data <span className="normal-case tracking-normal font-normal">(optional)</span>
+        </p>
+        {masterData ? (
+          <span className="flex items-center gap-1 text-xs font-mono text-muted-foreground">
+            {masterData.fileName} · {masterData.accounts.size.toLocaleString()} accounts
+            <button onClick={() => onChange(null)} className="hover:text-destructive transition-colors" title="Remove master data">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ) : (
+          <label className="px-3 py-1.5 text-xs glass-card hover:border-primary/50 transition-all cursor-pointer">
+            Load accounts CSV
+            <input type="file" accept=".csv" className="hidden" onChange={selectFile} />
+          </label>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">
+        Account type, open date, segment, country, income band and business flag — joined onto accounts by ID.
+      </p>
+
+      {pending && (
+        <ColumnMappingPanel<AccountField>
+          fileName={pending.file.name}
+          headers={pending.headers}
+          mapping={mapping}
+          onChange={setMapping}
+          onConfirm={confirm}
+          onCancel={() => setPending(null)}
+          fields={ACCOUNT_FIELDS}
+          storageKey={ACCOUNT_MAPPING_STORAGE_KEY}
+          confirmLabel="Load accounts"
+        />
+      )}
+
+      {errors.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {errors.map((err, i) => (
+            <li key={i} className="text-xs font-mono" style={{ color: 'hsl(var(--destructive))' }}>{err.message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Plus, ShieldCheck, X } from 'lucide-react';
+import { AllowlistEntry, ValidationError } from '@/types';
+
+interface AllowlistPanelProps {
+  allowlist: AllowlistEntry[];
+  errors: ValidationError[];
+  onChange: (allowlist: AllowlistEntry[]) => void;
+}
+
+const inputClass =
+  'w-full bg-input border border-border rounded-md px-2 py-1.5 text-xs font-mono text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary transition-all';
+
+export function AllowlistPanel({ allowlist, errors, onChange }: AllowlistPanelProps) {
+  const [accountId, setAccountId] = useState('');
+  const [note, setNote] = useState('');
+  const draftId = accountId.trim();
+  const listed = allowlist.some((e) => e.account_id === draftId);
+  const invalid = new Set(errors.map((e) => e.field));
+
+  const add = () => {
+    if (!draftId || listed) return;
+    onChange([...allowlist, { account_id: draftId, ...(note.trim() ? { note: note.trim() } : {}) }]);
+    setAccountId('');
+    setNote('');
+  };
+
+  return (
+    <div className="glass-card p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <ShieldCheck className="w-4 h-4 text-muted-foreground" />
+        <p className="text-sm font-semibold">Allowlist</p>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">
+        Known-legitimate accounts are never flagged; each run records what was suppressed. Saved in this browser.
+      </p>
+
+      <div className="flex gap-2">
+        <input
+          value={accountId}
+          onChange={(e) => setAccountId(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && add()}
+          placeholder="Account ID"
+          className={inputClass}
+          style={{ background: 'hsl(var(--input))' }}
+        />
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && add()}
+          placeholder="Note (optional)"
+          className={inputClass}
+          style={{ background: 'hsl(var(--input))' }}
+        />
+        <button
+          onClick={add}
+          disabled={!draftId || listed}
+          className="px-3 py-1 text-xs glass-card hover:border-primary/50 transition-all flex items-center gap-1 disabled:opacity-50 shrink-0"
+        >
+          <Plus className="w-3 h-3" />
+          Add
+        </button>
+      </div>
+      {listed && <p className="text-xs text-muted-foreground mt-1">{draftId} is already on the allowlist.</p>}
+
+      {allowlist.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {allowlist.map((entry, i) => (
+            <div
+              key={`${entry.account_id}:${i}`}
+              className="flex items-center justify-between gap-2 bg-muted rounded-lg px-3 py-1.5"
+              style={invalid.has(`allowlist.${i}`) ? { border: '1px solid hsl(var(--destructive))' } : {}}
+            >
+              <div className="min-w-0">
+                <span className="font-mono text-xs text-foreground">{entry.account_id || '(empty)'}</span>
+                {entry.note && <span className="text-xs text-muted-foreground ml-2">{entry.note}</span>}
+              </div>
+              <button
+                onClick={() => onChange(allowlist.filter((_, j) => j !== i))}
+                className="text-muted-foreground hover:text-foreground"
+                title={`Remove ${entry.account_id}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,70 @@
-import React, { useCallback, useState } from 'react';
-import { Upload, FileText, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
-import { parseCSV } from '@/lib/csvParser';
-import { Transaction, ValidationError } from '@/types';
+import React, { useCallback, useRef, useState } from 'react';
+import { Upload, FileText, AlertCircle, AlertTriangle, CheckCircle2, Download, Loader2, X } from 'lucide-react';
+import { parseFileInWorker } from '@/lib/parseWorker';
+import { SUPPORTED_EXTENSIONS, SourceFormat, isSupportedFile, readSourceHeaders, sniffSourceFormat } from '@/lib/sourceFormats';
+import { downloadRejectedRowsCSV } from '@/lib/exportRejected';
+import { mergeParsedFiles, ParsedFile } from '@/lib/ingestion';
+import {
+  TRANSACTION_FIELDS,
+  missingMappedFields,
+  suggestColumnMapping,
+  findMatchingProfile,
+  loadMappingProfiles,
+} from '@/lib/columnMapping';
+import {
+  STATEMENT_FIELDS,
+  STATEMENT_FIELD_KEYWORDS,
+  STATEMENT_MAPPING_STORAGE_KEY,
+  missingStatementFields,
+} from '@/lib/statementParser';
+import { DEFAULT_SOURCE_TIMEZONE, isValidTimeZone } from '@/lib/timestamp';
+import { detectCSVDialect } from '@/lib/csvDialect';
+import { pseudonymizeTransactions } from '@/lib/pseudonymize';
+import { SQLiteSourceInfo, inspectSQLite } from '@/lib/sqliteParser';
+import { ColumnMappingPanel } from './ColumnMappingPanel';
+import { CsvDialectPanel } from './CsvDialectPanel';
+import { SQLiteSourcePanel } from './SQLiteSourcePanel';
+import { IngestOptionsPanel } from './IngestOptionsPanel';
+import { AccountMasterDataPanel, LoadedMasterData } from './AccountMasterDataPanel';
+import {
+  AccountMasterData,
+  ColumnMapping,
+  CsvDialect,
+  IngestionSummary,
+  ParseOptions,
+  ParseProgress,
+  ParseResult,
+  StatementField,
+  Transaction,
+  ValidationError,
+} from '@/types';
 
 interface CSVUploadProps {
-  onParsed: (transactions: Transaction[], fileName: string) => void;
+  onParsed: (
+    transactions: Transaction[],
+    fileNames: string[],
+    ingestion: IngestionSummary,
+    accounts?: AccountMasterData
+  ) => void;
   onProcessing: (state: boolean) => void;
 }
 
+// transfers: one row per payment (sender → receiver) · statement: one row per booking on one account
+type FileLayout = 'transfers' | 'statement';
+
+// A selected file waiting for its column mapping to be confirmed
+interface PendingFile {
+  file: File;
+  format: SourceFormat;
+  headers: string[];
+  layout: FileLayout;
+  mapping: ColumnMapping;
+  statementMapping: ColumnMapping<StatementField>;
+  dialect?: CsvDialect; // CSV only: as detected, or as overridden by the analyst
+  detectedDialect?: CsvDialect;
+  sqlite?: SQLiteSourceInfo; // SQLite only: tables and the query whose columns are mapped
+}
+
 const SAMPLE_CSV = `transaction_id,sender_id,receiver_id,amount,timestamp
 TXN_001,ACC_001,ACC_002,1500.00,2024-01-15 09:23:11
 TXN_002,ACC_002,ACC_003,1400.00,2024-01-15 10:45:22
@@ -15,53 +72,259 @@ TXN_003,ACC_003,ACC_001,1350.00,2024-01-15 11:12:33
 TXN_004,ACC_004,ACC_002,800.00,2024-01-15 12:00:00
 TXN_005,ACC_005,ACC_002,750.00,2024-01-15 12:30:00`;
 
+// Saved profile first, then header heuristics — for both layouts
+function suggestMappings(headers: string[]) {
+  const profile = findMatchingProfile(headers, loadMappingProfiles());
+  const statementProfile = findMatchingProfile(
+    headers,
+    loadMappingProfiles<StatementField>(STATEMENT_MAPPING_STORAGE_KEY)
+  );
+  return {
+    mapping: profile ? { ...profile.mapping } : suggestColumnMapping(headers),
+    statementMapping: statementProfile
+      ? { ...statementProfile.mapping }
+      : suggestColumnMapping(headers, STATEMENT_FIELDS, STATEMENT_FIELD_KEYWORDS),
+    hasProfile: profile !== null,
+  };
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
 export function CSVUpload({ onParsed, onProcessing }: CSVUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<ValidationError[]>([]);
-  const [fileName, setFileName] = useState<string>('');
+  const [fileNames, setFileNames] = useState<string[]>([]);
   const [successInfo, setSuccessInfo] = useState<{ rows: number } | null>(null);
+  const [pending, setPending] = useState<PendingFile[]>([]);
+  const [activeFile, setActiveFile] = useState(0);
+  const [ingestOptions, setIngestOptions] = useState<ParseOptions>({ timezone: DEFAULT_SOURCE_TIMEZONE });
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [progressFile, setProgressFile] = useState<{ index: number; name: string } | null>(null);
+  const [quarantined, setQuarantined] = useState<{
+    result: ParseResult;
+    summary: IngestionSummary;
+    accounts?: AccountMasterData;
+  } | null>(null);
+  const [masterData, setMasterData] = useState<LoadedMasterData | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
 
-  const processFile = useCallback(async (file: File) => {
-    if (!file.name.endsWith('.csv')) {
-      setErrors([{ message: 'Only .csv files are accepted.' }]);
+  // Step 1: read headers and propose a mapping per file (saved profile first, then heuristics)
+  const processFiles = useCallback(async (files: File[]) => {
+    const accepted = files.filter((f) => isSupportedFile(f.name));
+    const skipped = files.filter((f) => !accepted.includes(f));
+    const supported = SUPPORTED_EXTENSIONS.join(', ');
+    setSuccessInfo(null);
+    setQuarantined(null);
+    if (accepted.length === 0) {
+      setErrors([{ message: `Only ${supported} files are accepted.` }]);
       return;
     }
-    const name = file.name;
-    setIsLoading(true);
+
+    // A selected folder can hold many unrelated files: report them in one line
+    const problems: ValidationError[] = skipped.length > 0
+      ? [{ message: `Skipped ${skipped.length} unsupported file${skipped.length === 1 ? '' : 's'} (${skipped.slice(0, 3).map((f) => f.name).join(', ')}${skipped.length > 3 ? ', …' : ''}) — only ${supported} are accepted.` }]
+      : [];
+    const selected: PendingFile[] = [];
+    for (const file of accepted) {
+      // A file that cannot be read is skipped with its reason, like an empty one
+      try {
+        const format = await sniffSourceFormat(file);
+        const isCSV = format === 'csv';
+        const dialect = isCSV ? await detectCSVDialect(file) : undefined;
+        const sqlite = format === 'sqlite' ? await inspectSQLite(file) : undefined;
+        if (sqlite?.error) {
+          problems.push({ message: `${file.name}: ${sqlite.error} — skipped.` });
+          continue;
+        }
+        const headers = sqlite ? sqlite.headers : await readSourceHeaders(file, { dialect });
+        if (headers.length === 0) {
+          problems.push({ message: `${file.name}: could not read a header row or any field names — skipped.` });
+          continue;
+        }
+        const { mapping, statementMapping, hasProfile } = suggestMappings(headers);
+        // Statement layout only for CSV, and only when it fits and the transfer layout doesn't
+        const layout: FileLayout =
+          isCSV &&
+          !hasProfile &&
+          missingMappedFields(mapping, headers).length > 0 &&
+          missingStatementFields(statementMapping, headers).length === 0
+            ? 'statement'
+            : 'transfers';
+        selected.push({
+          file,
+          format,
+          headers,
+          layout,
+          mapping,
+          statementMapping,
+          ...(dialect ? { dialect, detectedDialect: dialect } : {}),
+          ...(sqlite ? { sqlite } : {}),
+        });
+      } catch (err) {
+        problems.push({ message: `${file.name}: could not be read (${err instanceof Error ? err.message : String(err)}) — skipped.` });
+      }
+    }
+
+    setErrors(problems);
+    setFileNames(selected.map((p) => p.file.name));
+    setPending(selected);
+    setActiveFile(0);
+  }, []);
+
+  const updateActive = (update: Partial<PendingFile>) => {
+    setPending((prev) => prev.map((p, i) => (i === activeFile ? { ...p, ...update } : p)));
+  };
+
+  // A different delimiter, encoding or query changes the header row: re-suggest both mappings
+  const replaceHeaders = (index: number, file: File, headers: string[], update: Partial<PendingFile>) => {
+    const headersChanged = headers.join('\u0000') !== pending[index].headers.join('\u0000');
+    const { mapping, statementMapping } = suggestMappings(headers);
+    setPending((prev) => prev.map((p, i) => {
+      if (i !== index || p.file !== file) return p;
+      return headersChanged ? { ...p, ...update, headers, mapping, statementMapping } : { ...p, ...update };
+    }));
+  };
+
+  const changeDialect = async (dialect: CsvDialect) => {
+    const target = pending[activeFile];
+    if (!target) return;
+    const index = activeFile;
+    replaceHeaders(index, target.file, await readSourceHeaders(target.file, { dialect }), { dialect });
+  };
+
+  // A failing query keeps the last working one (and its mapping) in place
+  const changeSQLiteQuery = async (query: string) => {
+    const target = pending[activeFile];
+    if (!target?.sqlite) return;
+    const index = activeFile;
+    const source = await inspectSQLite(target.file, query);
+    if (source.error) {
+      setPending((prev) => prev.map((p, i) => (i === index && p.sqlite ? { ...p, sqlite: { ...p.sqlite, error: source.error } } : p)));
+      return;
+    }
+    replaceHeaders(index, target.file, source.headers, { sqlite: source });
+  };
+
+  const isMapped = (p: PendingFile) =>
+    p.layout === 'statement'
+      ? missingStatementFields(p.statementMapping, p.headers).length === 0
+      : missingMappedFields(p.mapping, p.headers).length === 0;
+
+  // Step 2: parse each file separately with its confirmed mapping, then merge
+  const confirmMappings = useCallback(async () => {
+    if (pending.length === 0) return;
+    const unmapped = pending.findIndex((p) => !isMapped(p));
+    if (unmapped !== -1) {
+      setActiveFile(unmapped);
+      return;
+    }
+    if (ingestOptions.timezone && !isValidTimeZone(ingestOptions.timezone)) {
+      setErrors([{ message: `Unknown source timezone "${ingestOptions.timezone}".` }]);
+      return;
+    }
+    const files = pending;
+    setPending([]);
     setErrors([]);
-    setSuccessInfo(null);
-    setFileName(name);
+    setProgress(null);
+    setIsLoading(true);
     onProcessing(true);
 
-    const result = await parseCSV(file);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const parsed: ParsedFile[] = [];
+    let failure: ValidationError[] | null = null;
+    for (const [index, { file, layout, mapping, statementMapping, dialect, sqlite }] of files.entries()) {
+      setProgressFile({ index, name: file.name });
+      const options: ParseOptions = layout === 'statement'
+        ? { ...ingestOptions, statementMapping, dialect }
+        : { ...ingestOptions, mapping, dialect, ...(sqlite ? { sqlQuery: sqlite.query } : {}) };
+      const result = await parseFileInWorker(file, options, {
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      if (result.cancelled) break;
+      if (!result.success) {
+        failure = result.errors.map((e) => ({ ...e, message: `${file.name}: ${e.message}` }));
+        break;
+      }
+      parsed.push({ name: file.name, result });
+    }
+
+    const merged = controller.signal.aborted || failure ? null : mergeParsedFiles(parsed, ingestOptions);
+    let accounts = masterData?.accounts;
+    // Pseudonyms replace account IDs before the profile, the analysis or any export sees them
+    if (merged?.result.success && passphrase) {
+      const pseudonymized = await pseudonymizeTransactions(merged.result.transactions, passphrase, accounts);
+      merged.result.transactions = pseudonymized.transactions;
+      merged.summary.pseudonymization = {
+        fingerprint: pseudonymized.fingerprint,
+        pseudonyms: pseudonymized.pseudonyms,
+        key: pseudonymized.key,
+      };
+      accounts = pseudonymized.accounts;
+    }
+    abortRef.current = null;
     setIsLoading(false);
+    setProgress(null);
+    setProgressFile(null);
     onProcessing(false);
 
-    if (!result.success) {
-      setErrors(result.errors);
+    if (controller.signal.aborted) {
+      setFileNames([]);
+      return;
+    }
+    if (failure) {
+      setErrors(failure);
+      return;
+    }
+    if (!merged) return;
+
+    if (!merged.result.success) {
+      setErrors(merged.result.errors);
+    } else if (merged.result.rejected?.length) {
+      // Partial mode with rejects: let the analyst review/download before continuing
+      setSuccessInfo({ rows: merged.result.rowCount });
+      setQuarantined({ ...merged, accounts });
     } else {
-      setSuccessInfo({ rows: result.rowCount });
-      onParsed(result.transactions, name);
+      setSuccessInfo({ rows: merged.result.rowCount });
+      onParsed(merged.result.transactions, parsed.map((p) => p.name), merged.summary, accounts);
     }
-  }, [onParsed, onProcessing]);
+  }, [pending, ingestOptions, masterData, passphrase, onParsed, onProcessing]);
+
+  const continueWithValidRows = () => {
+    if (!quarantined) return;
+    const { result, summary, accounts } = quarantined;
+    setQuarantined(null);
+    onParsed(result.transactions, summary.files.map((f) => f.name), summary, accounts);
+  };
+
+  const cancelParse = () => abortRef.current?.abort();
 
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
       setIsDragging(false);
-      const file = e.dataTransfer.files[0];
-      if (file) processFile(file);
+      const files = Array.from(e.dataTransfer.files);
+      if (files.length > 0) processFiles(files);
     },
-    [processFile]
+    [processFiles]
   );
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) processFile(file);
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) processFiles(files);
     e.target.value = '';
   };
 
+  const filesLabel = fileNames.length === 1 ? fileNames[0] : `${fileNames.length} files`;
+  const active = pending[activeFile];
+
   const downloadSample = () => {
     const blob = new Blob([SAMPLE_CSV], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
@@ -81,7 +344,7 @@ export function CSVUpload({ onParsed, onProcessing }: CSVUploadProps) {
         onDragLeave={() => setIsDragging(false)}
         onDrop={handleDrop}
       >
-        <input type="file" accept=".csv" className="hidden" onChange={handleChange} />
+        <input type="file" accept={SUPPORTED_EXTENSIONS.join(',')} multiple className="hidden" onChange={handleChange} />
         <div className="flex flex-col items-center gap-3 text-center">
           {isLoading ? (
             <Loader2 className="w-12 h-12 text-primary animate-spin" />
@@ -93,19 +356,218 @@ export function CSVUpload({ onParsed, onProcessing }: CSVUploadProps) {
           <div>
             <p className="text-lg font-semibold text-foreground">
               {isLoading
-                ? 'Parsing CSV...'
+                ? 'Parsing...'
+                : pending.length > 0
+                ? `Selected: ${filesLabel}`
                 : successInfo
-                ? `Loaded: ${fileName}`
-                : 'Drop your transaction CSV here'}
+                ? `Loaded: ${filesLabel}`
+                : 'Drop your transaction files here'}
             </p>
             <p className="text-sm text-muted-foreground mt-1">
               {successInfo
                 ? `${successInfo.rows.toLocaleString()} valid transactions ready for analysis`
-                : 'or click to browse — .csv files only, up to 10,000 transactions'}
+                : pending.length > 0
+                ? 'Confirm the column mapping below'
+                : 'or click to browse — CSV, JSON/NDJSON, ISO 20022 XML, SWIFT MT103, SQLite, Parquet or Arrow; several files (e.g. one per month or bank) are merged and de-duplicated'}
             </p>
           </div>
         </div>
       </label>
+      <div className="mt-2 text-center">
+        <label className="text-xs text-muted-foreground hover:text-primary transition-colors cursor-pointer">
+          {/* webkitdirectory isn't in React's input typings */}
+          <input
+            type="file"
+            multiple
+            className="hidden"
+            ref={(el) => el?.setAttribute('webkitdirectory', '')}
+            onChange={handleChange}
+          />
+          or select a folder (e.g. a directory of MT103 files)
+        </label>
+      </div>
+
+      {/* Parse progress */}
+      {isLoading && (
+        <div className="glass-card mt-4 p-4">
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <p className="text-xs text-muted-foreground font-mono truncate">
+              {progressFile && fileNames.length > 1 && `[${progressFile.index + 1}/${fileNames.length}] ${progressFile.name} · `}
+              {!progress
+                ? 'Starting parser…'
+                : progress.totalBytes > 0
+                ? `${formatBytes(progress.bytesRead)} / ${formatBytes(progress.totalBytes)} · ${progress.rows.toLocaleString()} rows`
+                : `${progress.rows.toLocaleString()} rows`}
+            </p>
+            <button
+              onClick={cancelParse}
+              className="px-3 py-1 text-xs glass-card hover:border-destructive/50 transition-all flex items-center gap-1"
+            >
+              <X className="w-3 h-3" />
+              Cancel
+            </button>
+          </div>
+          <div className="risk-bar-track">
+            {/* Without a known total the bar pulses at full width */}
+            <div
+              className={progress?.totalBytes === 0 && progress.rows > 0 ? 'risk-bar-fill-low animate-pulse' : 'risk-bar-fill-low'}
+              style={{
+                width: `${
+                  !progress ? 0 : progress.totalBytes > 0 ? (progress.bytesRead / progress.totalBytes) * 100 : progress.rows > 0 ? 100 : 0
+                }%`,
+                height: '100%',
+                borderRadius: '9999px',
+                transition: 'width 150ms linear',
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Quarantined rows (partial mode) */}
+      {quarantined && (
+        <div className="mt-4 glass-card border border-warning/30 p-4 rounded-lg">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" style={{ color: 'hsl(var(--warning))' }} />
+            <p className="text-sm font-semibold" style={{ color: 'hsl(var(--warning))' }}>
+              {quarantined.result.rejected!.length.toLocaleString()} rows quarantined
+            </p>
+          </div>
+          <ul className="space-y-1 mb-3">
+            {quarantined.result.rejected!.slice(0, 5).map((r, i) => (
+              <li key={i} className="text-xs font-mono text-muted-foreground">
+                {fileNames.length > 1 && `${r.sourceFile}: `}{r.reason}
+              </li>
+            ))}
+            {quarantined.result.rejected!.length > 5 && (
+              <li className="text-xs text-muted-foreground">…and {(quarantined.result.rejected!.length - 5).toLocaleString()} more</li>
+            )}
+          </ul>
+          <div className="flex gap-2 flex-wrap">
+            {/* Rejected rows are verbatim source rows, raw account IDs included */}
+            <button
+              disabled={Boolean(quarantined.summary.pseudonymization)}
+              title={quarantined.summary.pseudonymization ? 'Rejected rows keep raw account IDs, so they are not exported from a pseudonymized run.' : undefined}
+              onClick={() => downloadRejectedRowsCSV(
+                quarantined.result.rejected!,
+                fileNames.length === 1 ? `${fileNames[0].replace(/\.[^.]+$/, '')}_rejected.csv` : 'rejected_rows.csv'
+              )}
+              className="px-4 py-2 text-sm glass-card hover:border-primary/50 transition-all flex items-center gap-2 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              Download rejected rows
+            </button>
+            <button
+              onClick={continueWithValidRows}
+              className="px-4 py-2 text-sm font-semibold rounded-lg transition-all hover:opacity-90"
+              style={{ background: 'hsl(var(--primary))', color: 'hsl(var(--primary-foreground))' }}
+            >
+              Analyze {quarantined.result.rowCount.toLocaleString()} valid rows
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Column mapping step */}
+      {active && (
+        <IngestOptionsPanel
+          options={ingestOptions}
+          onChange={setIngestOptions}
+          passphrase={passphrase}
+          onPassphraseChange={setPassphrase}
+        />
+      )}
+      {active && (
+        <AccountMasterDataPanel masterData={masterData} timezone={ingestOptions.timezone} onChange={setMasterData} />
+      )}
+      {pending.length > 1 && (
+        <div className="mt-4 flex flex-wrap gap-1 bg-muted p-1 rounded-lg w-fit">
+          {pending.map((p, i) => (
+            <button
+              key={p.file.name + i}
+              onClick={() => setActiveFile(i)}
+              className={`flex items-center gap-1.5 px-3 py-1 rounded-md text-xs font-mono transition-all ${
+                i === activeFile ? 'bg-card text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {isMapped(p)
+                ? <CheckCircle2 className="w-3 h-3" style={{ color: 'hsl(145 65% 45%)' }} />
+                : <AlertCircle className="w-3 h-3" style={{ color: 'hsl(var(--destructive))' }} />}
+              {p.file.name}
+            </button>
+          ))}
+        </div>
+      )}
+      {active && active.dialect && active.detectedDialect && (
+        <CsvDialectPanel
+          fileName={active.file.name}
+          dialect={active.dialect}
+          detected={active.detectedDialect}
+          onChange={changeDialect}
+        />
+      )}
+      {active && active.sqlite && (
+        <SQLiteSourcePanel
+          key={`sqlite:${activeFile}`}
+          fileName={active.file.name}
+          source={active.sqlite}
+          onRun={changeSQLiteQuery}
+        />
+      )}
+      {active && active.format === 'csv' && (
+        <div className="mt-4">
+          <div className="flex gap-1 bg-muted p-1 rounded-lg w-fit">
+            {([
+              { id: 'transfers', label: 'Transfers (sender → receiver)' },
+              { id: 'statement', label: 'Account statement (debit / credit)' },
+            ] as { id: FileLayout; label: string }[]).map((l) => (
+              <button
+                key={l.id}
+                onClick={() => updateActive({ layout: l.id })}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${
+                  active.layout === l.id
+                    ? 'bg-card text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {l.label}
+              </button>
+            ))}
+          </div>
+          {active.layout === 'statement' && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Each row becomes a transfer between the statement account and the counterparty; negative amounts and
+              debits are outgoing. Transfers between two loaded statements are paired into one.
+              {missingStatementFields(active.statementMapping, active.headers).includes('amount') &&
+                ' Map either amount (signed) or debit and/or credit.'}
+            </p>
+          )}
+        </div>
+      )}
+      {active && active.layout === 'statement' && (
+        <ColumnMappingPanel<StatementField>
+          key={`statement:${activeFile}`}
+          fileName={active.file.name}
+          headers={active.headers}
+          mapping={active.statementMapping}
+          onChange={(statementMapping) => updateActive({ statementMapping })}
+          onConfirm={confirmMappings}
+          onCancel={() => { setPending([]); setFileNames([]); }}
+          fields={STATEMENT_FIELDS}
+          storageKey={STATEMENT_MAPPING_STORAGE_KEY}
+        />
+      )}
+      {active && active.layout === 'transfers' && (
+        <ColumnMappingPanel
+          key={`transfers:${activeFile}`}
+          fileName={active.file.name}
+          headers={active.headers}
+          mapping={active.mapping}
+          onChange={(mapping) => updateActive({ mapping })}
+          onConfirm={confirmMappings}
+          onCancel={() => { setPending([]); setFileNames([]); }}
+        />
+      )}
 
       {/* Column format guide */}
       <div className="glass-card mt-4 p-4">
@@ -113,19 +575,17 @@ export function CSVUpload({ onParsed, onProcessing }: CSVUploadProps) {
           Required Column Structure
         </p>
         <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-          {[
-            { name: 'transaction_id', type: 'String' },
-            { name: 'sender_id', type: 'String' },
-            { name: 'receiver_id', type: 'String' },
-            { name: 'amount', type: 'Float' },
-            { name: 'timestamp', type: 'YYYY-MM-DD HH:MM:SS' },
-          ].map((col) => (
-            <div key={col.name} className="bg-muted rounded-md px-3 py-2">
-              <p className="font-mono text-xs text-primary">{col.name}</p>
+          {TRANSACTION_FIELDS.map((col) => (
+            <div key={col.field} className="bg-muted rounded-md px-3 py-2">
+              <p className="font-mono text-xs text-primary">{col.field}</p>
               <p className="text-xs text-muted-foreground mt-0.5">{col.type}</p>
             </div>
           ))}
         </div>
+        <p className="text-xs text-muted-foreground mt-2">
+          Headers don't need to match exactly — you'll confirm the mapping for each file after selecting it.
+          For JSON, nested fields appear as dotted paths (e.g. <span className="font-mono">payer.id</span>) and unmapped fields are kept as transaction metadata.
+        </p>
         <button
           onClick={downloadSample}
           className="mt-3 text-xs text-muted-foreground hover:text-primary transition-colors flex items-center gap-1"
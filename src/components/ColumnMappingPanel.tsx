@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { ArrowRight, CheckCircle2, AlertCircle, Save, Trash2 } from 'lucide-react';
+import { ColumnFieldDef, ColumnMapping, MappingProfile, TransactionField } from '@/types';
+import {
+  TRANSACTION_FIELDS,
+  missingMappedFields,
+  loadMappingProfiles,
+  saveMappingProfile,
+  deleteMappingProfile,
+} from '@/lib/columnMapping';
+
+interface ColumnMappingPanelProps<F extends string = TransactionField> {
+  fileName: string;
+  headers: string[];
+  mapping: ColumnMapping<F>;
+  onChange: (mapping: ColumnMapping<F>) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  fields?: ColumnFieldDef<F>[];
+  storageKey?: string; // mapping profiles are kept per kind of file
+  confirmLabel?: string;
+}
+
+const selectClass =
+  'w-full bg-input border border-border rounded-md px-2 py-1.5 text-xs font-mono text-foreground focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary transition-all';
+
+export function ColumnMappingPanel<F extends string = TransactionField>({
+  fileName,
+  headers,
+  mapping,
+  onChange,
+  onConfirm,
+  onCancel,
+  fields = TRANSACTION_FIELDS as unknown as ColumnFieldDef<F>[],
+  storageKey,
+  confirmLabel = 'Confirm & Analyze',
+}: ColumnMappingPanelProps<F>) {
+  const [profiles, setProfiles] = useState<MappingProfile<F>[]>(() => loadMappingProfiles<F>(storageKey));
+  const [profileName, setProfileName] = useState('');
+
+  const missing = missingMappedFields(mapping, headers, fields);
+
+  const setField = (field: F, header: string) => {
+    onChange({ ...mapping, [field]: header || undefined });
+  };
+
+  const applyProfile = (name: string) => {
+    const profile = profiles.find((p) => p.name === name);
+    if (profile) onChange({ ...profile.mapping });
+  };
+
+  const saveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    setProfiles(saveMappingProfile<F>({ name, mapping }, storageKey));
+    setProfileName('');
+  };
+
+  return (
+    <div className="glass-card mt-4 p-4">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <p className="text-xs font-semibold text-muted-foreground uppercase tracking-widest">
+          Map Columns · <span className="font-mono normal-case tracking-normal">{fileName}</span>
+        </p>
+        {profiles.length > 0 && (
+          <div className="flex items-center gap-1">
+            <select
+              defaultValue=""
+              onChange={(e) => { applyProfile(e.target.value); e.target.value = ''; }}
+              className={selectClass}
+              style={{ background: 'hsl(var(--input))' }}
+            >
+              <option value="" disabled>Apply saved profile…</option>
+              {profiles.map((p) => (
+                <option key={p.name} value={p.name}>{p.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {fields.map((def) => {
+          const value = mapping[def.field] ?? '';
+          const ok = value !== '' && headers.includes(value);
+          return (
+            <div key={def.field} className="grid grid-cols-[1fr_auto_1fr] items-center gap-2">
+              <select
+                value={value}
+                onChange={(e) => setField(def.field, e.target.value)}
+                className={selectClass}
+                style={{ background: 'hsl(var(--input))' }}
+              >
+                <option value="">{def.required ? '— select column —' : '— not present —'}</option>
+                {headers.map((h) => (
+                  <option key={h} value={h}>{h}</option>
+                ))}
+              </select>
+              <ArrowRight className="w-3.5 h-3.5 text-muted-foreground" />
+              <div className="flex items-center gap-2 bg-muted rounded-md px-3 py-1.5">
+                {ok ? (
+                  <CheckCircle2 className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'hsl(145 65% 45%)' }} />
+                ) : def.required ? (
+                  <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'hsl(var(--destructive))' }} />
+                ) : null}
+                <span className="font-mono text-xs text-primary">{def.field}</span>
+                <span className="text-xs text-muted-foreground truncate">{def.type}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Profiles */}
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          placeholder="Profile name (e.g. Core banking export)"
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          className="flex-1 min-w-48 bg-input border border-border rounded-md px-2 py-1.5 text-xs text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary transition-all"
+          style={{ background: 'hsl(var(--input))' }}
+        />
+        <button
+          onClick={saveProfile}
+          disabled={!profileName.trim()}
+          className="px-3 py-1.5 text-xs glass-card hover:border-primary/50 disabled:opacity-40 disabled:cursor-not-allowed transition-all flex items-center gap-1"
+        >
+          <Save className="w-3 h-3" />
+          Save profile
+        </button>
+      </div>
+      {profiles.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1.5">
+          {profiles.map((p) => (
+            <span key={p.name} className="flex items-center gap-1 text-xs font-mono px-2 py-1 rounded-md bg-muted text-muted-foreground">
+              {p.name}
+              <button
+                onClick={() => setProfiles(deleteMappingProfile<F>(p.name, storageKey))}
+                className="hover:text-destructive transition-colors"
+                title="Delete profile"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="mt-4 flex items-center justify-between gap-2 flex-wrap">
+        <p className="text-xs text-muted-foreground">
+          {missing.length > 0
+            ? `Map required fields: ${missing.join(', ')}`
+            : 'All required fields mapped'}
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm glass-card hover:border-primary/50 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={missing.length > 0}
+            className="px-4 py-2 text-sm font-semibold rounded-lg transition-all hover:opacity-90 disabled:opacity-40 disabled:cursor-not-allowed"
+            style={{ background: 'hsl(var(--primary))', color: 'hsl(var(--primary-foreground))' }}
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
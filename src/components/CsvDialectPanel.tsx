@@ -0,0 +1,96 @@
+import { FileCog } from 'lucide-react';
+import { CsvDialect, CsvEncoding, NumberFormat } from '@/types';
+import { CSV_DELIMITERS, CSV_ENCODINGS, THOUSANDS_SEPARATORS, describeDialect } from '@/lib/csvDialect';
+
+interface CsvDialectPanelProps {
+  fileName: string;
+  dialect: CsvDialect;
+  detected: CsvDialect;
+  onChange: (dialect: CsvDialect) => void;
+}
+
+const DECIMAL_SEPARATORS: { id: NumberFormat['decimalSeparator']; label: string }[] = [
+  { id: '.', label: 'Dot .' },
+  { id: ',', label: 'Comma ,' },
+];
+
+const selectClass =
+  'w-full bg-input border border-border rounded-md px-2 py-1.5 text-xs font-mono text-foreground focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary transition-all';
+
+export function CsvDialectPanel({ fileName, dialect, detected, onChange }: CsvDialectPanelProps) {
+  const mark = (isDetected: boolean, label: string) => (isDetected ? `${label} (detected)` : label);
+
+  // The thousands separator can't also be the decimal separator
+  const changeDecimal = (decimalSeparator: NumberFormat['decimalSeparator']) =>
+    onChange({
+      ...dialect,
+      decimalSeparator,
+      thousandsSeparator: dialect.thousandsSeparator === decimalSeparator ? '' : dialect.thousandsSeparator,
+    });
+
+  return (
+    <div className="glass-card mt-4 p-4">
+      <p className="flex items-center gap-1 text-xs font-semibold text-muted-foreground uppercase tracking-widest mb-3">
+        <FileCog className="w-3 h-3" />
+        File Format · <span className="font-mono normal-case tracking-normal">{fileName}</span>
+      </p>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">Encoding</label>
+          <select
+            value={dialect.encoding}
+            onChange={(e) => onChange({ ...dialect, encoding: e.target.value as CsvEncoding })}
+            className={selectClass}
+            style={{ background: 'hsl(var(--input))' }}
+          >
+            {CSV_ENCODINGS.map((e) => (
+              <option key={e.id} value={e.id}>{mark(e.id === detected.encoding, e.label)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">Delimiter</label>
+          <select
+            value={dialect.delimiter}
+            onChange={(e) => onChange({ ...dialect, delimiter: e.target.value })}
+            className={selectClass}
+            style={{ background: 'hsl(var(--input))' }}
+          >
+            {CSV_DELIMITERS.map((d) => (
+              <option key={d.id} value={d.id}>{mark(d.id === detected.delimiter, d.label)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">Decimal separator</label>
+          <select
+            value={dialect.decimalSeparator}
+            onChange={(e) => changeDecimal(e.target.value as NumberFormat['decimalSeparator'])}
+            className={selectClass}
+            style={{ background: 'hsl(var(--input))' }}
+          >
+            {DECIMAL_SEPARATORS.map((d) => (
+              <option key={d.id} value={d.id}>{mark(d.id === detected.decimalSeparator, d.label)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">Thousands separator</label>
+          <select
+            value={dialect.thousandsSeparator}
+            onChange={(e) => onChange({ ...dialect, thousandsSeparator: e.target.value as NumberFormat['thousandsSeparator'] })}
+            className={selectClass}
+            style={{ background: 'hsl(var(--input))' }}
+          >
+            {THOUSANDS_SEPARATORS.filter((t) => t.id !== dialect.decimalSeparator).map((t) => (
+              <option key={t.id || 'none'} value={t.id}>{mark(t.id === detected.thousandsSeparator, t.label)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        {describeDialect(dialect)}. Detected from the start of the file — change a setting if the headers or amounts look wrong.
+      </p>
+    </div>
+  );
+}
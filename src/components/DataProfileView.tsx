@@ -0,0 +1,271 @@
+import React from 'react';
+import { DetectionConfig, ReversalPolicy } from '@/types';
+import { DataProfile, DataAnomaly } from '@/lib/dataProfile';
+import { REVERSAL_POLICY_LABELS } from '@/lib/reversals';
+import { validateDetectionConfig } from '@/lib/detectionConfig';
+import { DetectionSettingsPanel } from './DetectionSettingsPanel';
+import { AllowlistPanel } from './AllowlistPanel';
+import { Activity, AlertTriangle, BarChart3, Calendar, ChevronRight, Database, Play, Users } from 'lucide-react';
+
+interface DataProfileViewProps {
+  profile: DataProfile;
+  fileNames: string[];
+  config: DetectionConfig;
+  onConfigChange: (config: DetectionConfig) => void;
+  onAnalyze: () => void;
+  onReset: () => void;
+}
+
+const formatAmount = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+const formatDate = (ms: number) => new Date(ms).toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+const formatRate = (rate: number) => `${(rate * 100).toFixed(rate > 0 && rate < 0.01 ? 2 : 1)}%`;
+
+function AnomalyCard({ label, hint, anomaly }: { label: string; hint: string; anomaly: DataAnomaly }) {
+  const color = anomaly.count > 0 ? 'hsl(38 95% 55%)' : 'hsl(145 65% 45%)';
+  return (
+    <div className="bg-muted rounded-lg p-3">
+      <p className="text-2xl font-bold font-mono" style={{ color }}>{anomaly.count.toLocaleString()}</p>
+      <p className="text-xs text-foreground mt-0.5">{label}</p>
+      <p className="text-xs text-muted-foreground">{hint}</p>
+      {anomaly.samples.length > 0 && (
+        <p className="text-xs font-mono text-muted-foreground mt-2 truncate" title={anomaly.samples.join(', ')}>
+          e.g. {anomaly.samples.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function DataProfileView({
+  profile,
+  fileNames,
+  config,
+  onConfigChange,
+  onAnalyze,
+  onReset,
+}: DataProfileViewProps) {
+  const maxBucket = Math.max(1, ...(profile.amounts?.buckets.map((b) => b.count) ?? []));
+  const columnsWithNulls = profile.columnNulls.filter((c) => c.nulls > 0).sort((a, b) => b.rate - a.rate);
+  const configErrors = validateDetectionConfig(config);
+  const reversalPolicy = config.reversalPolicy;
+
+  const stats = [
+    { label: 'Rows Read', value: profile.rowsRead.toLocaleString(), icon: <Database className="w-5 h-5" />, color: 'hsl(var(--primary))' },
+    { label: 'Valid Transactions', value: profile.transactions.toLocaleString(), icon: <Activity className="w-5 h-5" />, color: 'hsl(145 65% 45%)' },
+    {
+      label: 'Rejected / Duplicates Removed',
+      value: `${profile.rowsRejected.toLocaleString()} / ${profile.duplicatesRemoved.toLocaleString()}`,
+      icon: <AlertTriangle className="w-5 h-5" />,
+      color: 'hsl(var(--destructive))',
+    },
+    { label: 'Accounts', value: profile.accounts.toLocaleString(), icon: <Users className="w-5 h-5" />, color: 'hsl(var(--accent))' },
+  ];
+
+  return (
+    <div className="space-y-6 animate-fade-in-up">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+            <button onClick={onReset} className="hover:text-primary transition-colors">Upload</button>
+            <ChevronRight className="w-3 h-3" />
+            <span className="text-foreground font-mono">{fileNames.join(', ')}</span>
+          </div>
+          <h2 className="text-2xl font-bold text-foreground">Data Quality Profile</h2>
+          <p className="text-sm text-muted-foreground mt-0.5">Check the data before running detection.</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onReset}
+            className="px-4 py-2 text-sm glass-card hover:border-primary/50 transition-all"
+          >
+            ↑ New File
+          </button>
+          <button
+            onClick={onAnalyze}
+            disabled={profile.transactions === 0 || configErrors.length > 0}
+            className="px-4 py-2 text-sm font-semibold rounded-lg transition-all hover:opacity-90 disabled:opacity-40 flex items-center gap-2"
+            style={{ background: 'hsl(var(--primary))', color: 'hsl(var(--primary-foreground))' }}
+          >
+            <Play className="w-4 h-4" />
+            Run Analysis
+          </button>
+        </div>
+      </div>
+
+      {/* Counts */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        {stats.map((stat) => (
+          <div key={stat.label} className="stat-card">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">{stat.label}</p>
+                <p className="text-2xl font-bold font-mono text-foreground">{stat.value}</p>
+              </div>
+              <div className="mt-1" style={{ color: stat.color }}>{stat.icon}</div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+        {/* Time range & amounts */}
+        <div className="glass-card p-4">
+          <div className="flex items-center gap-2 mb-3">
+            <Calendar className="w-4 h-4 text-muted-foreground" />
+            <p className="text-sm font-semibold">Time Range</p>
+          </div>
+          {profile.timeRange ? (
+            <p className="text-xs font-mono text-foreground">
+              {formatDate(profile.timeRange.start)} → {formatDate(profile.timeRange.end)}
+            </p>
+          ) : (
+            <p className="text-xs text-muted-foreground">No transactions</p>
+          )}
+
+          <div className="flex items-center gap-2 mt-5 mb-3">
+            <BarChart3 className="w-4 h-4 text-muted-foreground" />
+            <p className="text-sm font-semibold">Amount Distribution</p>
+          </div>
+          {profile.amounts && (
+            <>
+              <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mb-3">
+                {[
+                  ['Min', profile.amounts.min],
+                  ['Median', profile.amounts.median],
+                  ['Mean', profile.amounts.mean],
+                  ['P95', profile.amounts.p95],
+                  ['Max', profile.amounts.max],
+                  ['Total', profile.amounts.total],
+                ].map(([label, value]) => (
+                  <div key={label as string} className="bg-muted rounded-md px-2 py-1.5">
+                    <p className="text-xs text-muted-foreground">{label}</p>
+                    <p className="text-xs font-mono text-foreground truncate">{formatAmount(value as number)}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-1">
+                {profile.amounts.buckets.map((b) => (
+                  <div key={b.from} className="grid grid-cols-[7rem_1fr_4rem] items-center gap-2">
+                    <span className="text-xs font-mono text-muted-foreground">
+                      {formatAmount(b.from)}–{formatAmount(b.to)}
+                    </span>
+                    <div className="risk-bar-track">
+                      <div
+                        className="risk-bar-fill-low"
+                        style={{ width: `${(b.count / maxBucket) * 100}%`, height: '100%', borderRadius: '9999px' }}
+                      />
+                    </div>
+                    <span className="text-xs font-mono text-right text-foreground">{b.count.toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Top accounts */}
+        <div className="glass-card overflow-hidden">
+          <table className="w-full data-table">
+            <thead>
+              <tr>
+                <th className="text-left">Top Accounts by Volume</th>
+                <th className="text-right">Transactions</th>
+                <th className="text-right">Volume</th>
+              </tr>
+            </thead>
+            <tbody>
+              {profile.topAccounts.map((a) => (
+                <tr key={a.account_id}>
+                  <td className="font-mono text-sm text-foreground">{a.account_id}</td>
+                  <td className="text-right font-mono text-xs">{a.transactions.toLocaleString()}</td>
+                  <td className="text-right font-mono text-xs">{formatAmount(a.volume)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Anomalies */}
+      <div className="glass-card p-4">
+        <div className="flex items-center gap-2 mb-4">
+          <AlertTriangle className="w-4 h-4 text-muted-foreground" />
+          <p className="text-sm font-semibold">Anomalies</p>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          <AnomalyCard label="Self-transfers" hint="sender = receiver" anomaly={profile.selfTransfers} />
+          <AnomalyCard label="Zero-degree accounts" hint="no counterparty (self-only or no transactions)" anomaly={profile.zeroDegree} />
+          <AnomalyCard label="Future-dated" hint="timestamp after now" anomaly={profile.futureDated} />
+          <AnomalyCard label="Reversals" hint="refunds, chargebacks, reversed transfers" anomaly={profile.reversals} />
+        </div>
+        {profile.reversals.count > 0 && (
+          <div className="mt-4">
+            <p className="text-xs text-muted-foreground mb-1">Reversals before detection</p>
+            <div className="flex gap-1 bg-muted p-1 rounded-lg w-fit">
+              {(Object.keys(REVERSAL_POLICY_LABELS) as ReversalPolicy[]).map((policy) => (
+                <button
+                  key={policy}
+                  onClick={() => onConfigChange({ ...config, reversalPolicy: policy })}
+                  className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${
+                    reversalPolicy === policy
+                      ? 'bg-card text-foreground shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  {REVERSAL_POLICY_LABELS[policy]}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {reversalPolicy === 'net'
+                ? 'Reversal amounts are subtracted from the transfer they reverse; fully reversed transfers and the reversal rows leave the graph.'
+                : reversalPolicy === 'exclude'
+                ? 'Reversed transfers (even partly reversed) and the reversal rows leave the graph.'
+                : 'Reversals stay in the graph as ordinary transfers and can close cycles.'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Null rates */}
+      <div className="glass-card overflow-hidden">
+        <table className="w-full data-table">
+          <thead>
+            <tr>
+              <th className="text-left">Column</th>
+              {fileNames.length > 1 && <th className="text-left">File</th>}
+              <th className="text-right">Empty</th>
+              <th className="text-right">Null Rate</th>
+            </tr>
+          </thead>
+          <tbody>
+            {columnsWithNulls.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="text-center text-muted-foreground py-6">
+                  No empty values in any column
+                </td>
+              </tr>
+            ) : (
+              columnsWithNulls.map((c) => (
+                <tr key={`${c.file}:${c.column}`}>
+                  <td className="font-mono text-sm text-foreground">{c.column}</td>
+                  {fileNames.length > 1 && <td className="font-mono text-xs text-muted-foreground">{c.file}</td>}
+                  <td className="text-right font-mono text-xs">{c.nulls.toLocaleString()}</td>
+                  <td className="text-right font-mono text-xs">{formatRate(c.rate)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <DetectionSettingsPanel config={config} errors={configErrors} onChange={onConfigChange} />
+      <AllowlistPanel
+        allowlist={config.allowlist}
+        errors={configErrors.filter((e) => e.field?.startsWith('allowlist.'))}
+        onChange={(allowlist) => onConfigChange({ ...config, allowlist })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+import { RotateCcw, SlidersHorizontal } from 'lucide-react';
+import { Channel, DetectionConfig, ScoredPattern, ValidationError } from '@/types';
+import { CHANNELS } from '@/lib/channels';
+import { DEFAULT_DETECTION_CONFIG } from '@/lib/detectionConfig';
+
+interface DetectionSettingsPanelProps {
+  config: DetectionConfig;
+  errors: ValidationError[];
+  onChange: (config: DetectionConfig) => void;
+}
+
+type ThresholdGroup = 'cycles' | 'conservation' | 'smurfing' | 'shellChains' | 'velocity' | 'newAccounts';
+type SuppressionRule = keyof DetectionConfig['suppression'];
+
+// Field labels per detector, in display order
+const THRESHOLDS: { group: ThresholdGroup; title: string; fields: { key: string; label: string; step?: number }[] }[] = [
+  {
+    group: 'cycles',
+    title: 'Cycles',
+    fields: [
+      { key: 'minLength', label: 'Min accounts' },
+      { key: 'maxLength', label: 'Max accounts' },
+      { key: 'maxCycles', label: 'Max cycles' },
+      { key: 'timeBudgetSeconds', label: 'Time budget (s)', step: 0.5 },
+    ],
+  },
+  {
+    group: 'conservation',
+    title: 'Amount conservation',
+    fields: [{ key: 'tolerance', label: 'Hop tolerance (0–1)', step: 0.01 }],
+  },
+  {
+    group: 'smurfing',
+    title: 'Smurfing',
+    fields: [
+      { key: 'threshold', label: 'Counterparties', step: 0.5 },
+      { key: 'windowHours', label: 'Window (hours)' },
+    ],
+  },
+  {
+    group: 'shellChains',
+    title: 'Shell chains',
+    fields: [
+      { key: 'minHops', label: 'Min hops' },
+      { key: 'maxTransactions', label: 'Max tx per shell' },
+    ],
+  },
+  {
+    group: 'velocity',
+    title: 'Velocity',
+    fields: [
+      { key: 'minTransactions', label: 'Transactions', step: 0.5 },
+      { key: 'windowHours', label: 'Window (hours)' },
+    ],
+  },
+  {
+    group: 'newAccounts',
+    title: 'New accounts',
+    fields: [
+      { key: 'minSenders', label: 'Distinct senders' },
+      { key: 'maxAgeDays', label: 'Age (days)' },
+    ],
+  },
+];
+
+const SUPPRESSION_RULES: {
+  rule: SuppressionRule;
+  title: string;
+  hint: string;
+  fields: { key: string; label: string; step: number }[];
+}[] = [
+  {
+    rule: 'payroll',
+    title: 'Payroll',
+    hint: 'Fan-out and velocity from many payments of nearly the same amount.',
+    fields: [
+      { key: 'minTransactions', label: 'Min payments', step: 1 },
+      { key: 'maxVariation', label: 'Max amount variation (0–1)', step: 0.01 },
+    ],
+  },
+  {
+    rule: 'merchant',
+    title: 'Merchant',
+    hint: 'Fan-in from many card payers, none carrying much of the volume.',
+    fields: [
+      { key: 'minPayers', label: 'Min payers', step: 1 },
+      { key: 'minCardShare', label: 'Min card share (0–1)', step: 0.05 },
+      { key: 'maxPayerShare', label: 'Max share of one payer (0–1)', step: 0.01 },
+    ],
+  },
+];
+
+const SCORE_LABELS: Record<ScoredPattern, string> = {
+  cycle: 'Cycle',
+  fanIn: 'Fan-in',
+  fanOut: 'Fan-out',
+  shell: 'Shell chain',
+  velocity: 'High velocity',
+  newAccount: 'New account inflow',
+  conservation: 'Amount conserved',
+};
+
+const inputClass =
+  'w-full bg-input border border-border rounded-md px-2 py-1.5 text-xs font-mono text-foreground focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary transition-all';
+
+// An emptied field stays empty (NaN) and fails validation instead of becoming 0
+const readNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+const showNumber = (value: number) => (Number.isNaN(value) ? '' : value);
+
+export function DetectionSettingsPanel({ config, errors, onChange }: DetectionSettingsPanelProps) {
+  const invalid = new Set(errors.map((e) => e.field));
+  // The allowlist is kept apart from the thresholds and survives a reset
+  const isDefault = JSON.stringify({ ...config, allowlist: [] }) === JSON.stringify(DEFAULT_DETECTION_CONFIG);
+  const borderFor = (field: string) => (invalid.has(field) ? { borderColor: 'hsl(var(--destructive))' } : {});
+
+  const setThreshold = (group: ThresholdGroup, key: string, value: number) =>
+    onChange({ ...config, [group]: { ...config[group], [key]: value } });
+  const setScore = (pattern: ScoredPattern, value: number) =>
+    onChange({ ...config, scores: { ...config.scores, [pattern]: value } });
+  const setSuppression = <K extends SuppressionRule>(rule: K, changes: Partial<DetectionConfig['suppression'][K]>) =>
+    onChange({ ...config, suppression: { ...config.suppression, [rule]: { ...config.suppression[rule], ...changes } } });
+  const setTemporal = (changes: Partial<DetectionConfig['temporalCycles']>) =>
+    onChange({ ...config, temporalCycles: { ...config.temporalCycles, ...changes } });
+  const setWeight = (detector: 'smurfing' | 'velocity', channel: Channel, value: number) =>
+    onChange({
+      ...config,
+      channelWeights: { ...config.channelWeights, [detector]: { ...config.channelWeights[detector], [channel]: value } },
+    });
+
+  return (
+    <div className="glass-card p-4">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4 text-muted-foreground" />
+          <p className="text-sm font-semibold">Detection Settings</p>
+        </div>
+        <button
+          onClick={() => onChange({ ...DEFAULT_DETECTION_CONFIG, allowlist: config.allowlist })}
+          disabled={isDefault}
+          className="px-3 py-1 text-xs glass-card hover:border-primary/50 transition-all flex items-center gap-1 disabled:opacity-50"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Defaults
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+        {THRESHOLDS.map(({ group, title, fields }) => (
+          <div key={group} className="bg-muted rounded-lg p-3">
+            <p className="text-xs font-semibold text-foreground mb-2">{title}</p>
+            {fields.map(({ key, label, step }) => {
+              const value = (config[group] as Record<string, number>)[key];
+              return (
+                <div key={key} className="mt-2">
+                  <label className="block text-xs text-muted-foreground mb-1">{label}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={step ?? 1}
+                    value={showNumber(value)}
+                    onChange={(e) => setThreshold(group, key, readNumber(e.target.value))}
+                    className={inputClass}
+                    style={{ background: 'hsl(var(--input))', ...borderFor(`${group}.${key}`) }}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 mt-3">
+        <div className="bg-muted rounded-lg p-3">
+          <p className="text-xs font-semibold text-foreground">Score per pattern</p>
+          <p className="text-xs text-muted-foreground mb-2">Points added for each pattern; account scores are capped at 100.</p>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {(Object.keys(SCORE_LABELS) as ScoredPattern[]).map((pattern) => (
+              <div key={pattern}>
+                <label className="block text-xs text-muted-foreground mb-1">{SCORE_LABELS[pattern]}</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={showNumber(config.scores[pattern])}
+                  onChange={(e) => setScore(pattern, readNumber(e.target.value))}
+                  className={inputClass}
+                  style={{ background: 'hsl(var(--input))', ...borderFor(`scores.${pattern}`) }}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-muted rounded-lg p-3">
+          <p className="text-xs font-semibold text-foreground">Channel weights</p>
+          <p className="text-xs text-muted-foreground mb-2">How much one transaction counts toward a threshold, 0 to 1.</p>
+          <div className="grid grid-cols-[5rem_repeat(6,1fr)] gap-1 items-center">
+            <span />
+            {CHANNELS.map((channel) => (
+              <span key={channel} className="text-xs font-mono text-muted-foreground truncate" title={channel}>
+                {channel}
+              </span>
+            ))}
+            {(['smurfing', 'velocity'] as const).map((detector) => (
+              <div key={detector} className="contents">
+                <span className="text-xs text-muted-foreground capitalize">{detector}</span>
+                {CHANNELS.map((channel) => (
+                  <input
+                    key={channel}
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.1}
+                    value={showNumber(config.channelWeights[detector][channel])}
+                    onChange={(e) => setWeight(detector, channel, readNumber(e.target.value))}
+                    className={inputClass}
+                    style={{ background: 'hsl(var(--input))', ...borderFor(`channelWeights.${detector}.${channel}`) }}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-muted rounded-lg p-3 mt-3">
+        <label className="flex items-center gap-2 text-xs font-semibold text-foreground">
+          <input
+            type="checkbox"
+            checked={config.temporalCycles.enabled}
+            onChange={(e) => setTemporal({ enabled: e.target.checked })}
+            className="accent-primary"
+          />
+          Cycles must run in time order
+        </label>
+        <p className="text-xs text-muted-foreground mb-2">
+          Each hop follows the one before within the hop delay, and the loop closes within the window.
+        </p>
+        <div className="grid grid-cols-2 gap-2 max-w-sm">
+          {([
+            ['maxHopHours', 'Max hop delay (hours)'],
+            ['windowHours', 'Loop window (hours)'],
+          ] as const).map(([key, label]) => (
+            <div key={key}>
+              <label className="block text-xs text-muted-foreground mb-1">{label}</label>
+              <input
+                type="number"
+                min={0}
+                value={showNumber(config.temporalCycles[key])}
+                disabled={!config.temporalCycles.enabled}
+                onChange={(e) => setTemporal({ [key]: readNumber(e.target.value) })}
+                className={`${inputClass} disabled:opacity-50`}
+                style={{ background: 'hsl(var(--input))', ...borderFor(`temporalCycles.${key}`) }}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 mt-3">
+        {SUPPRESSION_RULES.map(({ rule, title, hint, fields }) => {
+          const settings = config.suppression[rule] as unknown as Record<string, number> & { enabled: boolean };
+          return (
+            <div key={rule} className="bg-muted rounded-lg p-3">
+              <label className="flex items-center gap-2 text-xs font-semibold text-foreground">
+                <input
+                  type="checkbox"
+                  checked={settings.enabled}
+                  onChange={(e) => setSuppression(rule, { enabled: e.target.checked })}
+                  className="accent-primary"
+                />
+                Suppress {title.toLowerCase()} false positives
+              </label>
+              <p className="text-xs text-muted-foreground mb-2">{hint}</p>
+              <div className="grid grid-cols-3 gap-2">
+                {fields.map(({ key, label, step }) => (
+                  <div key={key}>
+                    <label className="block text-xs text-muted-foreground mb-1">{label}</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={step}
+                      value={showNumber(settings[key])}
+                      disabled={!settings.enabled}
+                      onChange={(e) => setSuppression(rule, { [key]: readNumber(e.target.value) })}
+                      className={`${inputClass} disabled:opacity-50`}
+                      style={{ background: 'hsl(var(--input))', ...borderFor(`suppression.${rule}.${key}`) }}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="mt-3 space-y-0.5">
+          {errors.map((e) => (
+            <p key={e.field} className="text-xs font-mono" style={{ color: 'hsl(var(--destructive))' }}>
+              {e.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,6 +14,15 @@ const PATTERN_LABELS: Record<string, { label: string; icon: React.ReactNode; cla
   shell_chain: { label: 'Shell Network', icon: <Layers className="w-3.5 h-3.5" />, className: 'pattern-tag-shell' },
 };
 
+// "2024-03-01 09:15 → +36.5h"
+function formatLoopSpan(startedAt: number, closedAt: number): string {
+  const start = new Date(startedAt).toISOString().slice(0, 16).replace('T', ' ');
+  const hours = Math.round((closedAt - startedAt) / 360_000) / 10;
+  return `${start} → +${hours}h`;
+}
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
 function riskBarClass(score: number): string {
   if (score >= 60) return 'risk-bar-fill-high';
   if (score >= 30) return 'risk-bar-fill-medium';
@@ -156,6 +165,34 @@ export function FraudRingTable({ rings, suspiciousAccounts }: FraudRingTableProp
                           );
                         })}
                       </div>
+                      {ring.amount_flow && (
+                        <>
+                          <p className="text-xs text-muted-foreground uppercase tracking-wider mt-3 mb-2">
+                            Amount Flow {ring.amount_flow.conserved ? '· conserved' : '· not conserved'}
+                          </p>
+                          <p className="font-mono text-xs text-muted-foreground">
+                            <span className="text-foreground">
+                              {[...ring.amount_flow.accounts, ...(ring.pattern_type === 'cycle' ? [ring.amount_flow.accounts[0]] : [])].join(' → ')}
+                            </span>
+                            {' · '}retained per hop {ring.amount_flow.hop_retention.map(formatPercent).join(', ') || '—'}
+                            {' · '}leakage {formatPercent(ring.amount_flow.leakage)}
+                          </p>
+                        </>
+                      )}
+                      {ring.loops && (
+                        <>
+                          <p className="text-xs text-muted-foreground uppercase tracking-wider mt-3 mb-2">Loops in Time Order</p>
+                          <ul className="space-y-1">
+                            {ring.loops.map((loop) => (
+                              <li key={loop.transaction_ids.join('|')} className="font-mono text-xs text-muted-foreground">
+                                <span className="text-foreground">{[...loop.accounts, loop.accounts[0]].join(' → ')}</span>
+                                {' · '}{loop.transaction_ids.join(', ')}
+                                {' · '}{formatLoopSpan(loop.started_at, loop.closed_at)}
+                              </li>
+                            ))}
+                          </ul>
+                        </>
+                      )}
                     </td>
                   </tr>
                 )}
@@ -2,6 +2,8 @@ import React, { useEffect, useRef, useState, useCallback } from 'react';
 import * as d3 from 'd3';
 import { GraphNode, GraphEdge, D3Node, D3Link } from '@/types';
 import { ZoomIn, ZoomOut, RotateCcw, Maximize2 } from 'lucide-react';
+import { describeAccountAttributes } from '@/lib/accountMasterData';
+import { currencyExponent } from '@/lib/money';
 
 interface GraphVisualizationProps {
   nodes: Map<string, GraphNode>;
@@ -78,6 +80,9 @@ export function GraphVisualization({ nodes, edges }: GraphVisualizationProps) {
         target: e.target,
         amount: e.amount,
         transactionId: e.transactionId,
+        originalAmount: e.originalAmount,
+        currency: e.currency,
+        channel: e.channel,
       }));
 
     setNodeCount(displayNodes.length);
@@ -176,6 +181,15 @@ export function GraphVisualization({ nodes, edges }: GraphVisualizationProps) {
         return srcNode?.isSuspicious ? 'url(#arrowhead-suspicious)' : 'url(#arrowhead)';
       });
 
+    // Native hover title: transaction ID, amount (original currency when converted) and channel
+    link.append('title').text((d) => {
+      const base = d.amount.toLocaleString(undefined, { maximumFractionDigits: 2 });
+      const original = d.currency && d.originalAmount !== undefined
+        ? ` (${d.originalAmount.toLocaleString(undefined, { maximumFractionDigits: currencyExponent(d.currency) })} ${d.currency})`
+        : '';
+      return `${d.transactionId}: ${base}${original}${d.channel ? ` · ${d.channel}` : ''}`;
+    });
+
     // Nodes
     const node = g.append('g')
       .selectAll('circle')
@@ -274,6 +288,13 @@ export function GraphVisualization({ nodes, edges }: GraphVisualizationProps) {
             }}
           >
             <p className="font-mono text-xs text-primary font-bold mb-2">{tooltip.node.id}</p>
+            {tooltip.node.party && (
+              <div className="mb-2 text-xs text-muted-foreground">
+                {tooltip.node.party.name && <p className="text-foreground">{tooltip.node.party.name}</p>}
+                {tooltip.node.party.bic && <p className="font-mono">{tooltip.node.party.bic}</p>}
+                {tooltip.node.party.address && <p className="truncate">{tooltip.node.party.address}</p>}
+              </div>
+            )}
             <div className="space-y-1">
               <div className="flex justify-between">
                 <span className="text-xs text-muted-foreground">Suspicion Score</span>
@@ -294,6 +315,12 @@ export function GraphVisualization({ nodes, edges }: GraphVisualizationProps) {
                   <span className="text-xs font-mono" style={{ color: 'hsl(38 95% 55%)' }}>{tooltip.node.ringId}</span>
                 </div>
               )}
+              {tooltip.node.attributes && describeAccountAttributes(tooltip.node.attributes).map((a) => (
+                <div key={a.label} className="flex justify-between gap-2">
+                  <span className="text-xs text-muted-foreground">{a.label}</span>
+                  <span className="text-xs font-mono text-foreground truncate">{a.value}</span>
+                </div>
+              ))}
             </div>
             {tooltip.node.detectedPatterns.length > 0 && (
               <div className="mt-2 flex flex-wrap gap-1">
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { Globe, Coins, Copy, KeyRound, ShieldAlert, X } from 'lucide-react';
+import { DuplicatePolicy, IngestMode, ParseOptions, ValidationError } from '@/types';
+import { DEFAULT_SOURCE_TIMEZONE, isValidTimeZone } from '@/lib/timestamp';
+import { DEFAULT_BASE_CURRENCY, normalizeCurrency, parseFxRates } from '@/lib/fxRates';
+import { DEFAULT_DUPLICATE_POLICY } from '@/lib/duplicates';
+
+interface IngestOptionsPanelProps {
+  options: ParseOptions;
+  onChange: (options: ParseOptions) => void;
+  // Kept out of ParseOptions so it is never posted to the parse worker
+  passphrase: string;
+  onPassphraseChange: (passphrase: string) => void;
+}
+
+const COMMON_TIMEZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Paris',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Dubai',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
+const inputClass =
+  'w-full bg-input border border-border rounded-md px-2 py-1.5 text-xs font-mono text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary transition-all';
+
+export function IngestOptionsPanel({ options, onChange, passphrase, onPassphraseChange }: IngestOptionsPanelProps) {
+  const timezone = options.timezone ?? DEFAULT_SOURCE_TIMEZONE;
+  const timezoneValid = isValidTimeZone(timezone);
+  const [baseCurrency, setBaseCurrency] = useState(options.fx?.baseCurrency ?? DEFAULT_BASE_CURRENCY);
+  const [fxFileName, setFxFileName] = useState('');
+  const [fxErrors, setFxErrors] = useState<ValidationError[]>([]);
+
+  const fxRateCount = options.fx
+    ? Object.keys(options.fx.rates).length +
+      Object.values(options.fx.daily).reduce((n, day) => n + Object.keys(day).length, 0)
+    : 0;
+
+  const changeBaseCurrency = (value: string) => {
+    const code = normalizeCurrency(value);
+    setBaseCurrency(code);
+    if (options.fx) onChange({ ...options, fx: { ...options.fx, baseCurrency: code } });
+  };
+
+  const loadFxFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { table, errors } = await parseFxRates(file, baseCurrency);
+    setFxErrors(errors);
+    if (errors.length === 0) {
+      setFxFileName(file.name);
+      onChange({ ...options, fx: table });
+    }
+  };
+
+  const clearFx = () => {
+    setFxFileName('');
+    setFxErrors([]);
+    onChange({ ...options, fx: undefined });
+  };
+
+  return (
+    <div className="glass-card mt-4 p-4">
+      <p className="text-xs font-semibold text-muted-foreground uppercase tracking-widest mb-3">
+        Ingestion Settings
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+            <Globe className="w-3 h-3" />
+            Source timezone
+          </label>
+          <input
+            type="text"
+            list="ingest-timezones"
+            value={timezone}
+            onChange={(e) => onChange({ ...options, timezone: e.target.value })}
+            className={inputClass}
+            style={{ background: 'hsl(var(--input))' }}
+          />
+          <datalist id="ingest-timezones">
+            {COMMON_TIMEZONES.map((tz) => <option key={tz} value={tz} />)}
+          </datalist>
+          <p className="text-xs mt-1" style={{ color: timezoneValid ? 'hsl(var(--muted-foreground))' : 'hsl(var(--destructive))' }}>
+            {timezoneValid
+              ? 'Applied to timestamps without an offset. Everything is normalized to UTC.'
+              : `"${timezone}" is not a valid IANA timezone`}
+          </p>
+        </div>
+
+        <div>
+          <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+            <Coins className="w-3 h-3" />
+            Base currency · FX rates
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              maxLength={3}
+              value={baseCurrency}
+              onChange={(e) => changeBaseCurrency(e.target.value)}
+              className={`${inputClass} w-16`}
+              style={{ background: 'hsl(var(--input))' }}
+            />
+            <label className="flex-1 px-2 py-1.5 text-xs glass-card hover:border-primary/50 transition-all cursor-pointer truncate">
+              <input type="file" accept=".csv" className="hidden" onChange={loadFxFile} />
+              {fxFileName ? `${fxFileName} (${fxRateCount} rates)` : 'Load FX table (.csv)…'}
+            </label>
+            {options.fx && (
+              <button onClick={clearFx} className="px-2 glass-card hover:border-primary/50 transition-all" title="Remove FX table">
+                <X className="w-3 h-3 text-muted-foreground" />
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            Columns: currency, rate [, date]. Rate = {baseCurrency || 'base'} per 1 unit. Needed when the file mixes currencies.
+          </p>
+          {fxErrors.length > 0 && (
+            <ul className="mt-1 space-y-0.5">
+              {fxErrors.slice(0, 5).map((err, i) => (
+                <li key={i} className="text-xs font-mono" style={{ color: 'hsl(var(--destructive))' }}>{err.message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="sm:col-span-2">
+          <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+            <ShieldAlert className="w-3 h-3" />
+            Invalid rows
+          </label>
+          <div className="flex gap-1 bg-muted p-1 rounded-lg w-fit">
+            {([
+              { id: 'strict', label: 'Reject file' },
+              { id: 'partial', label: 'Skip & quarantine' },
+            ] as { id: IngestMode; label: string }[]).map((m) => (
+              <button
+                key={m.id}
+                onClick={() => onChange({ ...options, mode: m.id })}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${
+                  (options.mode ?? 'strict') === m.id
+                    ? 'bg-card text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {options.mode === 'partial'
+              ? 'Valid rows are analyzed; rejected rows are kept with row number, field and reason for download.'
+              : 'Any invalid row stops the upload.'}
+          </p>
+        </div>
+
+        <div className="sm:col-span-2">
+          <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+            <Copy className="w-3 h-3" />
+            Duplicate transaction_id
+          </label>
+          <div className="flex gap-1 bg-muted p-1 rounded-lg w-fit">
+            {([
+              { id: 'keep_first', label: 'Keep first' },
+              { id: 'drop', label: 'Drop conflicts' },
+              { id: 'fail', label: 'Fail' },
+            ] as { id: DuplicatePolicy; label: string }[]).map((p) => (
+              <button
+                key={p.id}
+                onClick={() => onChange({ ...options, duplicatePolicy: p.id })}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${
+                  (options.duplicatePolicy ?? DEFAULT_DUPLICATE_POLICY) === p.id
+                    ? 'bg-card text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            Exact repeats are always collapsed to one record (unless Fail). Same ID with different content:
+            {' '}{options.duplicatePolicy === 'drop'
+              ? 'every version is dropped.'
+              : options.duplicatePolicy === 'fail'
+              ? 'the upload fails.'
+              : 'the first version is kept.'}
+          </p>
+        </div>
+
+        <div className="sm:col-span-2">
+          <label className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+            <KeyRound className="w-3 h-3" />
+            Pseudonymize account IDs
+          </label>
+          <input
+            type="password"
+            autoComplete="off"
+            placeholder="Passphrase (leave empty to keep real IDs)"
+            value={passphrase}
+            onChange={(e) => onPassphraseChange(e.target.value)}
+            className={inputClass}
+            style={{ background: 'hsl(var(--input))' }}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            {passphrase
+              ? 'Sender and receiver IDs become keyed pseudonyms; party names and unmapped fields are dropped. The same passphrase gives the same pseudonyms in every dataset.'
+              : 'For reports shared outside the team. The passphrase stays in this browser.'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
 import React, { useState } from 'react';
-import { AnalysisResult } from '@/types';
+import { AnalysisResult, IngestionSummary } from '@/types';
 import { GraphVisualization } from './GraphVisualization';
 import { FraudRingTable } from './FraudRingTable';
 import { SuspiciousAccountsTable } from './SuspiciousAccountsTable';
+import { SuppressionsTable } from './SuppressionsTable';
 import { downloadJSON } from '@/lib/exportJson';
+import { REVERSAL_POLICY_LABELS } from '@/lib/reversals';
+import { describeDialect } from '@/lib/csvDialect';
+import { downloadReidentificationTable } from '@/lib/pseudonymize';
 import {
   Download,
   Network,
@@ -14,23 +18,27 @@ import {
   Activity,
   ChevronRight,
   BarChart3,
+  KeyRound,
+  ShieldCheck,
 } from 'lucide-react';
 
 interface ResultsDashboardProps {
   result: AnalysisResult;
-  fileName: string;
+  fileNames: string[];
+  ingestion?: IngestionSummary | null;
   onReset: () => void;
 }
 
-type Tab = 'graph' | 'rings' | 'accounts';
+type Tab = 'graph' | 'rings' | 'accounts' | 'suppressed';
 
-export function ResultsDashboard({ result, fileName, onReset }: ResultsDashboardProps) {
+export function ResultsDashboard({ result, fileNames, ingestion, onReset }: ResultsDashboardProps) {
   const [activeTab, setActiveTab] = useState<Tab>('graph');
 
   const tabs: { id: Tab; label: string; icon: React.ReactNode; count?: number }[] = [
     { id: 'graph',    label: 'Graph View',          icon: <Network className="w-4 h-4" /> },
     { id: 'rings',    label: 'Fraud Rings',          icon: <AlertTriangle className="w-4 h-4" />, count: result.fraud_rings.length },
     { id: 'accounts', label: 'Suspicious Accounts',  icon: <Users className="w-4 h-4" />, count: result.suspicious_accounts.length },
+    { id: 'suppressed', label: 'Suppressed',        icon: <ShieldCheck className="w-4 h-4" />, count: result.summary.false_positives_suppressed },
   ];
 
   const stats = [
@@ -72,12 +80,62 @@ export function ResultsDashboard({ result, fileName, onReset }: ResultsDashboard
           <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
             <button onClick={onReset} className="hover:text-primary transition-colors">Upload</button>
             <ChevronRight className="w-3 h-3" />
-            <span className="text-foreground font-mono">{fileName}</span>
+            <span className="text-foreground font-mono">{fileNames.join(', ')}</span>
           </div>
           <h2 className="text-2xl font-bold text-foreground">Analysis Report</h2>
           <p className="text-sm text-muted-foreground mt-0.5">
             Suspicion rate: <span className="font-mono" style={{ color: parseFloat(suspicionRate) > 10 ? 'hsl(var(--destructive))' : 'hsl(var(--primary))' }}>{suspicionRate}%</span>
           </p>
+          {ingestion && (
+            <p className="text-xs text-muted-foreground mt-1 font-mono">
+              {ingestion.rowsRead.toLocaleString()} rows read · {ingestion.transactions.toLocaleString()} analyzed
+              {ingestion.rowsRejected > 0 && ` · ${ingestion.rowsRejected.toLocaleString()} rejected`}
+              {ingestion.duplicates.exactDuplicates > 0 && ` · ${ingestion.duplicates.exactDuplicates.toLocaleString()} exact duplicates`}
+              {ingestion.duplicates.conflictingIds > 0 && ` · ${ingestion.duplicates.conflictingIds.toLocaleString()} conflicting IDs`}
+              {ingestion.duplicates.removed > 0 && ` (${ingestion.duplicates.removed.toLocaleString()} removed, ${ingestion.duplicates.policy.replace('_', ' ')})`}
+              {ingestion.statementPairs && ` · ${ingestion.statementPairs.toLocaleString()} internal transfers paired across statements`}
+            </p>
+          )}
+          {ingestion?.pseudonymization && (
+            <p className="text-xs text-muted-foreground mt-1 font-mono">
+              Account IDs pseudonymized · key fingerprint {ingestion.pseudonymization.fingerprint}
+            </p>
+          )}
+          {result.reversals.reversalEntries + result.reversals.originalsRemoved > 0 && (
+            <p className="text-xs text-muted-foreground mt-1 font-mono">
+              Reversals: {REVERSAL_POLICY_LABELS[result.reversals.policy]}
+              {' · '}{result.reversals.reversalEntries.toLocaleString()} reversal entries
+              {result.reversals.unmatched > 0 && ` (${result.reversals.unmatched.toLocaleString()} unmatched)`}
+              {result.reversals.policy !== 'keep' && ` · ${result.reversals.originalsRemoved.toLocaleString()} transfers removed`}
+              {result.reversals.originalsReduced > 0 && ` · ${result.reversals.originalsReduced.toLocaleString()} netted to a partial amount`}
+            </p>
+          )}
+          {result.cycleSearch.inTimeOrder !== undefined && (
+            <p className="text-xs text-muted-foreground mt-1 font-mono">
+              Temporal cycles: {result.cycleSearch.inTimeOrder.toLocaleString()} of {result.cycleSearch.cyclesFound.toLocaleString()} cycles ran in time order
+              {` (hops within ${result.config.temporalCycles.maxHopHours}h, loop within ${result.config.temporalCycles.windowHours}h)`}
+            </p>
+          )}
+          {result.cycleSearch.truncated && (
+            <p className="text-xs mt-1 font-mono" style={{ color: 'hsl(38 95% 55%)' }}>
+              Cycle search stopped early at {result.cycleSearch.cyclesFound.toLocaleString()} cycles
+              {result.cycleSearch.truncated === 'max_cycles'
+                ? ` (limit of ${result.config.cycles.maxCycles.toLocaleString()} reached)`
+                : ` (${result.config.cycles.timeBudgetSeconds}s time budget used)`}
+              {' · '}cycle results are incomplete
+            </p>
+          )}
+          {ingestion && (ingestion.files.length > 1 || ingestion.files.some((f) => f.dialect)) && (
+            <ul className="text-xs text-muted-foreground mt-1 font-mono space-y-0.5">
+              {ingestion.files.map((f) => (
+                <li key={f.name}>
+                  {f.name}: {f.transactions.toLocaleString()} of {f.rowsRead.toLocaleString()} rows
+                  {f.rowsRejected > 0 && ` · ${f.rowsRejected.toLocaleString()} rejected`}
+                  {f.dialect && ` · ${describeDialect(f.dialect)}`}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
         <div className="flex gap-2">
           <button
@@ -86,6 +144,16 @@ export function ResultsDashboard({ result, fileName, onReset }: ResultsDashboard
           >
             ↑ New File
           </button>
+          {ingestion?.pseudonymization && (
+            <button
+              onClick={() => downloadReidentificationTable(ingestion.pseudonymization!.pseudonyms)}
+              className="px-4 py-2 text-sm glass-card hover:border-primary/50 transition-all flex items-center gap-2"
+              title="Pseudonym → real account ID. Keep it local; don't share it with the report."
+            >
+              <KeyRound className="w-4 h-4" />
+              Re-identification table
+            </button>
+          )}
           <button
             onClick={() => downloadJSON(result)}
             className="px-4 py-2 text-sm font-semibold rounded-lg flex items-center gap-2 transition-all hover:opacity-90"
@@ -119,13 +187,15 @@ export function ResultsDashboard({ result, fileName, onReset }: ResultsDashboard
             <BarChart3 className="w-4 h-4 text-muted-foreground" />
             <p className="text-sm font-semibold">Pattern Distribution</p>
           </div>
-          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-7 gap-3">
             {[
               { label: 'Cycle Participation', key: 'cycle', color: 'hsl(var(--destructive))' },
               { label: 'Fan-In (Smurfing)', key: 'fan_in', color: 'hsl(38 95% 55%)' },
               { label: 'Fan-Out (Smurfing)', key: 'fan_out', color: 'hsl(38 95% 55%)' },
               { label: 'Shell Chains', key: 'shell_chain', color: 'hsl(var(--accent))' },
               { label: 'High Velocity', key: 'high_velocity', color: 'hsl(var(--primary))' },
+              { label: 'New Account Inflows', key: 'new_account_inflow', color: 'hsl(280 70% 70%)' },
+              { label: 'Amount Conserved', key: 'amount_conserved', color: 'hsl(330 80% 70%)' },
             ].map((pt) => {
               const count = result.suspicious_accounts.filter((a) =>
                 a.detected_patterns.some((p) => p.includes(pt.key))
@@ -159,10 +229,14 @@ export function ResultsDashboard({ result, fileName, onReset }: ResultsDashboard
               {tab.count !== undefined && tab.count > 0 && (
                 <span
                   className="text-xs font-mono px-1.5 py-0.5 rounded-full"
-                  style={{
-                    background: tab.id === 'rings' ? 'hsl(38 95% 55% / 0.2)' : 'hsl(var(--destructive) / 0.2)',
-                    color: tab.id === 'rings' ? 'hsl(38 95% 55%)' : 'hsl(var(--destructive))',
-                  }}
+                  style={
+                    tab.id === 'suppressed'
+                      ? { background: 'hsl(var(--muted-foreground) / 0.2)', color: 'hsl(var(--muted-foreground))' }
+                      : {
+                          background: tab.id === 'rings' ? 'hsl(38 95% 55% / 0.2)' : 'hsl(var(--destructive) / 0.2)',
+                          color: tab.id === 'rings' ? 'hsl(38 95% 55%)' : 'hsl(var(--destructive))',
+                        }
+                  }
                 >
                   {tab.count}
                 </span>
@@ -180,6 +254,9 @@ export function ResultsDashboard({ result, fileName, onReset }: ResultsDashboard
         {activeTab === 'accounts' && (
           <SuspiciousAccountsTable accounts={result.suspicious_accounts} />
         )}
+        {activeTab === 'suppressed' && (
+          <SuppressionsTable suppressions={result.suppressions} />
+        )}
       </div>
 
       {/* Download CTA */}
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { Database, Play } from 'lucide-react';
+import { SQLiteSourceInfo, tableQuery } from '@/lib/sqliteParser';
+
+interface SQLiteSourcePanelProps {
+  fileName: string;
+  source: SQLiteSourceInfo;
+  onRun: (query: string) => void;
+}
+
+const inputClass =
+  'w-full bg-input border border-border rounded-md px-2 py-1.5 text-xs font-mono text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary transition-all';
+
+export function SQLiteSourcePanel({ fileName, source, onRun }: SQLiteSourcePanelProps) {
+  const [draft, setDraft] = useState(source.query);
+  const selectedTable = source.tables.find((t) => tableQuery(t) === draft) ?? '';
+
+  const pickTable = (table: string) => {
+    if (!table) return;
+    setDraft(tableQuery(table));
+    onRun(tableQuery(table));
+  };
+
+  return (
+    <div className="glass-card mt-4 p-4">
+      <p className="flex items-center gap-1 text-xs font-semibold text-muted-foreground uppercase tracking-widest mb-3">
+        <Database className="w-3 h-3" />
+        SQLite Source · <span className="font-mono normal-case tracking-normal">{fileName}</span>
+      </p>
+      <label className="block text-xs text-muted-foreground mb-1">Table or view</label>
+      <select
+        value={selectedTable}
+        onChange={(e) => pickTable(e.target.value)}
+        className={inputClass}
+        style={{ background: 'hsl(var(--input))' }}
+      >
+        <option value="">Custom query</option>
+        {source.tables.map((t) => <option key={t} value={t}>{t}</option>)}
+      </select>
+      <label className="block text-xs text-muted-foreground mt-3 mb-1">SELECT</label>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={4}
+        spellCheck={false}
+        className={inputClass}
+        style={{ background: 'hsl(var(--input))' }}
+      />
+      <div className="flex items-center justify-between gap-2 mt-2">
+        <p className="text-xs text-muted-foreground">
+          {source.headers.length} columns from the current query. Queries run locally on an in-memory copy of the file.
+        </p>
+        <button
+          onClick={() => onRun(draft)}
+          disabled={draft === source.query && !source.error}
+          className="px-3 py-1 text-xs glass-card hover:border-primary/50 transition-all flex items-center gap-1 disabled:opacity-50"
+        >
+          <Play className="w-3 h-3" />
+          Run query
+        </button>
+      </div>
+      {source.error && (
+        <p className="text-xs font-mono mt-2" style={{ color: 'hsl(var(--destructive))' }}>{source.error}</p>
+      )}
+    </div>
+  );
+}
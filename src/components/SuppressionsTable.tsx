@@ -0,0 +1,52 @@
+import { Suppression, SuppressionReason } from '@/types';
+
+interface SuppressionsTableProps {
+  suppressions: Suppression[];
+}
+
+const REASON_LABELS: Record<SuppressionReason, string> = {
+  payroll: 'Payroll',
+  merchant: 'Merchant',
+  allowlist: 'Allowlist',
+};
+
+export function SuppressionsTable({ suppressions }: SuppressionsTableProps) {
+  if (suppressions.length === 0) {
+    return (
+      <div className="glass-card p-8 text-center">
+        <p className="text-muted-foreground">No flags were suppressed.</p>
+      </div>
+    );
+  }
+
+  const sorted = [...suppressions].sort((a, b) => b.score_before - a.score_before);
+
+  return (
+    <div className="glass-card overflow-hidden">
+      <table className="w-full data-table">
+        <thead>
+          <tr>
+            <th className="text-left">Account ID</th>
+            <th className="text-left">Reason</th>
+            <th className="text-left">Evidence</th>
+            <th className="text-left">Patterns Removed</th>
+            <th className="text-right">Score Before</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((s) => (
+            <tr key={`${s.account_id}:${s.reason}`}>
+              <td className="font-mono text-sm text-foreground">{s.account_id}</td>
+              <td>
+                <span className="pattern-tag pattern-tag-shell w-fit">{REASON_LABELS[s.reason]}</span>
+              </td>
+              <td className="text-xs text-muted-foreground">{s.detail}</td>
+              <td className="font-mono text-xs text-muted-foreground">{s.suppressed_patterns.join(', ')}</td>
+              <td className="text-right font-mono text-sm">{s.score_before.toFixed(1)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,21 +1,28 @@
 import React, { useState } from 'react';
 import { SuspiciousAccount, PatternType } from '@/types';
 import { Search, ChevronDown, ChevronUp } from 'lucide-react';
+import { describeAccountAttributes } from '@/lib/accountMasterData';
 
 interface SuspiciousAccountsTableProps {
   accounts: SuspiciousAccount[];
 }
 
-const PATTERN_META: Record<PatternType, { label: string; className: string }> = {
-  cycle_length_3: { label: 'Cycle-3',  className: 'pattern-tag-cycle' },
-  cycle_length_4: { label: 'Cycle-4',  className: 'pattern-tag-cycle' },
-  cycle_length_5: { label: 'Cycle-5',  className: 'pattern-tag-cycle' },
+const PATTERN_META: Record<Exclude<PatternType, `cycle_length_${number}`>, { label: string; className: string }> = {
   fan_in:         { label: 'Fan-In',   className: 'pattern-tag-fanin' },
   fan_out:        { label: 'Fan-Out',  className: 'pattern-tag-fanout' },
   shell_chain:    { label: 'Shell',    className: 'pattern-tag-shell' },
   high_velocity:  { label: 'Velocity', className: 'pattern-tag-velocity' },
+  new_account_inflow: { label: 'New Acct', className: 'pattern-tag-new' },
+  amount_conserved: { label: 'Conserved', className: 'pattern-tag-conserved' },
 };
 
+// Cycles carry their length: cycle_length_7 → "Cycle-7"
+function patternMeta(pattern: PatternType): { label: string; className: string } | undefined {
+  const cycle = /^cycle_length_(\d+)$/.exec(pattern);
+  if (cycle) return { label: `Cycle-${cycle[1]}`, className: 'pattern-tag-cycle' };
+  return PATTERN_META[pattern as keyof typeof PATTERN_META];
+}
+
 function ScoreBar({ score }: { score: number }) {
   const cls = score >= 60 ? 'risk-bar-fill-high' : score >= 30 ? 'risk-bar-fill-medium' : 'risk-bar-fill-low';
   const textCls = score >= 60 ? 'score-high' : score >= 30 ? 'score-medium' : 'score-low';
@@ -83,6 +90,16 @@ export function SuspiciousAccountsTable({ accounts }: SuspiciousAccountsTablePro
                   </td>
                   <td>
                     <span className="font-mono text-sm text-foreground">{acc.account_id}</span>
+                    {acc.party && (
+                      <p className="text-xs text-muted-foreground">
+                        {[acc.party.name, acc.party.bic].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                    {acc.attributes && (
+                      <p className="text-xs text-muted-foreground">
+                        {describeAccountAttributes(acc.attributes).map((a) => a.value).join(' · ')}
+                      </p>
+                    )}
                   </td>
                   <td>
                     {acc.ring_id ? (
@@ -97,7 +114,7 @@ export function SuspiciousAccountsTable({ accounts }: SuspiciousAccountsTablePro
                   <td>
                     <div className="flex flex-wrap gap-1">
                       {acc.detected_patterns.map((p) => {
-                        const meta = PATTERN_META[p];
+                        const meta = patternMeta(p);
                         return meta ? (
                           <span key={p} className={`pattern-tag ${meta.className}`}>{meta.label}</span>
                         ) : null;
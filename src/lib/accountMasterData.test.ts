@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { AccountMasterData, Transaction } from '@/types';
+import { isPersonalAccount, parseAccountMasterData } from './accountMasterData';
+import { analyzeTransactions } from './graphAnalysis';
+
+const csvFile = (text: string) => new File([text], 'accounts.csv', { type: 'text/csv' });
+
+const DAY_MS = 86_400_000;
+const opened = Date.parse('2024-03-01T00:00:00Z');
+let counter = 0;
+const tx = (sender: string, receiver: string, day: number): Transaction => ({
+  transaction_id: `T${++counter}`,
+  sender_id: sender,
+  receiver_id: receiver,
+  amount: 100,
+  amountMinor: 10_000,
+  timestamp: new Date(opened + day * DAY_MS).toISOString(),
+  timestampMs: opened + day * DAY_MS,
+});
+
+describe('parseAccountMasterData', () => {
+  it('reads mapped attributes and leaves blank ones out', async () => {
+    const { accounts, errors, rowCount } = await parseAccountMasterData(
+      csvFile(['iban,kind,opened,biz,ctry', 'DE01,Personal current,2024-03-01,no,DE', 'DE02,,,,', 'DE03,business,15/01/2023,Yes,'].join('\n')),
+      { account_id: 'iban', account_type: 'kind', open_date: 'opened', is_business: 'biz', country: 'ctry' }
+    );
+
+    expect(errors).toEqual([]);
+    expect(rowCount).toBe(3);
+    expect(accounts.get('DE01')).toEqual({ account_type: 'Personal current', open_date: opened, is_business: false, country: 'DE' });
+    expect(accounts.get('DE02')).toEqual({});
+    expect(accounts.get('DE03')).toEqual({ account_type: 'business', open_date: Date.parse('2023-01-15T00:00:00Z'), is_business: true });
+  });
+
+  it('keeps the first row of a repeated account_id and reports the conflict', async () => {
+    const { accounts, errors } = await parseAccountMasterData(
+      csvFile(['account_id,account_type', 'A1,personal', 'A1,business', ',personal', 'A2,personal'].join('\n')),
+      { account_id: 'account_id', account_type: 'account_type' }
+    );
+
+    expect(Array.from(accounts.keys())).toEqual(['A1', 'A2']);
+    expect(accounts.get('A1')?.account_type).toBe('personal');
+    expect(errors.map((e) => e.message)).toEqual([
+      'Account row 3: account_id "A1" appears more than once',
+      'Account row 4: account_id is empty',
+    ]);
+  });
+
+  it('rejects unreadable dates and flags, and ignores unmapped columns', async () => {
+    const { accounts, errors } = await parseAccountMasterData(
+      csvFile(['account_id,open_date,is_business,country', 'A1,someday,,DE', 'A2,,maybe,DE', 'A3,,,DE'].join('\n')),
+      { account_id: 'account_id', open_date: 'open_date', is_business: 'is_business' }
+    );
+
+    expect(errors.map((e) => [e.row, e.field])).toEqual([
+      [2, 'open_date'],
+      [3, 'is_business'],
+    ]);
+    expect(Array.from(accounts)).toEqual([['A3', {}]]);
+  });
+
+  it('needs the account_id column', async () => {
+    const { accounts, errors } = await parseAccountMasterData(csvFile('id,type\nA1,personal\n'), { account_id: 'iban' });
+
+    expect(accounts.size).toBe(0);
+    expect(errors[0].message).toBe('Missing account_id column (mapped to "iban"). Found: id, type');
+  });
+});
+
+describe('isPersonalAccount', () => {
+  it('trusts the business flag over the account type, and never guesses', () => {
+    expect(isPersonalAccount({ is_business: false, account_type: 'business' })).toBe(true);
+    expect(isPersonalAccount({ is_business: true, account_type: 'personal' })).toBe(false);
+    expect(isPersonalAccount({ account_type: 'Retail savings' })).toBe(true);
+    expect(isPersonalAccount({ account_type: 'savings' })).toBe(false);
+    expect(isPersonalAccount(undefined)).toBe(false);
+  });
+});
+
+describe('joining master data onto the graph', () => {
+  const senders = Array.from({ length: 10 }, (_, i) => `S${i}`);
+  const accounts: AccountMasterData = new Map([
+    ['NEW', { is_business: false, open_date: opened }],
+    ['SHOP', { is_business: true, open_date: opened }],
+    ['LISTED_ONLY', { account_type: 'personal' }],
+  ]);
+
+  it('attaches attributes to the accounts that transact, and only those', () => {
+    const result = analyzeTransactions(senders.map((s, i) => tx(s, 'NEW', i)), undefined, accounts);
+
+    expect(result.nodes.get('NEW')?.attributes).toEqual({ is_business: false, open_date: opened });
+    expect(result.nodes.get('S0')?.attributes).toBeUndefined();
+    expect(result.nodes.has('LISTED_ONLY')).toBe(false);
+  });
+
+  it('flags inflows to a new personal account, not to a business or an old one', () => {
+    const early = [...senders.map((s, i) => tx(s, 'NEW', i)), ...senders.map((s, i) => tx(s, 'SHOP', i))];
+    const late = senders.map((s, i) => tx(s, 'NEW', 91 + i));
+    const patterns = (transactions: Transaction[]) =>
+      Object.fromEntries(analyzeTransactions(transactions, undefined, accounts).suspicious_accounts.map((a) => [a.account_id, a.detected_patterns]));
+
+    expect(patterns(early).NEW).toContain('new_account_inflow');
+    expect(patterns(early).SHOP ?? []).not.toContain('new_account_inflow');
+    expect(patterns(late).NEW ?? []).not.toContain('new_account_inflow');
+    expect(analyzeTransactions(early).suspicious_accounts.flatMap((a) => a.detected_patterns)).not.toContain('new_account_inflow');
+  });
+});
@@ -0,0 +1,166 @@
+import Papa from 'papaparse';
+import { AccountAttributes, AccountField, AccountMasterData, ColumnFieldDef, ColumnMapping, ValidationError } from '@/types';
+import { MAX_REPORTED_ERRORS } from './csvParser';
+import { parseTimestamp, SUPPORTED_TIMESTAMP_FORMATS } from './timestamp';
+
+// =============================================
+// Account Master-Data Columns
+// =============================================
+export const ACCOUNT_FIELDS: ColumnFieldDef<AccountField>[] = [
+  {
+    field: 'account_id',
+    type: 'String',
+    required: true,
+    synonyms: ['acct_id', 'account', 'account_number', 'account_no', 'acct_no', 'iban', 'customer_account', 'id'],
+  },
+  {
+    field: 'account_type',
+    type: 'String (e.g. personal, business)',
+    required: false,
+    synonyms: ['acct_type', 'type', 'product', 'product_type', 'account_category'],
+  },
+  {
+    field: 'open_date',
+    type: 'Date (ISO 8601, epoch, DD/MM/YYYY)',
+    required: false,
+    synonyms: ['opened', 'opened_at', 'opened_on', 'date_opened', 'opening_date', 'account_open_date', 'open_dt'],
+  },
+  {
+    field: 'customer_segment',
+    type: 'String',
+    required: false,
+    synonyms: ['segment', 'client_segment', 'customer_type', 'client_type'],
+  },
+  {
+    field: 'country',
+    type: 'String (ISO country code)',
+    required: false,
+    synonyms: ['country_code', 'residence', 'residency', 'domicile', 'jurisdiction'],
+  },
+  {
+    field: 'income_band',
+    type: 'String',
+    required: false,
+    synonyms: ['declared_income', 'declared_income_band', 'income', 'income_range', 'income_bracket'],
+  },
+  {
+    field: 'is_business',
+    type: 'Boolean (yes/no, true/false, 1/0)',
+    required: false,
+    synonyms: ['business', 'business_flag', 'is_corporate', 'corporate', 'legal_entity'],
+  },
+];
+
+// Loosest field (account_id) last, as for transactions
+export const ACCOUNT_FIELD_KEYWORDS: Partial<Record<AccountField, string[]>> = {
+  open_date: ['open', 'opened', 'opening'],
+  customer_segment: ['segment'],
+  country: ['country', 'ctry'],
+  income_band: ['income'],
+  is_business: ['business', 'corporate'],
+  account_type: ['type'],
+  account_id: ['acc', 'acct', 'account'],
+};
+
+// Kept apart from transaction mapping profiles so neither list shows the other's
+export const ACCOUNT_MAPPING_STORAGE_KEY = 'pathproof.accountMappingProfiles';
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'business', 'corporate'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'personal', 'individual', 'retail'];
+
+// Personal only when the data says so; missing attributes never count
+export function isPersonalAccount(attributes: AccountAttributes | undefined): boolean {
+  if (!attributes) return false;
+  if (attributes.is_business !== undefined) return !attributes.is_business;
+  return /personal|retail|individual/i.test(attributes.account_type ?? '');
+}
+
+// Label/value pairs for tooltips and tables, in column order
+export function describeAccountAttributes(attributes: AccountAttributes): { label: string; value: string }[] {
+  const rows: { label: string; value: string }[] = [];
+  if (attributes.account_type) rows.push({ label: 'Type', value: attributes.account_type });
+  if (attributes.is_business !== undefined) rows.push({ label: 'Business', value: attributes.is_business ? 'Yes' : 'No' });
+  if (attributes.open_date !== undefined) rows.push({ label: 'Opened', value: new Date(attributes.open_date).toISOString().slice(0, 10) });
+  if (attributes.customer_segment) rows.push({ label: 'Segment', value: attributes.customer_segment });
+  if (attributes.country) rows.push({ label: 'Country', value: attributes.country });
+  if (attributes.income_band) rows.push({ label: 'Income band', value: attributes.income_band });
+  return rows;
+}
+
+// =============================================
+// Master-Data File Parse
+// =============================================
+export async function parseAccountMasterData(
+  file: File,
+  mapping: ColumnMapping<AccountField>,
+  options: { timezone?: string } = {}
+): Promise<{ accounts: AccountMasterData; errors: ValidationError[]; rowCount: number }> {
+  const accounts: AccountMasterData = new Map();
+  const column = (field: AccountField) => mapping[field] ?? field;
+
+  return new Promise((resolve) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (result) => {
+        const errors: ValidationError[] = [];
+        let errorCount = 0;
+        const fail = (rowNum: number, field: AccountField, message: string) => {
+          if (errorCount < MAX_REPORTED_ERRORS) errors.push({ row: rowNum, field, message: `Account row ${rowNum}: ${message}` });
+          errorCount++;
+        };
+        const headers = result.meta.fields ?? [];
+        if (!headers.includes(column('account_id'))) {
+          resolve({
+            accounts,
+            errors: [{ message: `Missing account_id column (mapped to "${column('account_id')}"). Found: ${headers.join(', ')}` }],
+            rowCount: 0,
+          });
+          return;
+        }
+
+        const value = (row: Record<string, string>, field: AccountField) =>
+          mapping[field] || field === 'account_id' ? String(row[column(field)] ?? '').trim() : '';
+
+        result.data.forEach((row, i) => {
+          const rowNum = i + 2;
+          const id = value(row, 'account_id');
+          if (!id) return fail(rowNum, 'account_id', 'account_id is empty');
+          if (accounts.has(id)) return fail(rowNum, 'account_id', `account_id "${id}" appears more than once`);
+
+          const attributes: AccountAttributes = {};
+          for (const field of ['account_type', 'customer_segment', 'country', 'income_band'] as const) {
+            const v = value(row, field);
+            if (v) attributes[field] = v;
+          }
+
+          const openDate = value(row, 'open_date');
+          if (openDate) {
+            const ms = parseTimestamp(openDate, options);
+            if (ms === null) {
+              return fail(rowNum, 'open_date', `open_date "${openDate}" is not a supported format (${SUPPORTED_TIMESTAMP_FORMATS.join('; ')})`);
+            }
+            attributes.open_date = ms;
+          }
+
+          const business = value(row, 'is_business').toLowerCase();
+          if (business) {
+            if (TRUE_VALUES.includes(business)) attributes.is_business = true;
+            else if (FALSE_VALUES.includes(business)) attributes.is_business = false;
+            else return fail(rowNum, 'is_business', `is_business "${business}" is not yes/no, true/false or 1/0`);
+          }
+
+          accounts.set(id, attributes);
+        });
+
+        if (errorCount > MAX_REPORTED_ERRORS) {
+          errors.push({ message: `...and ${errorCount - MAX_REPORTED_ERRORS} more errors in the account file.` });
+        }
+        resolve({ accounts, errors, rowCount: result.data.length });
+      },
+      error: (err) => {
+        resolve({ accounts, errors: [{ message: `Account file parse error: ${err.message}` }], rowCount: 0 });
+      },
+    });
+  });
+}
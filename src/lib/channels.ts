@@ -0,0 +1,63 @@
+import { Channel, TransactionDirection } from '@/types';
+import { normalizeHeader } from './columnMapping';
+
+// =============================================
+// Payment Channels & Direction
+// =============================================
+export const CHANNELS: Channel[] = ['wire', 'ach', 'card', 'cash_deposit', 'atm', 'crypto'];
+
+// Common spellings in bank exports → canonical channel
+const CHANNEL_ALIASES: Record<string, Channel> = {
+  wire: 'wire',
+  wire_transfer: 'wire',
+  swift: 'wire',
+  rtgs: 'wire',
+  fedwire: 'wire',
+  chaps: 'wire',
+  ach: 'ach',
+  sepa: 'ach',
+  bacs: 'ach',
+  direct_debit: 'ach',
+  eft: 'ach',
+  card: 'card',
+  pos: 'card',
+  debit_card: 'card',
+  credit_card: 'card',
+  card_payment: 'card',
+  cash_deposit: 'cash_deposit',
+  cash: 'cash_deposit',
+  deposit: 'cash_deposit',
+  branch_deposit: 'cash_deposit',
+  atm: 'atm',
+  atm_withdrawal: 'atm',
+  crypto: 'crypto',
+  cryptocurrency: 'crypto',
+  virtual_asset: 'crypto',
+};
+
+const DIRECTION_ALIASES: Record<string, TransactionDirection> = {
+  inbound: 'inbound',
+  in: 'inbound',
+  incoming: 'inbound',
+  credit: 'inbound',
+  cr: 'inbound',
+  crdt: 'inbound',
+  outbound: 'outbound',
+  out: 'outbound',
+  outgoing: 'outbound',
+  debit: 'outbound',
+  dr: 'outbound',
+  dbit: 'outbound',
+  internal: 'internal',
+  book: 'internal',
+  book_transfer: 'internal',
+  own_account: 'internal',
+};
+
+export function normalizeChannel(value: string): Channel | null {
+  return CHANNEL_ALIASES[normalizeHeader(value)] ?? null;
+}
+
+export function normalizeDirection(value: string): TransactionDirection | null {
+  return DIRECTION_ALIASES[normalizeHeader(value)] ?? null;
+}
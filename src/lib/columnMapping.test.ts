@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  findMatchingProfile,
+  loadMappingProfiles,
+  missingMappedFields,
+  saveMappingProfile,
+  suggestColumnMapping,
+} from './columnMapping';
+import { STATEMENT_FIELDS, STATEMENT_FIELD_KEYWORDS } from './statementParser';
+
+describe('suggestColumnMapping', () => {
+  it('maps exact names and synonyms regardless of case and punctuation', () => {
+    expect(suggestColumnMapping(['Txn ID', 'Debtor Account', 'Creditor-Account', 'AMOUNT', 'Value Date', 'CCY'])).toEqual({
+      transaction_id: 'Txn ID',
+      sender_id: 'Debtor Account',
+      receiver_id: 'Creditor-Account',
+      amount: 'AMOUNT',
+      timestamp: 'Value Date',
+      currency: 'CCY',
+    });
+  });
+
+  it('falls back to keywords that are whole header tokens', () => {
+    expect(suggestColumnMapping(['payment_ref_no', 'orig_iban', 'bene_iban', 'amt_eur', 'booking_time', 'curr_code'])).toEqual({
+      transaction_id: 'payment_ref_no',
+      sender_id: 'orig_iban',
+      receiver_id: 'bene_iban',
+      amount: 'amt_eur',
+      timestamp: 'booking_time',
+      currency: 'curr_code',
+    });
+  });
+
+  it('does not match a keyword inside a longer word', () => {
+    const mapping = suggestColumnMapping(['id', 'from', 'to', 'amount', 'timestamp', 'current_balance', 'original_amount', 'prefix']);
+
+    expect(mapping.currency).toBeUndefined();
+    expect(mapping.sender_id).toBe('from');
+    expect(mapping.transaction_id).toBe('id');
+    expect(Object.values(mapping)).not.toContain('original_amount');
+    expect(Object.values(mapping)).not.toContain('prefix');
+  });
+
+  it('maps each header to one field at most', () => {
+    const headers = ['debit_account', 'credit_account', 'debit_amount'];
+    const mapping = suggestColumnMapping(headers);
+
+    expect(mapping).toEqual({ sender_id: 'debit_account', receiver_id: 'credit_account', amount: 'debit_amount' });
+    expect(missingMappedFields(mapping, headers)).toEqual(['transaction_id', 'timestamp']);
+  });
+
+  it('takes the field list and keywords of other layouts', () => {
+    const headers = ['Booking Date', 'Withdrawals', 'Deposits', 'Running Balance', 'Counterparty Name'];
+    const mapping = suggestColumnMapping(headers, STATEMENT_FIELDS, STATEMENT_FIELD_KEYWORDS);
+
+    expect(mapping).toMatchObject({
+      timestamp: 'Booking Date',
+      debit: 'Withdrawals',
+      credit: 'Deposits',
+      balance: 'Running Balance',
+      counterparty_id: 'Counterparty Name',
+    });
+  });
+});
+
+describe('mapping profiles', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('saves by name and finds the profile whose headers a file has', () => {
+    saveMappingProfile({ name: 'Bank B', mapping: { transaction_id: 'Ref', amount: 'Betrag' } });
+    saveMappingProfile({ name: 'Bank A', mapping: { transaction_id: 'id', amount: 'amt' } });
+    saveMappingProfile({ name: 'Bank A', mapping: { transaction_id: 'id', amount: 'value' } });
+
+    const profiles = loadMappingProfiles();
+    expect(profiles.map((p) => p.name)).toEqual(['Bank A', 'Bank B']);
+    expect(findMatchingProfile(['Ref', 'Betrag', 'Datum'], profiles)?.name).toBe('Bank B');
+    expect(findMatchingProfile(['id', 'amt'], profiles)).toBeNull();
+  });
+
+  it('treats unreadable storage as no profiles', () => {
+    localStorage.setItem('pathproof.mappingProfiles', '{not json');
+
+    expect(loadMappingProfiles()).toEqual([]);
+  });
+});
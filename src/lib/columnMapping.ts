@@ -0,0 +1,202 @@
+import { ColumnFieldDef, ColumnMapping, MappingProfile, TransactionField } from '@/types';
+
+// =============================================
+// Canonical Transaction Columns
+// =============================================
+export const TRANSACTION_FIELDS: ColumnFieldDef[] = [
+  {
+    field: 'transaction_id',
+    type: 'String',
+    required: true,
+    synonyms: ['txn_id', 'tx_id', 'trans_id', 'txn_ref', 'transaction_ref', 'transaction_reference', 'reference', 'ref', 'payment_id', 'end_to_end_id', 'id'],
+  },
+  {
+    field: 'sender_id',
+    type: 'String',
+    required: true,
+    synonyms: ['debit_acct', 'debit_account', 'debtor_account', 'debtor', 'from_account', 'from_acct', 'source_account', 'ordering_account', 'originator', 'remitter', 'payer', 'sender', 'from'],
+  },
+  {
+    field: 'receiver_id',
+    type: 'String',
+    required: true,
+    synonyms: ['credit_acct', 'credit_account', 'creditor_account', 'creditor', 'to_account', 'to_acct', 'destination_account', 'beneficiary_account', 'beneficiary', 'payee', 'receiver', 'to'],
+  },
+  {
+    field: 'amount',
+    type: 'Float',
+    required: true,
+    synonyms: ['amt', 'value', 'transaction_amount', 'txn_amount', 'instructed_amount', 'sum'],
+  },
+  {
+    field: 'timestamp',
+    type: 'Date/time (ISO 8601, epoch, DD/MM/YYYY)',
+    required: true,
+    synonyms: ['value_date', 'booking_date', 'transaction_date', 'txn_date', 'datetime', 'date_time', 'posted_at', 'created_at', 'date', 'time'],
+  },
+  {
+    field: 'currency',
+    type: 'ISO 4217 code (optional)',
+    required: false,
+    synonyms: ['ccy', 'curr', 'currency_code', 'iso_currency', 'amount_currency'],
+  },
+  {
+    field: 'channel',
+    type: 'wire, ach, card, cash_deposit, atm, crypto (optional)',
+    required: false,
+    synonyms: ['payment_channel', 'payment_method', 'channel_type', 'rail'],
+  },
+  {
+    field: 'direction',
+    type: 'inbound, outbound, internal (optional)',
+    required: false,
+    synonyms: ['dir', 'flow', 'credit_debit', 'cr_dr', 'debit_credit', 'dr_cr', 'cdt_dbt_ind'],
+  },
+  {
+    field: 'status',
+    type: 'completed, reversed, refund, chargeback (optional)',
+    required: false,
+    synonyms: ['transaction_status', 'txn_status', 'state', 'payment_status'],
+  },
+  {
+    field: 'reverses_transaction_id',
+    type: 'string (optional) — ID of the transfer this row reverses',
+    required: false,
+    synonyms: ['reversal_of', 'reverses', 'original_transaction_id', 'original_txn_id', 'refund_of', 'parent_transaction_id', 'related_transaction_id'],
+  },
+];
+
+export const REQUIRED_COLUMNS = TRANSACTION_FIELDS.filter((f) => f.required).map((f) => f.field);
+
+// Keywords used when neither the field name nor a synonym matches exactly.
+// Each must equal a whole token of the header ("curr" is not "current").
+// Checked in declaration order, so the loosest field (transaction_id) goes last.
+const FIELD_KEYWORDS: Record<TransactionField, string[]> = {
+  sender_id: ['debit', 'debtor', 'sender', 'payer', 'orig', 'originator', 'ordering', 'remitter'],
+  receiver_id: ['credit', 'creditor', 'receiver', 'beneficiary', 'benef', 'bene', 'payee'],
+  amount: ['amount', 'amt'],
+  timestamp: ['date', 'time', 'timestamp', 'datetime'],
+  currency: ['ccy', 'curr', 'currency'],
+  channel: ['channel', 'rail'],
+  direction: ['direction', 'dir'],
+  // Only exact names and synonyms: a loosely matched column would reject rows
+  status: [],
+  reverses_transaction_id: [],
+  transaction_id: ['txn', 'txnid', 'ref', 'reference'],
+};
+
+export function normalizeHeader(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+// =============================================
+// Auto-suggestion
+// =============================================
+export function suggestColumnMapping<F extends string = TransactionField>(
+  headers: string[],
+  fields: ColumnFieldDef<F>[] = TRANSACTION_FIELDS as unknown as ColumnFieldDef<F>[],
+  keywords: Partial<Record<F, string[]>> = FIELD_KEYWORDS as Partial<Record<F, string[]>>
+): ColumnMapping<F> {
+  const mapping: ColumnMapping<F> = {};
+  const used = new Set<string>();
+  const normalized = headers.map((h) => ({ header: h, norm: normalizeHeader(h) }));
+
+  const assign = (field: F, match: (norm: string) => boolean) => {
+    if (mapping[field]) return;
+    const hit = normalized.find((h) => !used.has(h.header) && match(h.norm));
+    if (hit) {
+      mapping[field] = hit.header;
+      used.add(hit.header);
+    }
+  };
+
+  // Pass 1: exact field name
+  for (const def of fields) assign(def.field, (norm) => norm === def.field);
+
+  // Pass 2: known synonyms, in priority order
+  for (const def of fields) {
+    for (const synonym of def.synonyms) assign(def.field, (norm) => norm === synonym);
+  }
+
+  // Pass 3: a keyword as a whole header token
+  for (const field of Object.keys(keywords) as F[]) {
+    const words = keywords[field] ?? [];
+    assign(field, (norm) => norm.split('_').some((token) => words.includes(token)));
+  }
+
+  return mapping;
+}
+
+export function missingMappedFields<F extends string = TransactionField>(
+  mapping: ColumnMapping<F>,
+  headers: string[],
+  fields: ColumnFieldDef<F>[] = TRANSACTION_FIELDS as unknown as ColumnFieldDef<F>[]
+): F[] {
+  return fields
+    .filter((def) => def.required)
+    .map((def) => def.field)
+    .filter((field) => !mapping[field] || !headers.includes(mapping[field]!));
+}
+
+// =============================================
+// Saved Mapping Profiles (localStorage)
+// =============================================
+const PROFILE_STORAGE_KEY = 'pathproof.mappingProfiles';
+
+export function loadMappingProfiles<F extends string = TransactionField>(
+  storageKey = PROFILE_STORAGE_KEY
+): MappingProfile<F>[] {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeMappingProfiles<F extends string>(profiles: MappingProfile<F>[], storageKey: string): void {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(profiles));
+  } catch {
+    // Storage unavailable (private mode / quota) — profiles just won't persist
+  }
+}
+
+export function saveMappingProfile<F extends string = TransactionField>(
+  profile: MappingProfile<F>,
+  storageKey = PROFILE_STORAGE_KEY
+): MappingProfile<F>[] {
+  const profiles = loadMappingProfiles<F>(storageKey).filter((p) => p.name !== profile.name);
+  profiles.push(profile);
+  profiles.sort((a, b) => a.name.localeCompare(b.name));
+  storeMappingProfiles(profiles, storageKey);
+  return profiles;
+}
+
+export function deleteMappingProfile<F extends string = TransactionField>(
+  name: string,
+  storageKey = PROFILE_STORAGE_KEY
+): MappingProfile<F>[] {
+  const profiles = loadMappingProfiles<F>(storageKey).filter((p) => p.name !== name);
+  storeMappingProfiles(profiles, storageKey);
+  return profiles;
+}
+
+// A profile matches a file when every header it maps is present
+export function findMatchingProfile<F extends string = TransactionField>(
+  headers: string[],
+  profiles: MappingProfile<F>[]
+): MappingProfile<F> | null {
+  return (
+    profiles.find((p) => {
+      const mapped = Object.values(p.mapping) as string[];
+      return mapped.length > 0 && mapped.every((h) => headers.includes(h));
+    }) ?? null
+  );
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import {
+  DateDay,
+  DateMillisecond,
+  Table,
+  TimestampMicrosecond,
+  TimestampMillisecond,
+  TimestampNanosecond,
+  TimestampSecond,
+  Utf8,
+  tableToIPC,
+  vectorFromArray,
+} from 'apache-arrow';
+import { parseColumnar, unscaledDecimalText } from './columnarParser';
+import { materializeTransactions } from './transactionColumns';
+
+const fileOf = (name: string, bytes: Uint8Array) =>
+  ({
+    name,
+    size: bytes.length,
+    arrayBuffer: async () => bytes.slice().buffer,
+    slice: (start: number, end: number) => ({ arrayBuffer: async () => bytes.slice(start, end).buffer }),
+  }) as unknown as File;
+
+const mapping = { transaction_id: 'id', sender_id: 'from', receiver_id: 'to', amount: 'amount', timestamp: 'booked' };
+
+describe('unscaledDecimalText', () => {
+  it('keeps INT64 decimals above 2^53 exact', () => {
+    expect(unscaledDecimalText(9_007_199_254_740_993n)).toBe('9007199254740993');
+    expect(unscaledDecimalText(-12345)).toBe('-12345');
+  });
+
+  it('reads byte-array decimals as big-endian two\'s complement', () => {
+    // 2^53 + 1 in a 9-byte FIXED_LEN_BYTE_ARRAY
+    expect(unscaledDecimalText(new Uint8Array([0, 0, 0x20, 0, 0, 0, 0, 0, 0x01]))).toBe('9007199254740993');
+    expect(unscaledDecimalText(new Uint8Array([0xff, 0xfb]))).toBe('-5');
+    expect(unscaledDecimalText(new Uint8Array([0x30, 0x39]))).toBe('12345');
+  });
+
+  it('leaves empty cells empty', () => {
+    expect(unscaledDecimalText(null)).toBe('');
+    expect(unscaledDecimalText(undefined)).toBe('');
+    expect(unscaledDecimalText(new Uint8Array([]))).toBe('');
+  });
+});
+
+describe('parseColumnar (Arrow)', () => {
+  const BOOKED = Date.parse('2024-03-01T10:30:00Z');
+  const text = (values: string[]) => vectorFromArray(values, new Utf8());
+  const extract = fileOf(
+    'extract.arrow',
+    tableToIPC(
+      new Table({
+        id: text(['T1']),
+        from: text(['A']),
+        to: text(['B']),
+        amount: text(['10.00']),
+        date32: vectorFromArray([new Date('2024-03-01T00:00:00Z')], new DateDay()),
+        date64: vectorFromArray([new Date(BOOKED)], new DateMillisecond()),
+        seconds: vectorFromArray([BOOKED], new TimestampSecond('UTC')),
+        millis: vectorFromArray([BOOKED], new TimestampMillisecond()),
+        micros: vectorFromArray([BOOKED + 0.5], new TimestampMicrosecond()),
+        nanos: vectorFromArray([BOOKED], new TimestampNanosecond('Asia/Tokyo')),
+      })
+    )
+  );
+
+  // Berlin is UTC+1 in March: naive values move an hour back, zoned ones stay
+  const booked = async (column: string) => {
+    const result = await parseColumnar(extract, 'arrow', { mapping: { ...mapping, timestamp: column }, timezone: 'Europe/Berlin' });
+    expect(result.success).toBe(true);
+    return new Date(materializeTransactions(result.columns!)[0].timestampMs).toISOString();
+  };
+
+  it('reads Date32 as a day and Date64 with its time of day, both in the source timezone', async () => {
+    expect(await booked('date32')).toBe('2024-02-29T23:00:00.000Z');
+    expect(await booked('date64')).toBe('2024-03-01T09:30:00.000Z');
+  });
+
+  it('reads each timestamp unit, keeping the instant of zoned ones', async () => {
+    expect(await booked('seconds')).toBe('2024-03-01T10:30:00.000Z');
+    expect(await booked('millis')).toBe('2024-03-01T09:30:00.000Z');
+    expect(await booked('micros')).toBe('2024-03-01T09:30:00.000Z');
+    expect(await booked('nanos')).toBe('2024-03-01T10:30:00.000Z');
+  });
+});
+
+describe('parseColumnar (Parquet)', () => {
+  // Amounts are DECIMAL(_, 2) with unscaled values 2^53 + 1, 12345 and -5.
+  // Parquet is read by byte range only, never as a whole
+  const fixture = (name: string) =>
+    ({
+      ...fileOf(name, new Uint8Array(readFileSync(`${process.cwd()}/src/lib/fixtures/${name}`))),
+      arrayBuffer: () => Promise.reject(new Error('whole-file read')),
+    }) as unknown as File;
+  const parquetMapping = { transaction_id: 'transaction_id', sender_id: 'sender_id', receiver_id: 'receiver_id', amount: 'amount', timestamp: 'timestamp' };
+
+  it.each(['decimal-int64.parquet', 'decimal-flba.parquet'])('applies the scale to the exact unscaled digits (%s)', async (name) => {
+    const result = await parseColumnar(fixture(name), 'parquet', { mapping: parquetMapping, mode: 'partial' });
+    const transactions = materializeTransactions(result.columns!);
+
+    expect(transactions.map((t) => [t.transaction_id, t.sender_id, t.amountMinor])).toEqual([['T2', 'B', 12_345]]);
+    expect(result.rejected?.map((r) => [r.row, r.values.amount])).toEqual([
+      [1, '90071992547409.93'],
+      [3, '-0.05'],
+    ]);
+  });
+});
@@ -0,0 +1,325 @@
+import { DataType, Field, Table, Vector, tableFromIPC } from 'apache-arrow';
+import { AsyncBuffer, ColumnData, FileMetaData, SchemaElement, parquetMetadataAsync, parquetRead, parquetSchema } from 'hyparquet';
+import { compressors } from 'hyparquet-compressors';
+import { ParseOptions, ParseResult, RejectedRow, TransactionColumns, ValidationError } from '@/types';
+import {
+  MAX_REPORTED_ERRORS,
+  ParseCallbacks,
+  buildParseResult,
+  checkRequiredColumns,
+  createNullCounter,
+  createRowValidator,
+  resolveColumns,
+} from './csvParser';
+import { createColumnBuilder } from './transactionColumns';
+
+// =============================================
+// Columnar Sources (Arrow IPC, Parquet)
+// =============================================
+// Typed extracts are read batch by batch (Arrow record batches, Parquet row
+// groups) and only the mapped columns are decoded. Cells are turned into the
+// text the row validator expects without losing what the type carried:
+// 64-bit integers stay exact, decimals keep their scale, timestamps become
+// ISO 8601 (naive ones without an offset, so the source timezone applies).
+// Valid rows go into a TransactionColumns store, the compact form in which
+// they leave the worker (see transactionColumns.ts).
+//
+// Limits: Parquet is read by byte range, so only the footer and the mapped
+// column chunks are loaded; Arrow IPC is read into memory whole. The store
+// saves the worker-to-main-thread copy, not the analysis memory: it is
+// materialized into Transaction objects before merging and buildGraph.
+
+export type ColumnarFormat = 'arrow' | 'parquet';
+
+type CellReader = (row: number) => string;
+
+// One column of the current batch
+interface ColumnBatch {
+  header: string;
+  read: CellReader;
+}
+
+interface ColumnarSource {
+  headers: string[];
+  rowCount: number;
+  // Calls `onBatch` for each batch of the given columns, in row order
+  readBatches: (headers: string[], onBatch: (rows: number, columns: ColumnBatch[]) => boolean) => Promise<void>;
+}
+
+const DAY_MS = 86_400_000;
+
+// Untyped cells: strings, numbers, bigints (exact), Dates; binary data can't be mapped
+function cellText(value: unknown): string {
+  if (value === null || value === undefined || value instanceof Uint8Array) return '';
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? '' : value.toISOString();
+  return String(value);
+}
+
+// Naive timestamps drop the "Z" so the validator reads them in the source timezone
+const isoText = (ms: number, utc: boolean) => {
+  const iso = new Date(ms).toISOString();
+  return utc ? iso : iso.slice(0, -1);
+};
+
+// "-123456", scale 2 → "-1234.56"
+function scaleDecimal(unscaled: string, scale: number): string {
+  if (scale <= 0) return unscaled + '0'.repeat(-scale);
+  const negative = unscaled.startsWith('-');
+  const digits = (negative ? unscaled.slice(1) : unscaled).padStart(scale + 1, '0');
+  return `${negative ? '-' : ''}${digits.slice(0, -scale)}.${digits.slice(-scale)}`;
+}
+
+// =============================================
+// Arrow IPC (file or stream format)
+// =============================================
+function arrowReader(field: Field, vector: Vector): CellReader {
+  const { type } = field;
+  if (DataType.isTimestamp(type)) {
+    const utc = Boolean(type.timezone);
+    return (row) => {
+      const ms = vector.get(row) as number | null;
+      return ms === null ? '' : isoText(ms, utc);
+    };
+  }
+  if (DataType.isDate(type)) {
+    return (row) => {
+      const ms = vector.get(row) as number | null;
+      if (ms === null) return '';
+      // Date64 can carry a time of day; Date32 is whole days
+      return ms % DAY_MS === 0 ? new Date(ms).toISOString().slice(0, 10) : isoText(ms, false);
+    };
+  }
+  if (DataType.isDecimal(type)) {
+    return (row) => {
+      const value = vector.get(row);
+      return value === null ? '' : scaleDecimal(String(value), type.scale);
+    };
+  }
+  return (row) => cellText(vector.get(row));
+}
+
+function openArrow(buffer: ArrayBuffer): ColumnarSource {
+  const table: Table = tableFromIPC(new Uint8Array(buffer));
+  return {
+    headers: table.schema.fields.map((f) => f.name),
+    rowCount: table.numRows,
+    readBatches: async (headers, onBatch) => {
+      const fields = headers.map((h) => table.schema.fields.findIndex((f) => f.name === h));
+      for (const batch of table.batches) {
+        const columns = headers.map((header, i) => ({
+          header,
+          read: arrowReader(table.schema.fields[fields[i]], batch.getChildAt(fields[i])!),
+        }));
+        if (!onBatch(batch.numRows, columns)) return;
+      }
+    },
+  };
+}
+
+// =============================================
+// Parquet (row group by row group)
+// =============================================
+// hyparquet turns dates and timestamps into Dates, but it would also turn
+// decimals into floats, which can't hold every unscaled value past 2^53.
+// Decimal columns are therefore read without their annotation, as the raw
+// unscaled integers, and the scale is applied to the digits.
+const isDecimal = (element: SchemaElement) =>
+  element.converted_type === 'DECIMAL' || element.logical_type?.type === 'DECIMAL';
+
+const utf8 = new TextDecoder();
+
+// INT32 / INT64 come as number / bigint, (FIXED_LEN_)BYTE_ARRAY as big-endian two's complement
+export function unscaledDecimalText(value: unknown): string {
+  if (typeof value === 'number' || typeof value === 'bigint') return String(value);
+  if (!(value instanceof Uint8Array) || value.length === 0) return '';
+  let unscaled = 0n;
+  for (const byte of value) unscaled = (unscaled << 8n) | BigInt(byte);
+  if (value[0] & 0x80) unscaled -= 1n << BigInt(value.length * 8);
+  return unscaled.toString();
+}
+
+function parquetReader(element: SchemaElement, values: ArrayLike<unknown>): CellReader {
+  const { converted_type: ctype, logical_type: ltype } = element;
+  if (isDecimal(element)) {
+    const scale = element.scale ?? 0;
+    return (row) => {
+      const digits = unscaledDecimalText(values[row]);
+      return digits === '' ? '' : scaleDecimal(digits, scale);
+    };
+  }
+  // Read with utf8 off (for byte-array decimals), so unannotated byte arrays are decoded here
+  if (element.type === 'BYTE_ARRAY') {
+    return (row) => {
+      const value = values[row];
+      return value instanceof Uint8Array ? utf8.decode(value) : cellText(value);
+    };
+  }
+  if (ctype === 'DATE' || ltype?.type === 'DATE') {
+    return (row) => {
+      const value = values[row];
+      return value instanceof Date && !Number.isNaN(value.getTime()) ? value.toISOString().slice(0, 10) : '';
+    };
+  }
+  if (ltype?.type === 'TIMESTAMP' && !ltype.isAdjustedToUTC) {
+    return (row) => {
+      const value = values[row];
+      return value instanceof Date && !Number.isNaN(value.getTime()) ? isoText(value.getTime(), false) : '';
+    };
+  }
+  return (row) => cellText(values[row]);
+}
+
+// Byte ranges of the file, read on demand
+const fileBuffer = (file: File): AsyncBuffer => ({
+  byteLength: file.size,
+  slice: (start, end) => file.slice(start, end).arrayBuffer(),
+});
+
+async function openParquet(file: File): Promise<ColumnarSource> {
+  const buffer = fileBuffer(file);
+  const metadata: FileMetaData = await parquetMetadataAsync(buffer);
+  const elements = new Map(parquetSchema(metadata).children.map((c) => [c.element.name, c.element]));
+  const raw: FileMetaData = {
+    ...metadata,
+    schema: metadata.schema.map((e) => (isDecimal(e) ? { ...e, converted_type: undefined, logical_type: undefined } : e)),
+  };
+  return {
+    headers: Array.from(elements.keys()),
+    rowCount: Number(metadata.num_rows),
+    readBatches: async (headers, onBatch) => {
+      let groupStart = 0;
+      for (const group of metadata.row_groups) {
+        const rows = Number(group.num_rows);
+        const data = new Map<string, unknown[]>(headers.map((h) => [h, new Array(rows)]));
+        await parquetRead({
+          file: buffer,
+          metadata: raw,
+          compressors,
+          utf8: false,
+          columns: headers,
+          rowStart: groupStart,
+          rowEnd: groupStart + rows,
+          onChunk: ({ columnName, columnData, rowStart }: ColumnData) => {
+            const target = data.get(columnName);
+            if (!target) return;
+            for (let i = 0; i < columnData.length; i++) target[rowStart - groupStart + i] = columnData[i];
+          },
+        });
+        groupStart += rows;
+        const columns = headers.map((header) => ({ header, read: parquetReader(elements.get(header)!, data.get(header)!) }));
+        if (!onBatch(rows, columns)) return;
+      }
+    },
+  };
+}
+
+async function openColumnar(file: File, format: ColumnarFormat): Promise<ColumnarSource> {
+  return format === 'parquet' ? openParquet(file) : openArrow(await file.arrayBuffer());
+}
+
+const formatLabel = (format: ColumnarFormat) => (format === 'parquet' ? 'Parquet' : 'Arrow');
+
+// =============================================
+// Schema (mapping step)
+// =============================================
+export async function readColumnarHeaders(file: File, format: ColumnarFormat): Promise<string[]> {
+  try {
+    return (await openColumnar(file, format)).headers;
+  } catch {
+    return [];
+  }
+}
+
+// =============================================
+// Columnar Parse
+// =============================================
+// Same outcome rules as buildParseResult, with the valid rows left in the store
+function columnarResult(
+  stored: TransactionColumns,
+  errors: ValidationError[],
+  errorCount: number,
+  rowCount: number,
+  rejected?: RejectedRow[]
+): ParseResult {
+  if (stored.length === 0 || (errorCount > 0 && !rejected)) {
+    return buildParseResult([], errors, errorCount, rowCount, rejected);
+  }
+  return {
+    success: true,
+    transactions: [],
+    columns: stored,
+    errors: rejected?.map((r) => ({ row: r.row, field: r.field, message: r.reason })) ?? [],
+    rowCount: stored.length,
+    ...(rejected ? { rejected } : {}),
+  };
+}
+
+export async function parseColumnar(
+  file: File,
+  format: ColumnarFormat,
+  options: ParseOptions = {},
+  callbacks: ParseCallbacks = {}
+): Promise<ParseResult> {
+  const { onProgress, signal } = callbacks;
+  const columns = resolveColumns(options.mapping);
+  const failed = (message: string): ParseResult => ({ success: false, transactions: [], errors: [{ message }], rowCount: 0 });
+
+  let source: ColumnarSource;
+  try {
+    source = await openColumnar(file, format);
+  } catch (err) {
+    return failed(`Could not read ${formatLabel(format)} file: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const headerError = checkRequiredColumns(source.headers, columns);
+  if (headerError) return { success: false, transactions: [], errors: [headerError], rowCount: 0 };
+
+  // Only the mapped columns are decoded
+  const mapped = new Set<string>(Object.values(columns));
+  const headers = source.headers.filter((h) => mapped.has(h));
+  const validate = createRowValidator(headers, options);
+  const nulls = createNullCounter(headers);
+  const store = createColumnBuilder(source.rowCount);
+  const errors: ValidationError[] = [];
+  const rejected: RejectedRow[] | undefined = options.mode === 'partial' ? [] : undefined;
+  let errorCount = 0;
+  let rowCount = 0;
+  let cancelled = false;
+  // One row object reused for every row; only rejected rows keep a copy
+  const values: Record<string, string> = {};
+
+  try {
+    await source.readBatches(headers, (rows, batch) => {
+      if (signal?.aborted) {
+        cancelled = true;
+        return false;
+      }
+      for (let i = 0; i < rows; i++) {
+        rowCount++;
+        for (const column of batch) values[column.header] = column.read(i);
+        nulls.count(values);
+        const outcome = validate(values, rowCount);
+        if ('error' in outcome) {
+          if (errorCount < MAX_REPORTED_ERRORS) errors.push(outcome.error);
+          errorCount++;
+          rejected?.push({ row: outcome.error.row, field: outcome.error.field, reason: outcome.error.message, values: { ...values } });
+        } else {
+          store.push(outcome.transaction);
+        }
+      }
+      onProgress?.({
+        bytesRead: source.rowCount > 0 ? Math.round((file.size * rowCount) / source.rowCount) : 0,
+        totalBytes: file.size,
+        rows: rowCount,
+      });
+      return true;
+    });
+  } catch (err) {
+    return failed(`${formatLabel(format)} error: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (cancelled) {
+    return { success: false, cancelled: true, transactions: [], errors: [{ message: 'Parsing cancelled.' }], rowCount };
+  }
+  onProgress?.({ bytesRead: file.size, totalBytes: file.size, rows: rowCount });
+
+  return { ...columnarResult(store.finish(), errors, errorCount, rowCount, rejected), columnNulls: nulls.counts };
+}
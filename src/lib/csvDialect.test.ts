@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { NumberFormat } from '@/types';
+import { detectCSVDialect, normalizeLocaleNumber, parseLocaleNumber } from './csvDialect';
+
+const fileOf = (bytes: Uint8Array) =>
+  ({
+    name: 'export.csv',
+    size: bytes.length,
+    slice: (start: number, end: number) => ({ arrayBuffer: async () => bytes.slice(start, end).buffer }),
+  }) as unknown as File;
+
+const utf8 = (text: string) => fileOf(new TextEncoder().encode(text));
+
+const utf16 = (text: string, littleEndian: boolean, bom: boolean) => {
+  const units = Array.from(text, (c) => c.charCodeAt(0));
+  const bytes = new Uint8Array((units.length + (bom ? 1 : 0)) * 2);
+  const view = new DataView(bytes.buffer);
+  if (bom) view.setUint16(0, 0xfeff, littleEndian);
+  units.forEach((u, i) => view.setUint16((i + (bom ? 1 : 0)) * 2, u, littleEndian));
+  return fileOf(bytes);
+};
+
+const GERMAN: NumberFormat = { decimalSeparator: ',', thousandsSeparator: '.' };
+const ENGLISH: NumberFormat = { decimalSeparator: '.', thousandsSeparator: ',' };
+const FRENCH: NumberFormat = { decimalSeparator: ',', thousandsSeparator: ' ' };
+const SWISS: NumberFormat = { decimalSeparator: '.', thousandsSeparator: "'" };
+
+describe('normalizeLocaleNumber', () => {
+  it('reads each grouping convention into canonical text', () => {
+    expect(normalizeLocaleNumber('1.234,56', GERMAN)).toBe('1234.56');
+    expect(normalizeLocaleNumber('1,234.56', ENGLISH)).toBe('1234.56');
+    expect(normalizeLocaleNumber('1 234,56', FRENCH)).toBe('1234.56');
+    expect(normalizeLocaleNumber('1 234 567,8', FRENCH)).toBe('1234567.8');
+    expect(normalizeLocaleNumber("1'234.56", SWISS)).toBe('1234.56');
+    expect(normalizeLocaleNumber('-1.234,56', GERMAN)).toBe('-1234.56');
+    expect(parseLocaleNumber('1.234,56', GERMAN)).toBe(1234.56);
+  });
+
+  it('rejects separators the format does not use instead of truncating', () => {
+    expect(normalizeLocaleNumber('1.234,56')).toBeNull();
+    expect(normalizeLocaleNumber('1,234.56', GERMAN)).toBeNull();
+    expect(normalizeLocaleNumber('1,23.00', ENGLISH)).toBeNull();
+    expect(normalizeLocaleNumber('12 34,5', FRENCH)).toBeNull();
+    expect(normalizeLocaleNumber('1234.56')).toBe('1234.56');
+  });
+
+  it('leaves a negative in parentheses to the statement reader', () => {
+    // Accounting negatives are only read where a sign is allowed (normalizeSignedAmount)
+    expect(normalizeLocaleNumber('(1.234,56)', GERMAN)).toBeNull();
+    expect(normalizeLocaleNumber('(1,234.56)', ENGLISH)).toBeNull();
+  });
+});
+
+describe('detectCSVDialect', () => {
+  it('finds the delimiter among comma, semicolon, tab and pipe', async () => {
+    expect((await detectCSVDialect(utf8('id,amount\nT1,10.50\nT2,7.25\n'))).delimiter).toBe(',');
+    expect((await detectCSVDialect(utf8('id;amount\nT1;10,50\nT2;7,25\n'))).delimiter).toBe(';');
+    expect((await detectCSVDialect(utf8('id\tamount\nT1\t10.50\nT2\t7.25\n'))).delimiter).toBe('\t');
+    expect((await detectCSVDialect(utf8('id|amount\nT1|10.50\nT2|7.25\n'))).delimiter).toBe('|');
+  });
+
+  it('votes on the number format from unambiguous amounts', async () => {
+    const format = async (text: string) => {
+      const { decimalSeparator, thousandsSeparator } = await detectCSVDialect(utf8(text));
+      return { decimalSeparator, thousandsSeparator };
+    };
+
+    expect(await format('id;amount\nT1;1.234,56\nT2;(2.000,00)\nT3;12,5\n')).toEqual(GERMAN);
+    expect(await format('id,amount\nT1,"1,234.56"\nT2,-7.25\n')).toEqual(ENGLISH);
+    expect(await format('id;amount\nT1;1 234,56\nT2;9 999,00\n')).toEqual(FRENCH);
+    expect(await format("id;amount\nT1;1'234.56\nT2;5.10\n")).toEqual(SWISS);
+    // "1,234" and "1.234" could be either; with nothing else the default stands
+    expect(await format('id;amount\nT1;1,234\nT2;1.234\n')).toEqual({ decimalSeparator: '.', thousandsSeparator: '' });
+  });
+
+  it('reads the encoding from a BOM', async () => {
+    const text = 'id,amount\nT1,10.50\n';
+
+    expect((await detectCSVDialect(fileOf(Uint8Array.from([0xef, 0xbb, 0xbf, ...new TextEncoder().encode(text)])))).encoding).toBe('utf-8');
+    expect((await detectCSVDialect(utf16(text, true, true))).encoding).toBe('utf-16le');
+    expect((await detectCSVDialect(utf16(text, false, true))).encoding).toBe('utf-16be');
+  });
+
+  it('recognises UTF-16 without a BOM and falls back to Windows-1252 for invalid UTF-8', async () => {
+    const text = 'id;name;amount\nT1;Zoë;10,50\n';
+    const dialect = await detectCSVDialect(utf16(text, true, false));
+
+    expect(dialect).toMatchObject({ encoding: 'utf-16le', delimiter: ';', decimalSeparator: ',' });
+    expect((await detectCSVDialect(utf16(text, false, false))).encoding).toBe('utf-16be');
+    // "Zoë" in Windows-1252: ë is the single byte 0xEB, never valid on its own in UTF-8
+    const latin = Uint8Array.from([...new TextEncoder().encode('id;name\nT1;Zo'), 0xeb, 0x0a]);
+    expect((await detectCSVDialect(fileOf(latin))).encoding).toBe('windows-1252');
+    expect((await detectCSVDialect(utf8(text))).encoding).toBe('utf-8');
+  });
+});
@@ -0,0 +1,171 @@
+import Papa from 'papaparse';
+import { CsvDialect, CsvEncoding, NumberFormat } from '@/types';
+
+// =============================================
+// CSV Dialect: Encoding, Delimiter, Number Format
+// =============================================
+// Detected from the first 64 KB of the file and shown for override before
+// parsing. Papa gets the encoding and delimiter; amounts go through
+// parseLocaleNumber so "1.234,56" is never read as 1.234.
+
+export const DEFAULT_NUMBER_FORMAT: NumberFormat = { decimalSeparator: '.', thousandsSeparator: '' };
+
+export const DEFAULT_CSV_DIALECT: CsvDialect = { encoding: 'utf-8', delimiter: ',', ...DEFAULT_NUMBER_FORMAT };
+
+export const CSV_ENCODINGS: { id: CsvEncoding; label: string }[] = [
+  { id: 'utf-8', label: 'UTF-8' },
+  { id: 'utf-16le', label: 'UTF-16 LE' },
+  { id: 'utf-16be', label: 'UTF-16 BE' },
+  { id: 'windows-1252', label: 'Windows-1252' },
+];
+
+export const CSV_DELIMITERS: { id: string; label: string }[] = [
+  { id: ',', label: 'Comma ,' },
+  { id: ';', label: 'Semicolon ;' },
+  { id: '\t', label: 'Tab' },
+  { id: '|', label: 'Pipe |' },
+];
+
+export const THOUSANDS_SEPARATORS: { id: NumberFormat['thousandsSeparator']; label: string }[] = [
+  { id: '', label: 'None' },
+  { id: ',', label: 'Comma ,' },
+  { id: '.', label: 'Dot .' },
+  { id: ' ', label: 'Space' },
+  { id: "'", label: "Apostrophe '" },
+];
+
+const SAMPLE_BYTES = 64 * 1024;
+const SAMPLE_ROWS = 50;
+
+// =============================================
+// Detection
+// =============================================
+function detectEncoding(bytes: Uint8Array): CsvEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  // BOM-less UTF-16: ASCII text leaves every other byte zero
+  let evenZeros = 0;
+  let oddZeros = 0;
+  const probe = Math.min(bytes.length, 1024);
+  for (let i = 0; i < probe; i++) {
+    if (bytes[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  if (oddZeros > probe / 4 && evenZeros < probe / 20) return 'utf-16le';
+  if (evenZeros > probe / 4 && oddZeros < probe / 20) return 'utf-16be';
+
+  try {
+    // stream: a multi-byte character cut off at the end of the sample isn't an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+// Votes from numeric-looking cells; ambiguous ones ("1.234", "1,234") don't count
+function detectNumberFormat(cells: string[], delimiter: string): NumberFormat {
+  let commaDecimal = 0;
+  let dotDecimal = 0;
+  let thousands: NumberFormat['thousandsSeparator'] | null = null;
+
+  for (const raw of cells) {
+    const cell = raw.trim().replace(/^[-+(]|[)-]$/g, '');
+    if (!/^\d[\d.,' \u00a0]*$/.test(cell)) continue;
+    if (/^\d{1,3}(\.\d{3})+,\d+$/.test(cell) || /^\d{1,3}(\.\d{3}){2,}$/.test(cell)) {
+      commaDecimal++;
+      thousands ??= '.';
+    } else if (/^\d{1,3}(,\d{3})+\.\d+$/.test(cell) || /^\d{1,3}(,\d{3}){2,}$/.test(cell)) {
+      dotDecimal++;
+      thousands ??= ',';
+    } else if (/^\d{1,3}([ \u00a0']\d{3})+([.,]\d+)?$/.test(cell)) {
+      thousands ??= cell.includes("'") ? "'" : ' ';
+      if (cell.includes(',')) commaDecimal++;
+      else if (cell.includes('.')) dotDecimal++;
+    } else if (/^\d+,\d+$/.test(cell) && delimiter !== ',' && !/,\d{3}$/.test(cell)) {
+      commaDecimal++;
+    } else if (/^\d+\.\d+$/.test(cell) && !/\.\d{3}$/.test(cell)) {
+      dotDecimal++;
+    }
+  }
+
+  const decimalSeparator = commaDecimal > dotDecimal ? ',' : '.';
+  return {
+    decimalSeparator,
+    thousandsSeparator: thousands && thousands !== decimalSeparator ? thousands : '',
+  };
+}
+
+export async function detectCSVDialect(file: File): Promise<CsvDialect> {
+  const bytes = new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+  const encoding = detectEncoding(bytes);
+  let sample = new TextDecoder(encoding).decode(bytes);
+  // Drop the last, probably cut-off line
+  const lastBreak = sample.lastIndexOf('\n');
+  if (lastBreak > 0 && bytes.length === SAMPLE_BYTES) sample = sample.slice(0, lastBreak);
+
+  const parsed = Papa.parse<string[]>(sample, {
+    preview: SAMPLE_ROWS,
+    skipEmptyLines: true,
+    delimitersToGuess: CSV_DELIMITERS.map((d) => d.id),
+  });
+  const delimiter = CSV_DELIMITERS.some((d) => d.id === parsed.meta.delimiter) ? parsed.meta.delimiter : ',';
+  const cells = parsed.data.slice(1).flat();
+  return { encoding, delimiter, ...detectNumberFormat(cells, delimiter) };
+}
+
+// =============================================
+// Number Parsing
+// =============================================
+// Strict: separators other than the configured ones make the value invalid
+// instead of truncating it the way parseFloat does. Returns canonical text
+// ("1234.56") so money can be read into minor units without a float step.
+export function normalizeLocaleNumber(value: string, format: NumberFormat = DEFAULT_NUMBER_FORMAT): string | null {
+  let s = value.trim();
+  if (format.thousandsSeparator) {
+    const separator = format.thousandsSeparator === ' ' ? /[ \u00a0\u202f]/g : format.thousandsSeparator;
+    const [integer, ...fraction] = s.replace(/^[+-]/, '').split(format.decimalSeparator);
+    const groups = integer.split(separator);
+    // Grouped digits must be groups of three: "1,23" is not a thousands-separated number
+    if (groups.length > 1 && !groups.every((g, i) => (i === 0 ? /^\d{1,3}$/ : /^\d{3}$/).test(g))) return null;
+    // Nor may a separator follow the decimal mark: "1,234.56" is not German notation
+    if (fraction.some((part) => part.split(separator).length > 1)) return null;
+    s = s.split(separator).join('');
+  }
+  if (format.decimalSeparator === ',') {
+    if (s.includes('.')) return null;
+    s = s.replace(',', '.');
+  }
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(s)) return null;
+  return s;
+}
+
+export function parseLocaleNumber(value: string, format: NumberFormat = DEFAULT_NUMBER_FORMAT): number | null {
+  const normalized = normalizeLocaleNumber(value, format);
+  return normalized === null ? null : Number(normalized);
+}
+
+// =============================================
+// Papa Configuration
+// =============================================
+export function papaDialectConfig(dialect?: CsvDialect): Pick<Papa.ParseConfig, 'delimiter' | 'transformHeader'> & {
+  encoding?: string;
+} {
+  return {
+    // A UTF-8 BOM can survive decoding and would end up in the first header
+    transformHeader: (header: string) => header.replace(/^\uFEFF/, ''),
+    ...(dialect ? { encoding: dialect.encoding, delimiter: dialect.delimiter } : {}),
+  };
+}
+
+// "UTF-8 · delimiter ; · amounts like 1.234,56" for upload summaries
+export function describeDialect(dialect: CsvDialect): string {
+  const encoding = CSV_ENCODINGS.find((e) => e.id === dialect.encoding)?.label ?? dialect.encoding;
+  const delimiter = dialect.delimiter === '\t' ? 'tab' : dialect.delimiter;
+  const example = `1${dialect.thousandsSeparator}234${dialect.decimalSeparator}56`;
+  return `${encoding} · delimiter ${delimiter} · amounts like ${example}`;
+}
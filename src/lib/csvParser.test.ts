@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { ParseProgress } from '@/types';
+import { parseCSV } from './csvParser';
+
+const CHUNK_SIZE = 2 * 1024 * 1024;
+
+// jsdom's Blob cannot read itself back, so serve the slices from the bytes
+const fakeFile = (bytes: Uint8Array, name = 'transfers.csv') =>
+  ({
+    name,
+    size: bytes.length,
+    slice: (start: number, end: number) => ({ arrayBuffer: async () => bytes.slice(start, end).buffer }),
+  }) as unknown as File;
+
+const encoder = new TextEncoder();
+const HEADER = 'transaction_id,sender_id,receiver_id,amount,timestamp\n';
+
+describe('parseCSV', () => {
+  it('decodes a character split across two read chunks', async () => {
+    // Pad with ASCII rows so the two bytes of "ë" straddle the first chunk boundary
+    const row = (i: number) => `T${String(i).padStart(6, '0')},ACC${String(i).padStart(6, '0')},B,1.00,2024-03-01\n`;
+    let text = HEADER;
+    let i = 0;
+    while (text.length + row(i).length < CHUNK_SIZE - 200) text += row(i++);
+    const lead = 'T999998,Zo';
+    const filler = (width: number) => `P000000,ACC,B${'x'.repeat(width)},1.00,2024-03-01\n`;
+    text += filler(CHUNK_SIZE - 1 - text.length - lead.length - filler(0).length);
+    text += `${lead}ë,B,2.00,2024-03-02\nT999999,C,D,3.00,2024-03-03\n`;
+
+    const bytes = encoder.encode(text);
+    expect(bytes[CHUNK_SIZE - 1]).toBe(0xc3);
+    expect(bytes[CHUNK_SIZE]).toBe(0xab);
+
+    const progress: ParseProgress[] = [];
+    const result = await parseCSV(fakeFile(bytes), {}, { onProgress: (p) => progress.push(p) });
+
+    expect(result.success).toBe(true);
+    expect(result.transactions.map((t) => t.sender_id)).toContain('Zoë');
+    expect(result.transactions.some((t) => t.sender_id.includes('�'))).toBe(false);
+    expect(result.rowCount).toBe(i + 3);
+    expect(progress[0].bytesRead).toBe(CHUNK_SIZE);
+    expect(progress.at(-1)).toEqual({ bytesRead: bytes.length, totalBytes: bytes.length, rows: i + 3 });
+  });
+
+  it('reads the encoding the dialect names', async () => {
+    // "Müller" in Windows-1252, where ü is the single byte 0xFC
+    const bytes = Uint8Array.from([...encoder.encode(`${HEADER}T1,M`), 0xfc, ...encoder.encode('ller,B,1.00,2024-03-01\n')]);
+    const result = await parseCSV(fakeFile(bytes), {
+      dialect: { encoding: 'windows-1252', delimiter: ',', decimalSeparator: '.', thousandsSeparator: '' },
+    });
+
+    expect(result.transactions[0].sender_id).toBe('Müller');
+  });
+});
@@ -1,147 +1,438 @@
 import Papa from 'papaparse';
-import { RawTransaction, Transaction, ParseResult, ValidationError } from '@/types';
+import {
+  Transaction,
+  RejectedRow,
+  ParseResult,
+  ParseOptions,
+  ParseProgress,
+  ValidationError,
+  TransactionField,
+  ColumnMapping,
+  ColumnNullCounts,
+  CsvDialect,
+} from '@/types';
+import { REQUIRED_COLUMNS, TRANSACTION_FIELDS } from './columnMapping';
+import { parseTimestamp, SUPPORTED_TIMESTAMP_FORMATS } from './timestamp';
+import { createFxConverter, isValidCurrency, normalizeCurrency } from './fxRates';
+import { resolveDuplicates } from './duplicates';
+import { CHANNELS, normalizeChannel, normalizeDirection } from './channels';
+import { normalizeStatus } from './reversals';
+import { DEFAULT_NUMBER_FORMAT, normalizeLocaleNumber, papaDialectConfig } from './csvDialect';
+import { MAX_MINOR_UNITS, currencyExponent, formatMinorUnits, fromMinorUnits, parseMinorUnits } from './money';
 
-const REQUIRED_COLUMNS = [
-  'transaction_id',
-  'sender_id',
-  'receiver_id',
-  'amount',
-  'timestamp',
-] as const;
+const CHUNK_SIZE = 2 * 1024 * 1024; // bytes decoded per read — also the progress granularity
+export const MAX_REPORTED_ERRORS = 20;
 
-const TIMESTAMP_REGEX = /^\d{4}-\d{2}-\d{2} \d{1,2}:\d{2}:\d{2}$/;
+export interface ParseCallbacks {
+  onProgress?: (progress: ParseProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Reads only the header row, for the column mapping step
+export async function readCSVHeaders(file: File, dialect?: CsvDialect): Promise<string[]> {
+  return new Promise((resolve) => {
+    Papa.parse(file, {
+      ...papaDialectConfig(dialect),
+      header: true,
+      preview: 1,
+      skipEmptyLines: true,
+      complete: (result) => resolve(result.meta.fields ?? []),
+      error: () => resolve([]),
+    });
+  });
+}
+
+// =============================================
+// Column Resolution
+// =============================================
+// Canonical field → header actually present in the file
+export type ResolvedColumns = Record<TransactionField, string>;
+
+export function resolveColumns(mapping?: ColumnMapping): ResolvedColumns {
+  return Object.fromEntries(
+    TRANSACTION_FIELDS.map((f) => [f.field, mapping?.[f.field] ?? f.field])
+  ) as ResolvedColumns;
+}
+
+export function checkRequiredColumns(headers: string[], columns: ResolvedColumns): ValidationError | null {
+  const missingCols = REQUIRED_COLUMNS.filter((c) => !headers.includes(columns[c]));
+  if (missingCols.length === 0) return null;
+  const described = missingCols.map((c) => (columns[c] === c ? c : `${c} (mapped to "${columns[c]}")`));
+  return { message: `Missing required columns: ${described.join(', ')}. Found: ${headers.join(', ')}` };
+}
+
+// =============================================
+// Account ID Interning
+// =============================================
+// Millions of rows reference far fewer accounts; sharing one string per
+// account keeps the transaction array much smaller than one copy per row.
+export function createIdInterner(): (id: string) => string {
+  const pool = new Map<string, string>();
+  return (id) => {
+    const hit = pool.get(id);
+    if (hit !== undefined) return hit;
+    pool.set(id, id);
+    return id;
+  };
+}
+
+// =============================================
+// Column Null Counts
+// =============================================
+// Counted over every row read, valid or not, for the data-quality profile
+export function createNullCounter(headers: string[]): {
+  counts: ColumnNullCounts;
+  count: (row: Record<string, string>) => void;
+} {
+  const counts: ColumnNullCounts = Object.fromEntries(headers.map((h) => [h, 0]));
+  return {
+    counts,
+    count: (row) => {
+      for (const h of headers) {
+        if (!String(row[h] ?? '').trim()) counts[h]++;
+      }
+    },
+  };
+}
+
+// =============================================
+// Row Validation
+// =============================================
+export type RowOutcome = { transaction: Transaction } | { error: ValidationError };
+
+export function createRowValidator(
+  headers: string[],
+  options: ParseOptions = {},
+  intern: (id: string) => string = createIdInterner()
+): (row: Record<string, string>, rowNum: number) => RowOutcome {
+  const columns = resolveColumns(options.mapping);
+  const convert = options.fx ? createFxConverter(options.fx) : null;
+  const baseCurrency = options.fx ? normalizeCurrency(options.fx.baseCurrency) : undefined;
+  const hasCurrency = headers.includes(columns.currency);
+  const hasChannel = headers.includes(columns.channel);
+  const hasDirection = headers.includes(columns.direction);
+  const hasStatus = headers.includes(columns.status);
+  const hasReverses = headers.includes(columns.reverses_transaction_id);
+  const numberFormat = options.dialect ?? DEFAULT_NUMBER_FORMAT;
+  let firstCurrency: string | undefined; // without an FX table every row must share one currency
+
+  const fail = (rowNum: number, field: string, message: string): RowOutcome => ({
+    error: { row: rowNum, field, message: `Row ${rowNum}: ${message}` },
+  });
+
+  return (row, rowNum) => {
+    const txId = String(row[columns.transaction_id] ?? '').trim();
+    const senderId = String(row[columns.sender_id] ?? '').trim();
+    const receiverId = String(row[columns.receiver_id] ?? '').trim();
+    const amountStr = String(row[columns.amount] ?? '').trim();
+    const timestampStr = String(row[columns.timestamp] ?? '').trim();
+
+    if (!txId) return fail(rowNum, 'transaction_id', 'transaction_id is empty');
+    if (!senderId) return fail(rowNum, 'sender_id', 'sender_id is empty');
+    if (!receiverId) return fail(rowNum, 'receiver_id', 'receiver_id is empty');
+
+    const amountText = normalizeLocaleNumber(amountStr, numberFormat);
+    if (amountText === null || !(Number(amountText) > 0)) {
+      const example = `1${numberFormat.thousandsSeparator}234${numberFormat.decimalSeparator}56`;
+      return fail(rowNum, 'amount', `amount "${amountStr}" is not a valid positive number (expected e.g. ${example})`);
+    }
+
+    const timestampMs = parseTimestamp(timestampStr, { timezone: options.timezone });
+    if (timestampMs === null) {
+      return fail(
+        rowNum,
+        'timestamp',
+        `timestamp "${timestampStr}" is not a supported format (${SUPPORTED_TIMESTAMP_FORMATS.join('; ')})`
+      );
+    }
+
+    const currency = hasCurrency
+      ? normalizeCurrency(String(row[columns.currency] ?? '')) || baseCurrency
+      : baseCurrency;
+    if (currency && !isValidCurrency(currency)) {
+      return fail(rowNum, 'currency', `currency "${currency}" is not a 3-letter ISO 4217 code`);
+    }
+    // Read straight into minor units of the row's currency; FX converts those once, rounding to the base unit
+    const exponent = currencyExponent(currency);
+    const originalMinor = parseMinorUnits(amountText, exponent);
+    if (originalMinor === null) return fail(rowNum, 'amount', `amount "${amountStr}" is too large`);
+    if (originalMinor === 0) {
+      return fail(rowNum, 'amount', `amount "${amountStr}" is below the smallest unit (${formatMinorUnits(1, exponent)}${currency ? ` ${currency}` : ''})`);
+    }
+    let amountMinor = originalMinor;
+    if (currency) {
+      if (convert) {
+        const converted = convert(originalMinor, currency, timestampMs);
+        if (converted === null) {
+          return fail(
+            rowNum,
+            'currency',
+            `no FX rate for ${currency} → ${baseCurrency} on ${new Date(timestampMs).toISOString().slice(0, 10)}`
+          );
+        }
+        if (converted > MAX_MINOR_UNITS) return fail(rowNum, 'amount', `amount "${amountStr}" ${currency} is too large in ${baseCurrency}`);
+        amountMinor = converted;
+        if (amountMinor === 0) {
+          const smallest = formatMinorUnits(1, currencyExponent(baseCurrency));
+          return fail(rowNum, 'amount', `amount "${amountStr}" ${currency} is below the smallest unit (${smallest} ${baseCurrency})`);
+        }
+      } else if (firstCurrency && currency !== firstCurrency) {
+        return fail(rowNum, 'currency', `currency ${currency} differs from ${firstCurrency} — mixed currencies need an FX rate table`);
+      }
+      firstCurrency ??= currency;
+    }
+    const amountCurrency = convert ? baseCurrency : currency;
+
+    const channelStr = hasChannel ? String(row[columns.channel] ?? '').trim() : '';
+    const channel = channelStr ? normalizeChannel(channelStr) : undefined;
+    if (channel === null) {
+      return fail(rowNum, 'channel', `channel "${channelStr}" is not one of ${CHANNELS.join(', ')}`);
+    }
+    const directionStr = hasDirection ? String(row[columns.direction] ?? '').trim() : '';
+    const direction = directionStr ? normalizeDirection(directionStr) : undefined;
+    if (direction === null) {
+      return fail(rowNum, 'direction', `direction "${directionStr}" is not inbound, outbound or internal`);
+    }
+    const statusStr = hasStatus ? String(row[columns.status] ?? '').trim() : '';
+    const status = statusStr ? normalizeStatus(statusStr) : undefined;
+    if (status === null) {
+      return fail(rowNum, 'status', `status "${statusStr}" is not completed, reversed, refund or chargeback`);
+    }
+    const reverses = hasReverses ? String(row[columns.reverses_transaction_id] ?? '').trim() : '';
+    if (reverses && reverses === txId) {
+      return fail(rowNum, 'reverses_transaction_id', `transaction ${txId} cannot reverse itself`);
+    }
 
+    return {
+      transaction: {
+        transaction_id: txId,
+        sender_id: intern(senderId),
+        receiver_id: intern(receiverId),
+        amount: fromMinorUnits(amountMinor, currencyExponent(amountCurrency)),
+        amountMinor,
+        timestamp: timestampStr,
+        timestampMs,
+        ...(amountCurrency ? { baseCurrency: amountCurrency } : {}),
+        ...(currency
+          ? { currency, originalAmount: fromMinorUnits(originalMinor, exponent), originalAmountMinor: originalMinor }
+          : {}),
+        ...(channel ? { channel } : {}),
+        ...(direction ? { direction } : {}),
+        ...(status ? { status } : {}),
+        ...(reverses ? { reverses_transaction_id: reverses } : {}),
+      },
+    };
+  };
+}
 
-function parseTimestamp(ts: string): number | null {
-  const cleaned = ts.trim();
+// =============================================
+// Result Assembly
+// =============================================
+export function buildParseResult(
+  transactions: Transaction[],
+  errors: ValidationError[],
+  errorCount: number,
+  rowCount: number,
+  rejected?: RejectedRow[]
+): ParseResult {
+  // Partial mode: every rejected row is reported, valid rows go through
+  if (rejected) {
+    return {
+      success: transactions.length > 0,
+      transactions,
+      errors: transactions.length > 0
+        ? rejected.map((r) => ({ row: r.row, field: r.field, message: r.reason }))
+        : [
+            { message: rowCount === 0 ? 'File contains no data rows.' : `No valid rows — all ${rowCount.toLocaleString()} rows were rejected.` },
+            ...errors.slice(0, 10),
+          ],
+      rowCount: transactions.length,
+      rejected,
+    };
+  }
 
-  const match = cleaned.match(/^(\d{4}-\d{2}-\d{2}) (\d{1,2}):(\d{2}):(\d{2})$/);
-  if (!match) return null;
+  // Stop early if too many errors
+  if (errorCount > MAX_REPORTED_ERRORS) {
+    return {
+      success: false,
+      transactions: [],
+      errors: [
+        ...errors.slice(0, 10),
+        { message: `...and ${errorCount - 10} more errors. Please check your CSV file format.` },
+      ],
+      rowCount,
+    };
+  }
+
+  if (errorCount > 0) {
+    return { success: false, transactions: [], errors, rowCount };
+  }
+
+  return { success: true, transactions, errors: [], rowCount: transactions.length };
+}
 
-  let [, date, hour, min, sec] = match;
+// Applies the duplicate transaction_id policy to a successful parse
+export function withDuplicatesResolved(result: ParseResult, options: ParseOptions = {}): ParseResult {
+  if (!result.success) return result;
+  const { transactions, report, errors } = resolveDuplicates(result.transactions, options.duplicatePolicy);
+  if (errors.length > 0) {
+    return { ...result, success: false, transactions: [], errors, duplicates: report };
+  }
+  return { ...result, transactions, rowCount: transactions.length, duplicates: report };
+}
 
-  // Ensure hour is 2 digits
-  hour = hour.padStart(2, '0');
+// =============================================
+// Decoded Text Stream
+// =============================================
+// Papa decodes each File slice on its own, so a character split across two
+// slices comes out as U+FFFD. One streaming TextDecoder carries the partial
+// bytes over instead; Papa reads its output through the Node-style stream input.
+export interface DecodedTextStream {
+  readable: true;
+  read: () => null;
+  on: (event: string, listener: (arg?: unknown) => void) => void;
+  removeListener: (event: string) => void;
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+}
 
-  const iso = `${date}T${hour}:${min}:${sec}`;
-  const parsed = new Date(iso);
+export function decodedTextStream(file: File, encoding: string, onRead: (bytesRead: number) => void): DecodedTextStream {
+  const listeners = new Map<string, (arg?: unknown) => void>();
+  const emit = (event: string, arg?: unknown) => listeners.get(event)?.(arg);
+  let stopped = false;
+  let resume: (() => void) | null = null;
+  let paused: Promise<void> | null = null;
 
-  if (isNaN(parsed.getTime())) return null;
+  const pump = async () => {
+    const decoder = new TextDecoder(encoding);
+    try {
+      for (let offset = 0; offset < file.size && !stopped; offset += CHUNK_SIZE) {
+        const bytes = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+        if (paused) await paused;
+        if (stopped) return;
+        onRead(Math.min(offset + CHUNK_SIZE, file.size));
+        emit('data', decoder.decode(bytes, { stream: true }));
+      }
+      if (stopped) return;
+      const tail = decoder.decode();
+      if (tail) emit('data', tail);
+      emit('end');
+    } catch (err) {
+      if (!stopped) emit('error', err instanceof Error ? err : new Error(String(err)));
+    }
+  };
+  // Papa attaches its listeners synchronously, before the first read resolves
+  void Promise.resolve().then(pump);
 
-  return parsed.getTime();
+  return {
+    readable: true,
+    read: () => null,
+    on: (event, listener) => void listeners.set(event, listener),
+    removeListener: (event) => void listeners.delete(event),
+    pause: () => {
+      paused ??= new Promise((r) => (resume = r));
+    },
+    resume: () => {
+      resume?.();
+      resume = null;
+      paused = null;
+    },
+    stop: () => {
+      stopped = true;
+    },
+  };
 }
 
+// =============================================
+// Streaming CSV Parse
+// =============================================
+export async function parseCSV(
+  file: File,
+  options: ParseOptions = {},
+  callbacks: ParseCallbacks = {}
+): Promise<ParseResult> {
+  const { onProgress, signal } = callbacks;
 
-export async function parseCSV(file: File): Promise<ParseResult> {
   return new Promise((resolve) => {
-    Papa.parse(file, {
+    const transactions: Transaction[] = [];
+    const errors: ValidationError[] = [];
+    const rejected: RejectedRow[] | undefined = options.mode === 'partial' ? [] : undefined;
+    let errorCount = 0;
+    let rowCount = 0;
+    let validate: ReturnType<typeof createRowValidator> | null = null;
+    let nulls: ReturnType<typeof createNullCounter> | null = null;
+    let headerError: ValidationError | null = null;
+    let bytesRead = 0;
+    const dialect = papaDialectConfig(options.dialect);
+    const input = decodedTextStream(file, dialect.encoding ?? 'utf-8', (bytes) => (bytesRead = bytes));
+
+    // Papa's typings only list Node streams; it accepts anything with read() and on()
+    Papa.parse<Record<string, string>>(input as unknown as NodeJS.ReadableStream, {
+      ...dialect,
       header: true,
       skipEmptyLines: true,
-      complete: (result) => {
-        const errors: ValidationError[] = [];
-        const transactions: Transaction[] = [];
-
-        // Check columns
-        const headers: string[] = result.meta.fields ?? [];
-        const missingCols = REQUIRED_COLUMNS.filter((c) => !headers.includes(c));
-        if (missingCols.length > 0) {
-          resolve({
-            success: false,
-            transactions: [],
-            errors: [
-              {
-                message: `Missing required columns: ${missingCols.join(', ')}. Found: ${headers.join(', ')}`,
-              },
-            ],
-            rowCount: 0,
-          });
+      chunk: (result, parser) => {
+        if (signal?.aborted) {
+          parser.abort();
           return;
         }
 
-        const extraCols = headers.filter((h) => !REQUIRED_COLUMNS.includes(h as any));
-        // Extra columns are allowed (we just ignore them)
-
-        // Validate rows
-        (result.data as Record<string, string>[]).forEach((row, i) => {
-          const rowNum = i + 2; // 1-indexed + header
-
-          const txId = String(row.transaction_id ?? '').trim();
-          const senderId = String(row.sender_id ?? '').trim();
-          const receiverId = String(row.receiver_id ?? '').trim();
-          const amountStr = String(row.amount ?? '').trim();
-          const timestampStr = String(row.timestamp ?? '').trim();
-
-          if (!txId) {
-            errors.push({ row: rowNum, field: 'transaction_id', message: `Row ${rowNum}: transaction_id is empty` });
-            return;
-          }
-          if (!senderId) {
-            errors.push({ row: rowNum, field: 'sender_id', message: `Row ${rowNum}: sender_id is empty` });
-            return;
-          }
-          if (!receiverId) {
-            errors.push({ row: rowNum, field: 'receiver_id', message: `Row ${rowNum}: receiver_id is empty` });
-            return;
-          }
-
-          const amount = parseFloat(amountStr);
-          if (isNaN(amount) || amount <= 0) {
-            errors.push({ row: rowNum, field: 'amount', message: `Row ${rowNum}: amount "${amountStr}" is not a valid positive number` });
+        // Check columns once, on the first chunk
+        if (!validate) {
+          const headers: string[] = result.meta.fields ?? [];
+          headerError = checkRequiredColumns(headers, resolveColumns(options.mapping));
+          if (headerError) {
+            parser.abort();
             return;
           }
+          validate = createRowValidator(headers, options);
+          nulls = createNullCounter(headers);
+        }
 
-          const timestampMs = parseTimestamp(timestampStr);
-          if (timestampMs === null) {
-            errors.push({
-              row: rowNum,
-              field: 'timestamp',
-              message: `Row ${rowNum}: timestamp "${timestampStr}" must be YYYY-MM-DD HH:MM:SS`,
+        for (const row of result.data) {
+          rowCount++;
+          nulls.count(row);
+          const outcome = validate(row, rowCount + 1); // 1-indexed + header
+          if ('error' in outcome) {
+            // Keep only what can be reported; count the rest
+            if (errorCount < MAX_REPORTED_ERRORS) errors.push(outcome.error);
+            errorCount++;
+            rejected?.push({
+              row: outcome.error.row,
+              field: outcome.error.field,
+              reason: outcome.error.message,
+              values: row,
             });
-            return;
+          } else {
+            transactions.push(outcome.transaction);
           }
+        }
 
-          transactions.push({
-            transaction_id: txId,
-            sender_id: senderId,
-            receiver_id: receiverId,
-            amount,
-            timestamp: timestampStr,
-            timestampMs,
-          });
+        onProgress?.({
+          bytesRead,
+          totalBytes: file.size,
+          rows: rowCount,
         });
-
-        // Stop early if too many errors
-        if (errors.length > 20) {
-          resolve({
-            success: false,
-            transactions: [],
-            errors: [
-              ...errors.slice(0, 10),
-              { message: `...and ${errors.length - 10} more errors. Please check your CSV file format.` },
-            ],
-            rowCount: result.data.length,
-          });
+      },
+      complete: () => {
+        input.stop();
+        if (signal?.aborted) {
+          resolve({ success: false, cancelled: true, transactions: [], errors: [{ message: 'Parsing cancelled.' }], rowCount });
           return;
         }
-
-        if (errors.length > 0) {
-          resolve({
-            success: false,
-            transactions: [],
-            errors,
-            rowCount: result.data.length,
-          });
+        if (headerError) {
+          resolve({ success: false, transactions: [], errors: [headerError], rowCount: 0 });
           return;
         }
-
         resolve({
-          success: true,
-          transactions,
-          errors: [],
-          rowCount: transactions.length,
+          ...withDuplicatesResolved(buildParseResult(transactions, errors, errorCount, rowCount, rejected), options),
+          columnNulls: nulls?.counts ?? {},
+          ...(options.dialect ? { dialect: options.dialect } : {}),
         });
       },
       error: (err) => {
+        input.stop();
         resolve({
           success: false,
           transactions: [],
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { IngestionSummary, Transaction } from '@/types';
+import { profileTransactions } from './dataProfile';
+
+const base = Date.parse('2024-03-01T00:00:00Z');
+const now = Date.parse('2024-06-01T00:00:00Z');
+let counter = 0;
+const tx = (sender: string, receiver: string, amountMinor: number, extra: Partial<Transaction> = {}): Transaction => ({
+  transaction_id: `T${++counter}`,
+  sender_id: sender,
+  receiver_id: receiver,
+  amount: amountMinor / 100,
+  amountMinor,
+  timestamp: new Date(base).toISOString(),
+  timestampMs: base,
+  ...extra,
+});
+
+const ingestion = (files: IngestionSummary['files']): IngestionSummary => ({
+  rowsRead: files.reduce((n, f) => n + f.rowsRead, 0),
+  transactions: files.reduce((n, f) => n + f.transactions, 0),
+  rowsRejected: files.reduce((n, f) => n + f.rowsRejected, 0),
+  duplicates: { policy: 'keep_first', exactDuplicates: 0, conflictingIds: 0, conflictingRecords: 0, removed: 2, sampleConflictIds: [] },
+  files,
+});
+
+describe('profileTransactions', () => {
+  it('reports null counts per file and column as a share of the rows read', () => {
+    const profile = profileTransactions(
+      [tx('A', 'B', 100)],
+      ingestion([
+        { name: 'a.csv', rowsRead: 8, transactions: 6, rowsRejected: 2, columnNulls: { amount: 2, currency: 8 } },
+        { name: 'b.json', rowsRead: 0, transactions: 0, rowsRejected: 0, columnNulls: { channel: 0 } },
+        { name: 'c.xml', rowsRead: 4, transactions: 4, rowsRejected: 0 },
+      ]),
+      undefined,
+      now
+    );
+
+    expect(profile.columnNulls).toEqual([
+      { file: 'a.csv', column: 'amount', nulls: 2, rate: 0.25 },
+      { file: 'a.csv', column: 'currency', nulls: 8, rate: 1 },
+      { file: 'b.json', column: 'channel', nulls: 0, rate: 0 },
+    ]);
+    expect(profile).toMatchObject({ rowsRead: 12, rowsRejected: 2, duplicatesRemoved: 2, transactions: 1 });
+  });
+
+  it('counts and samples self-transfers, future-dated rows, reversals and accounts without counterparties', () => {
+    const future = now + 1;
+    const transactions = [
+      tx('A', 'B', 1_000),
+      tx('C', 'C', 500),
+      tx('C', 'C', 700),
+      tx('A', 'B', 2_000, { timestamp: new Date(future).toISOString(), timestampMs: future }),
+      tx('B', 'A', 1_000, { status: 'refund', reverses_transaction_id: 'T1' }),
+      tx('A', 'D', 3_000, { status: 'reversed' }),
+    ];
+    const ids = transactions.map((t) => t.transaction_id);
+    const profile = profileTransactions(transactions, undefined, new Map([['A', {}], ['LISTED', {}]]), now);
+
+    expect(profile.selfTransfers).toEqual({ count: 2, samples: [ids[1], ids[2]] });
+    expect(profile.futureDated).toEqual({ count: 1, samples: [ids[3]] });
+    expect(profile.reversals).toEqual({ count: 2, samples: [ids[4], ids[5]] });
+    expect(profile.zeroDegree).toEqual({ count: 2, samples: ['C', 'LISTED'] });
+    expect(profile.accounts).toBe(4);
+  });
+
+  it('caps anomaly samples but not counts', () => {
+    const profile = profileTransactions(Array.from({ length: 7 }, (_, i) => tx(`S${i}`, `S${i}`, 100)), undefined, undefined, now);
+
+    expect(profile.selfTransfers.count).toBe(7);
+    expect(profile.selfTransfers.samples).toHaveLength(5);
+  });
+
+  it('puts an outlying amount in its own power-of-ten bucket and ranks accounts by volume', () => {
+    const amountsMinor = [1_200, 3_400, 5_600, 7_800, 9_900, 250_000_000];
+    const profile = profileTransactions(amountsMinor.map((a, i) => tx(`A${i}`, 'HUB', a)), undefined, undefined, now);
+
+    expect(profile.amounts).toMatchObject({ min: 12, max: 2_500_000, median: 67, total: 2_500_279 });
+    expect(profile.amounts?.buckets.map((b) => [b.from, b.count])).toEqual([
+      [10, 5],
+      [100, 0],
+      [1_000, 0],
+      [10_000, 0],
+      [100_000, 0],
+      [1_000_000, 1],
+    ]);
+    expect(profile.topAccounts.slice(0, 2)).toEqual([
+      { account_id: 'HUB', volume: 2_500_279, transactions: 6 },
+      { account_id: 'A5', volume: 2_500_000, transactions: 1 },
+    ]);
+  });
+
+  it('has no time range or amounts without transactions', () => {
+    const profile = profileTransactions([], undefined, undefined, now);
+
+    expect(profile.timeRange).toBeNull();
+    expect(profile.amounts).toBeNull();
+    expect(profile.accounts).toBe(0);
+  });
+});
@@ -0,0 +1,186 @@
+import { AccountMasterData, IngestionSummary, Transaction } from '@/types';
+import { isReversalEntry } from './reversals';
+import { currencyExponent, fromMinorUnits } from './money';
+
+// =============================================
+// Pre-analysis Data Quality Profile
+// =============================================
+// Computed from the validated transactions (plus the ingestion summary for
+// what was read and rejected) before any detector runs.
+
+const TOP_ACCOUNTS = 10;
+const SAMPLE_IDS = 5;
+
+export interface AmountBucket {
+  from: number; // inclusive
+  to: number; // exclusive
+  count: number;
+}
+
+export interface ColumnNullRate {
+  file: string;
+  column: string;
+  nulls: number;
+  rate: number; // 0–1, over rows read from that file
+}
+
+export interface AccountVolume {
+  account_id: string;
+  volume: number; // sent + received, base currency
+  transactions: number;
+}
+
+export interface DataAnomaly {
+  count: number;
+  samples: string[];
+}
+
+export interface DataProfile {
+  rowsRead: number;
+  transactions: number;
+  rowsRejected: number;
+  duplicatesRemoved: number;
+  accounts: number;
+  timeRange: { start: number; end: number } | null;
+  amounts: {
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+    p95: number;
+    total: number;
+    buckets: AmountBucket[];
+  } | null;
+  selfTransfers: DataAnomaly; // transaction IDs with sender = receiver
+  zeroDegree: DataAnomaly; // account IDs with no counterparty
+  futureDated: DataAnomaly; // transaction IDs later than the profile time
+  reversals: DataAnomaly; // transaction IDs of reversal entries and reversed originals
+  topAccounts: AccountVolume[];
+  columnNulls: ColumnNullRate[];
+}
+
+function quantile(sorted: Float64Array, q: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+// Amounts span many orders of magnitude, so buckets are powers of ten
+function amountBuckets(sorted: Float64Array): AmountBucket[] {
+  if (sorted.length === 0) return [];
+  const lowExp = Math.floor(Math.log10(Math.max(sorted[0], 0.01)));
+  const highExp = Math.floor(Math.log10(Math.max(sorted[sorted.length - 1], 0.01)));
+  const buckets: AmountBucket[] = [];
+  for (let exp = lowExp; exp <= highExp; exp++) {
+    buckets.push({ from: 10 ** exp, to: 10 ** (exp + 1), count: 0 });
+  }
+  for (const amount of sorted) {
+    const exp = Math.floor(Math.log10(Math.max(amount, 0.01)));
+    buckets[Math.min(Math.max(exp - lowExp, 0), buckets.length - 1)].count++;
+  }
+  return buckets;
+}
+
+function anomaly(ids: string[]): DataAnomaly {
+  return { count: ids.length, samples: ids.slice(0, SAMPLE_IDS) };
+}
+
+export function profileTransactions(
+  transactions: Transaction[],
+  ingestion?: IngestionSummary,
+  accounts?: AccountMasterData,
+  now: number = Date.now()
+): DataProfile {
+  const amounts = new Float64Array(transactions.length);
+  const volumes = new Map<string, AccountVolume>();
+  // Counterparties other than the account itself; stays empty for self-transfer-only accounts
+  const counterparties = new Map<string, number>();
+  const selfTransfers: string[] = [];
+  const futureDated: string[] = [];
+  const reversals: string[] = [];
+  let start = Infinity;
+  let end = -Infinity;
+  // Sums in integer minor units, converted once at the end so totals reconcile
+  let totalMinor = 0;
+  const exponent = currencyExponent(transactions.find((tx) => tx.baseCurrency)?.baseCurrency);
+
+  const touch = (id: string, amountMinor: number) => {
+    let v = volumes.get(id);
+    if (!v) {
+      v = { account_id: id, volume: 0, transactions: 0 };
+      volumes.set(id, v);
+      counterparties.set(id, 0);
+    }
+    v.volume += amountMinor; // converted below
+    v.transactions++;
+  };
+
+  transactions.forEach((tx, i) => {
+    amounts[i] = tx.amount;
+    totalMinor += tx.amountMinor;
+    if (tx.timestampMs < start) start = tx.timestampMs;
+    if (tx.timestampMs > end) end = tx.timestampMs;
+    if (tx.timestampMs > now) futureDated.push(tx.transaction_id);
+    if (isReversalEntry(tx) || tx.status === 'reversed') reversals.push(tx.transaction_id);
+
+    touch(tx.sender_id, tx.amountMinor);
+    if (tx.sender_id === tx.receiver_id) {
+      selfTransfers.push(tx.transaction_id);
+      return;
+    }
+    touch(tx.receiver_id, tx.amountMinor);
+    counterparties.set(tx.sender_id, counterparties.get(tx.sender_id)! + 1);
+    counterparties.set(tx.receiver_id, counterparties.get(tx.receiver_id)! + 1);
+  });
+
+  // No counterparty: only self-transfers, or listed in master data but never transacting
+  const zeroDegree = Array.from(counterparties).filter(([, n]) => n === 0).map(([id]) => id);
+  for (const id of accounts?.keys() ?? []) {
+    if (!volumes.has(id)) zeroDegree.push(id);
+  }
+
+  for (const v of volumes.values()) v.volume = fromMinorUnits(v.volume, exponent);
+  const total = fromMinorUnits(totalMinor, exponent);
+
+  amounts.sort();
+  const topAccounts = Array.from(volumes.values())
+    .sort((a, b) => b.volume - a.volume)
+    .slice(0, TOP_ACCOUNTS);
+
+  const columnNulls: ColumnNullRate[] = (ingestion?.files ?? []).flatMap((file) =>
+    Object.entries(file.columnNulls ?? {}).map(([column, nulls]) => ({
+      file: file.name,
+      column,
+      nulls,
+      rate: file.rowsRead > 0 ? nulls / file.rowsRead : 0,
+    }))
+  );
+
+  return {
+    rowsRead: ingestion?.rowsRead ?? transactions.length,
+    transactions: transactions.length,
+    rowsRejected: ingestion?.rowsRejected ?? 0,
+    duplicatesRemoved: ingestion?.duplicates.removed ?? 0,
+    accounts: volumes.size,
+    timeRange: transactions.length > 0 ? { start, end } : null,
+    amounts: transactions.length > 0
+      ? {
+          min: amounts[0],
+          max: amounts[amounts.length - 1],
+          mean: total / amounts.length,
+          median: quantile(amounts, 0.5),
+          p95: quantile(amounts, 0.95),
+          total,
+          buckets: amountBuckets(amounts),
+        }
+      : null,
+    selfTransfers: anomaly(selfTransfers),
+    zeroDegree: anomaly(zeroDegree),
+    futureDated: anomaly(futureDated),
+    reversals: anomaly(reversals),
+    topAccounts,
+    columnNulls,
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DetectionConfig } from '@/types';
+import { analyzeTransactions } from './graphAnalysis';
+import { DEFAULT_DETECTION_CONFIG, loadAllowlist, saveAllowlist, validateDetectionConfig } from './detectionConfig';
+
+const withCycles = (cycles: Partial<DetectionConfig['cycles']>): DetectionConfig => ({
+  ...DEFAULT_DETECTION_CONFIG,
+  cycles: { ...DEFAULT_DETECTION_CONFIG.cycles, ...cycles },
+});
+
+const fields = (config: DetectionConfig) => validateDetectionConfig(config).map((e) => e.field);
+
+describe('validateDetectionConfig', () => {
+  it('accepts the defaults', () => {
+    expect(validateDetectionConfig(DEFAULT_DETECTION_CONFIG)).toEqual([]);
+  });
+
+  it('takes cycle lengths from 2 to 10 only', () => {
+    expect(fields(withCycles({ minLength: 2, maxLength: 10 }))).toEqual([]);
+    expect(fields(withCycles({ minLength: 1 }))).toEqual(['cycles.minLength']);
+    expect(fields(withCycles({ maxLength: 11 }))).toEqual(['cycles.maxLength']);
+    expect(fields(withCycles({ minLength: 6, maxLength: 5 }))).toEqual(['cycles.maxLength']);
+  });
+
+  it('rejects fractions where a count is expected, and NaN anywhere', () => {
+    expect(fields(withCycles({ minLength: 3.5 }))).toEqual(['cycles.minLength']);
+    expect(fields(withCycles({ maxLength: 4.5 }))).toEqual(['cycles.maxLength']);
+    expect(fields(withCycles({ minLength: NaN }))).toEqual(['cycles.minLength', 'cycles.maxLength']);
+    expect(fields(withCycles({ maxCycles: 99.5 }))).toEqual(['cycles.maxCycles']);
+    expect(fields(withCycles({ timeBudgetSeconds: NaN }))).toEqual(['cycles.timeBudgetSeconds']);
+    expect(fields({ ...DEFAULT_DETECTION_CONFIG, conservation: { tolerance: NaN } })).toEqual(['conservation.tolerance']);
+    expect(fields({ ...DEFAULT_DETECTION_CONFIG, scores: { ...DEFAULT_DETECTION_CONFIG.scores, cycle: NaN } })).toEqual(['scores.cycle']);
+  });
+
+  it('names the field in each message', () => {
+    expect(validateDetectionConfig(withCycles({ maxLength: 11 }))).toEqual([
+      { field: 'cycles.maxLength', message: 'cycles.maxLength: must be a whole number from cycles.minLength to 10' },
+    ]);
+  });
+});
+
+describe('analyzeTransactions', () => {
+  it('refuses to run on invalid settings', () => {
+    expect(() => analyzeTransactions([], withCycles({ minLength: 1, timeBudgetSeconds: 0 }))).toThrow(
+      'Invalid detection settings: cycles.minLength: must be a whole number from 2 to 10; cycles.timeBudgetSeconds: must be a number above 0'
+    );
+  });
+});
+
+describe('allowlist storage', () => {
+  const KEY = 'pathproof.allowlist';
+
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('round-trips the allowlist', () => {
+    saveAllowlist([{ account_id: 'ACC-1', note: 'payroll' }]);
+
+    expect(loadAllowlist()).toEqual([{ account_id: 'ACC-1', note: 'payroll' }]);
+  });
+
+  it('starts empty when the stored value is corrupt', () => {
+    localStorage.setItem(KEY, '[{"account_id": "ACC-1"');
+    expect(loadAllowlist()).toEqual([]);
+
+    localStorage.setItem(KEY, '{"account_id": "ACC-1"}');
+    expect(loadAllowlist()).toEqual([]);
+  });
+
+  it('drops entries without an account ID', () => {
+    localStorage.setItem(KEY, JSON.stringify([null, { note: 'x' }, { account_id: '' }, { account_id: 7 }, { account_id: 'ACC-2' }]));
+
+    expect(loadAllowlist()).toEqual([{ account_id: 'ACC-2' }]);
+  });
+
+  it('carries on when storage is unavailable', () => {
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+    vi.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+      throw new DOMException('Access denied', 'SecurityError');
+    });
+
+    expect(() => saveAllowlist([{ account_id: 'ACC-1' }])).not.toThrow();
+    expect(loadAllowlist()).toEqual([]);
+  });
+});
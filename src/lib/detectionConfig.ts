@@ -0,0 +1,201 @@
+import { AllowlistEntry, DetectionConfig, ScoredPattern, ValidationError } from '@/types';
+import { CHANNELS } from './channels';
+import { DEFAULT_REVERSAL_POLICY, REVERSAL_POLICY_LABELS } from './reversals';
+
+// =============================================
+// Detection Configuration
+// =============================================
+// Every threshold the detectors use, in the units an analyst thinks in
+// (hours, days, counts). The defaults are the values the engine has always
+// shipped with; a run records the config it used so a report can be reproduced.
+
+export const DEFAULT_DETECTION_CONFIG: DetectionConfig = {
+  cycles: { minLength: 3, maxLength: 5, maxCycles: 10_000, timeBudgetSeconds: 5 },
+  // Off by default: a cycle counts whatever order its transactions came in
+  temporalCycles: { enabled: false, maxHopHours: 72, windowHours: 720 },
+  // A mule commission is a few percent per hop
+  conservation: { tolerance: 0.1 },
+  smurfing: { threshold: 10, windowHours: 72 },
+  shellChains: { minHops: 3, maxTransactions: 3 },
+  velocity: { minTransactions: 20, windowHours: 24 },
+  newAccounts: { minSenders: 10, maxAgeDays: 90 },
+  scores: { cycle: 40, fanIn: 25, fanOut: 25, shell: 20, velocity: 10, newAccount: 25, conservation: 15 },
+  // Card purchases at a merchant are ordinary fan-in, so they don't count as
+  // smurfing and barely count as velocity
+  channelWeights: {
+    smurfing: { cash_deposit: 1, wire: 1, ach: 1, crypto: 1, atm: 0.5, card: 0 },
+    velocity: { cash_deposit: 1, wire: 1, ach: 1, crypto: 1, atm: 0.5, card: 0.1 },
+  },
+  reversalPolicy: DEFAULT_REVERSAL_POLICY,
+  suppression: {
+    payroll: { enabled: true, minTransactions: 10, maxVariation: 0.05 },
+    merchant: { enabled: true, minPayers: 50, minCardShare: 0.8, maxPayerShare: 0.05 },
+  },
+  allowlist: [],
+};
+
+// Search bounds. A 2-account cycle is a round trip; past 10 accounts the
+// cycle count on a dense component outgrows any cap worth reporting. The
+// shell-chain BFS stops finishing on real graphs past 7 hops.
+export const MIN_CYCLE_LENGTH = 2;
+export const MAX_CYCLE_LENGTH = 10;
+export const MAX_SHELL_HOPS = 7;
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+// =============================================
+// Validation
+// =============================================
+const isInteger = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+export function validateDetectionConfig(config: DetectionConfig): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const check = (ok: boolean, field: string, message: string) => {
+    if (!ok) errors.push({ field, message: `${field}: ${message}` });
+  };
+  const positiveInteger = (value: unknown, field: string) =>
+    check(isInteger(value) && value >= 1, field, 'must be a whole number of at least 1');
+  const positiveNumber = (value: unknown, field: string) =>
+    check(isNumber(value) && value > 0, field, 'must be a number above 0');
+  const share = (value: unknown, field: string) =>
+    check(isNumber(value) && value >= 0 && value <= 1, field, 'must be from 0 to 1');
+
+  const { cycles, smurfing, shellChains, velocity, newAccounts } = config;
+  check(
+    isInteger(cycles?.minLength) && cycles.minLength >= MIN_CYCLE_LENGTH && cycles.minLength <= MAX_CYCLE_LENGTH,
+    'cycles.minLength',
+    `must be a whole number from ${MIN_CYCLE_LENGTH} to ${MAX_CYCLE_LENGTH}`
+  );
+  check(
+    isInteger(cycles?.maxLength) && cycles.maxLength >= cycles.minLength && cycles.maxLength <= MAX_CYCLE_LENGTH,
+    'cycles.maxLength',
+    `must be a whole number from cycles.minLength to ${MAX_CYCLE_LENGTH}`
+  );
+  positiveInteger(cycles?.maxCycles, 'cycles.maxCycles');
+  positiveNumber(cycles?.timeBudgetSeconds, 'cycles.timeBudgetSeconds');
+  positiveNumber(config.temporalCycles?.maxHopHours, 'temporalCycles.maxHopHours');
+  positiveNumber(config.temporalCycles?.windowHours, 'temporalCycles.windowHours');
+  share(config.conservation?.tolerance, 'conservation.tolerance');
+  positiveNumber(smurfing?.threshold, 'smurfing.threshold');
+  positiveNumber(smurfing?.windowHours, 'smurfing.windowHours');
+  check(
+    isInteger(shellChains?.minHops) && shellChains.minHops >= 2 && shellChains.minHops <= MAX_SHELL_HOPS,
+    'shellChains.minHops',
+    `must be a whole number from 2 to ${MAX_SHELL_HOPS}`
+  );
+  check(
+    isInteger(shellChains?.maxTransactions) && shellChains.maxTransactions >= 2,
+    'shellChains.maxTransactions',
+    'must be a whole number of at least 2'
+  );
+  positiveNumber(velocity?.minTransactions, 'velocity.minTransactions');
+  positiveNumber(velocity?.windowHours, 'velocity.windowHours');
+  positiveInteger(newAccounts?.minSenders, 'newAccounts.minSenders');
+  positiveNumber(newAccounts?.maxAgeDays, 'newAccounts.maxAgeDays');
+
+  for (const pattern of Object.keys(DEFAULT_DETECTION_CONFIG.scores) as ScoredPattern[]) {
+    const score = config.scores?.[pattern];
+    check(isNumber(score) && score >= 0 && score <= 100, `scores.${pattern}`, 'must be from 0 to 100');
+  }
+  for (const detector of ['smurfing', 'velocity'] as const) {
+    for (const channel of CHANNELS) {
+      const weight = config.channelWeights?.[detector]?.[channel];
+      check(isNumber(weight) && weight >= 0 && weight <= 1, `channelWeights.${detector}.${channel}`, 'must be from 0 to 1');
+    }
+  }
+  const { payroll, merchant } = config.suppression ?? {};
+  check(
+    isInteger(payroll?.minTransactions) && payroll.minTransactions >= 2,
+    'suppression.payroll.minTransactions',
+    'must be a whole number of at least 2'
+  );
+  share(payroll?.maxVariation, 'suppression.payroll.maxVariation');
+  positiveInteger(merchant?.minPayers, 'suppression.merchant.minPayers');
+  share(merchant?.minCardShare, 'suppression.merchant.minCardShare');
+  share(merchant?.maxPayerShare, 'suppression.merchant.maxPayerShare');
+  (config.allowlist ?? []).forEach((entry, i) =>
+    check(typeof entry?.account_id === 'string' && entry.account_id.trim() !== '', `allowlist.${i}`, 'account ID is empty')
+  );
+  check(config.reversalPolicy in REVERSAL_POLICY_LABELS, 'reversalPolicy', `must be one of ${Object.keys(REVERSAL_POLICY_LABELS).join(', ')}`);
+  return errors;
+}
+
+// =============================================
+// Export
+// =============================================
+// snake_case like the rest of the report
+export function exportDetectionConfig(config: DetectionConfig) {
+  return {
+    cycles: {
+      min_length: config.cycles.minLength,
+      max_length: config.cycles.maxLength,
+      max_cycles: config.cycles.maxCycles,
+      time_budget_seconds: config.cycles.timeBudgetSeconds,
+    },
+    temporal_cycles: {
+      enabled: config.temporalCycles.enabled,
+      max_hop_hours: config.temporalCycles.maxHopHours,
+      window_hours: config.temporalCycles.windowHours,
+    },
+    amount_conservation: { tolerance: config.conservation.tolerance },
+    smurfing: { threshold: config.smurfing.threshold, window_hours: config.smurfing.windowHours },
+    shell_chains: { min_hops: config.shellChains.minHops, max_transactions: config.shellChains.maxTransactions },
+    velocity: { min_transactions: config.velocity.minTransactions, window_hours: config.velocity.windowHours },
+    new_accounts: { min_senders: config.newAccounts.minSenders, max_age_days: config.newAccounts.maxAgeDays },
+    scores: {
+      cycle: config.scores.cycle,
+      fan_in: config.scores.fanIn,
+      fan_out: config.scores.fanOut,
+      shell_chain: config.scores.shell,
+      high_velocity: config.scores.velocity,
+      new_account_inflow: config.scores.newAccount,
+      amount_conserved: config.scores.conservation,
+    },
+    channel_weights: {
+      smurfing: { ...config.channelWeights.smurfing },
+      velocity: { ...config.channelWeights.velocity },
+    },
+    reversal_policy: config.reversalPolicy,
+    suppression: {
+      payroll: {
+        enabled: config.suppression.payroll.enabled,
+        min_transactions: config.suppression.payroll.minTransactions,
+        max_variation: config.suppression.payroll.maxVariation,
+      },
+      merchant: {
+        enabled: config.suppression.merchant.enabled,
+        min_payers: config.suppression.merchant.minPayers,
+        min_card_share: config.suppression.merchant.minCardShare,
+        max_payer_share: config.suppression.merchant.maxPayerShare,
+      },
+    },
+    allowlist: config.allowlist.map((e) => ({ account_id: e.account_id, ...(e.note ? { note: e.note } : {}) })),
+  };
+}
+
+// =============================================
+// Allowlist (localStorage)
+// =============================================
+// Known-legitimate accounts outlive a session; thresholds reset with the page
+const ALLOWLIST_STORAGE_KEY = 'pathproof.allowlist';
+
+export function loadAllowlist(): AllowlistEntry[] {
+  try {
+    const raw = localStorage.getItem(ALLOWLIST_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((e) => typeof e?.account_id === 'string' && e.account_id) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveAllowlist(allowlist: AllowlistEntry[]): void {
+  try {
+    localStorage.setItem(ALLOWLIST_STORAGE_KEY, JSON.stringify(allowlist));
+  } catch {
+    // Storage unavailable (private mode / quota) — the allowlist just won't persist
+  }
+}
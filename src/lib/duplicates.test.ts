@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { Transaction } from '@/types';
+import { resolveDuplicates } from './duplicates';
+
+const base = Date.parse('2024-03-01T00:00:00Z');
+const tx = (id: string, amountMinor: number, extra: Partial<Transaction> = {}): Transaction => ({
+  transaction_id: id,
+  sender_id: 'A',
+  receiver_id: 'B',
+  amount: amountMinor / 100,
+  amountMinor,
+  timestamp: new Date(base).toISOString(),
+  timestampMs: base,
+  ...extra,
+});
+
+// T1 re-exported as is, T2 seen with two different amounts, T3 unique
+const overlapping = [tx('T1', 100), tx('T2', 200), tx('T1', 100), tx('T2', 250), tx('T3', 300), tx('T2', 200)];
+const ids = (transactions: Transaction[]) => transactions.map((t) => `${t.transaction_id}:${t.amountMinor}`);
+
+describe('resolveDuplicates', () => {
+  it('keeps the first record of each ID under keep_first', () => {
+    const { transactions, report, errors } = resolveDuplicates(overlapping, 'keep_first');
+
+    expect(ids(transactions)).toEqual(['T1:100', 'T2:200', 'T3:300']);
+    expect(errors).toEqual([]);
+    expect(report).toEqual({
+      policy: 'keep_first',
+      exactDuplicates: 2,
+      conflictingIds: 1,
+      conflictingRecords: 1,
+      removed: 3,
+      sampleConflictIds: ['T2'],
+    });
+  });
+
+  it('removes exact copies and every record of a conflicting ID under drop', () => {
+    const { transactions, report } = resolveDuplicates(overlapping, 'drop');
+
+    expect(ids(transactions)).toEqual(['T1:100', 'T3:300']);
+    expect(report).toMatchObject({ exactDuplicates: 2, conflictingIds: 1, removed: 4 });
+  });
+
+  it('fails the ingest on any repeat under fail', () => {
+    const { transactions, errors } = resolveDuplicates(overlapping, 'fail');
+
+    expect(transactions).toEqual([]);
+    expect(errors.map((e) => e.message)).toEqual([
+      'Duplicate transaction_id values: 2 exact duplicates, 1 IDs with conflicting content.',
+      'transaction_id "T2" appears with different sender/receiver/amount/timestamp',
+      'transaction_id "T1" is repeated',
+      'transaction_id "T2" is repeated',
+    ]);
+    expect(resolveDuplicates([tx('T1', 100), tx('T2', 100)], 'fail').errors).toEqual([]);
+  });
+
+  it('treats the two legs of a transfer under one ID as a conflict, not a copy', () => {
+    // Both statements of an internal transfer report it, one as outbound and one as inbound
+    const legs = [tx('T1', 100, { direction: 'outbound' }), tx('T1', 100, { direction: 'inbound' })];
+
+    expect(resolveDuplicates(legs, 'keep_first').report).toMatchObject({ exactDuplicates: 0, conflictingIds: 1 });
+    expect(resolveDuplicates(legs, 'drop').transactions).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+import { DuplicatePolicy, DuplicateReport, Transaction, ValidationError } from '@/types';
+
+// =============================================
+// Duplicate / Conflicting transaction_id Detection
+// =============================================
+// exact duplicate: same transaction_id and same content (overlapping re-exports)
+// conflict:        same transaction_id, different content
+//                  (direction counts: the outbound and inbound legs of one
+//                  transfer, reported from both ends, conflict rather than
+//                  collapse silently — the policy picks one leg or drops
+//                  both, so the transfer is never counted twice)
+//
+// drop       — extra exact copies removed; every record of a conflicting ID removed
+// keep_first — first occurrence of each ID kept, later ones removed
+// fail       — any duplicate or conflict fails the ingest
+
+export const DEFAULT_DUPLICATE_POLICY: DuplicatePolicy = 'keep_first';
+
+const MAX_SAMPLE_IDS = 10;
+
+function sameContent(a: Transaction, b: Transaction): boolean {
+  return (
+    a.sender_id === b.sender_id &&
+    a.receiver_id === b.receiver_id &&
+    a.amountMinor === b.amountMinor &&
+    a.timestampMs === b.timestampMs &&
+    a.currency === b.currency &&
+    a.channel === b.channel &&
+    a.direction === b.direction &&
+    a.status === b.status &&
+    a.reverses_transaction_id === b.reverses_transaction_id &&
+    a.originalAmountMinor === b.originalAmountMinor
+  );
+}
+
+export function emptyDuplicateReport(policy: DuplicatePolicy = DEFAULT_DUPLICATE_POLICY): DuplicateReport {
+  return { policy, exactDuplicates: 0, conflictingIds: 0, conflictingRecords: 0, removed: 0, sampleConflictIds: [] };
+}
+
+export function resolveDuplicates(
+  transactions: Transaction[],
+  policy: DuplicatePolicy = DEFAULT_DUPLICATE_POLICY
+): { transactions: Transaction[]; report: DuplicateReport; errors: ValidationError[] } {
+  const firstIndex = new Map<string, number>();
+  const keep = new Uint8Array(transactions.length).fill(1);
+  const conflictIds = new Set<string>();
+  const exactIds = new Set<string>();
+  let exactDuplicates = 0;
+  let conflictingRecords = 0;
+
+  transactions.forEach((tx, i) => {
+    const first = firstIndex.get(tx.transaction_id);
+    if (first === undefined) {
+      firstIndex.set(tx.transaction_id, i);
+      return;
+    }
+    keep[i] = 0;
+    if (sameContent(transactions[first], tx)) {
+      exactDuplicates++;
+      exactIds.add(tx.transaction_id);
+    } else {
+      conflictingRecords++;
+      conflictIds.add(tx.transaction_id);
+    }
+  });
+
+  const report: DuplicateReport = {
+    policy,
+    exactDuplicates,
+    conflictingIds: conflictIds.size,
+    conflictingRecords,
+    removed: 0,
+    sampleConflictIds: Array.from(conflictIds).slice(0, MAX_SAMPLE_IDS),
+  };
+
+  if (policy === 'fail' && (exactDuplicates > 0 || conflictIds.size > 0)) {
+    const errors: ValidationError[] = [
+      {
+        field: 'transaction_id',
+        message: `Duplicate transaction_id values: ${exactDuplicates.toLocaleString()} exact duplicates, ${conflictIds.size.toLocaleString()} IDs with conflicting content.`,
+      },
+      ...Array.from(conflictIds).slice(0, MAX_SAMPLE_IDS).map((id) => ({
+        field: 'transaction_id',
+        message: `transaction_id "${id}" appears with different sender/receiver/amount/timestamp`,
+      })),
+      ...Array.from(exactIds).slice(0, MAX_SAMPLE_IDS).map((id) => ({
+        field: 'transaction_id',
+        message: `transaction_id "${id}" is repeated`,
+      })),
+    ];
+    return { transactions: [], report, errors };
+  }
+
+  if (policy === 'drop') {
+    transactions.forEach((tx, i) => {
+      if (conflictIds.has(tx.transaction_id)) keep[i] = 0;
+    });
+  }
+
+  const kept = transactions.filter((_, i) => keep[i] === 1);
+  report.removed = transactions.length - kept.length;
+  return { transactions: kept, report, errors: [] };
+}
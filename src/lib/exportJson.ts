@@ -1,23 +1,104 @@
-import { AnalysisResult } from '@/types';
+import { AccountAttributes, AnalysisResult } from '@/types';
+import { currencyExponent, fromMinorUnits } from './money';
+import { exportDetectionConfig } from './detectionConfig';
 
+// Open dates go out as YYYY-MM-DD rather than epoch ms
+function exportAttributes(attributes: AccountAttributes) {
+  const { open_date, ...rest } = attributes;
+  return open_date === undefined ? rest : { ...rest, open_date: new Date(open_date).toISOString().slice(0, 10) };
+}
+
+// Every amount is written from integer minor units, so exported figures sum
+// to the same totals as the source ledger
 export function buildExportPayload(result: AnalysisResult) {
+  const exponent = currencyExponent(result.baseCurrency);
+  const money = (minor: number) => fromMinorUnits(minor, exponent);
   return {
     suspicious_accounts: result.suspicious_accounts.map((acc) => ({
       account_id: acc.account_id,
       suspicion_score: acc.suspicion_score,
       detected_patterns: acc.detected_patterns,
+      total_sent: money(result.nodes.get(acc.account_id)?.totalSentMinor ?? 0),
+      total_received: money(result.nodes.get(acc.account_id)?.totalReceivedMinor ?? 0),
       ...(acc.ring_id ? { ring_id: acc.ring_id } : {}),
+      ...(acc.party ? { party: acc.party } : {}),
+      ...(acc.attributes ? { attributes: exportAttributes(acc.attributes) } : {}),
     })),
     fraud_rings: result.fraud_rings.map((ring) => ({
       ring_id: ring.ring_id,
       member_accounts: ring.member_accounts,
       pattern_type: ring.pattern_type,
       risk_score: ring.risk_score,
+      ...(ring.loops
+        ? {
+            loops: ring.loops.map((loop) => ({
+              accounts: loop.accounts,
+              transaction_ids: loop.transaction_ids,
+              started_at: new Date(loop.started_at).toISOString(),
+              closed_at: new Date(loop.closed_at).toISOString(),
+            })),
+          }
+        : {}),
+      ...(ring.amount_flow ? { amount_flow: ring.amount_flow } : {}),
     })),
-    summary: { ...result.summary },
+    summary: { ...result.summary, ...(result.baseCurrency ? { base_currency: result.baseCurrency } : {}) },
+    reversal_handling: {
+      policy: result.reversals.policy,
+      reversal_entries: result.reversals.reversalEntries,
+      unmatched_reversals: result.reversals.unmatched,
+      originals_removed: result.reversals.originalsRemoved,
+      originals_reduced: result.reversals.originalsReduced,
+      volume_removed: money(result.reversals.volumeRemovedMinor),
+    },
+    cycle_search: {
+      cycles_found: result.cycleSearch.cyclesFound,
+      components: result.cycleSearch.components,
+      accounts_in_components: result.cycleSearch.accountsInComponents,
+      truncated: result.cycleSearch.truncated ?? null,
+      ...(result.cycleSearch.inTimeOrder !== undefined ? { in_time_order: result.cycleSearch.inTimeOrder } : {}),
+    },
+    // Flags the false-positive filters removed, with the evidence
+    suppressed_accounts: result.suppressions.map((s) => ({
+      account_id: s.account_id,
+      reason: s.reason,
+      detail: s.detail,
+      suppressed_patterns: s.suppressed_patterns,
+      score_before: s.score_before,
+    })),
+    // Thresholds and weights of this run, so the report can be reproduced
+    detection_config: exportDetectionConfig(result.config),
+    // Transactions touching a flagged account, with pre-FX amounts where converted
+    flagged_transactions: flaggedTransactions(result, money),
   };
 }
 
+function flaggedTransactions(result: AnalysisResult, money: (minor: number) => number) {
+  const flagged = new Set(result.suspicious_accounts.map((a) => a.account_id));
+  return result.edges
+    .filter((e) => flagged.has(e.source) || flagged.has(e.target))
+    .map((e) => ({
+      transaction_id: e.transactionId,
+      sender_id: e.source,
+      receiver_id: e.target,
+      amount: money(e.amountMinor),
+      timestamp: new Date(e.timestamp).toISOString(),
+      ...(e.currency
+        ? { original_amount: fromMinorUnits(e.originalAmountMinor!, currencyExponent(e.currency)), currency: e.currency }
+        : {}),
+      ...(e.channel ? { channel: e.channel } : {}),
+      ...(e.direction ? { direction: e.direction } : {}),
+      ...(e.sourceFile ? { source_file: e.sourceFile } : {}),
+      ...(e.metadata ? { metadata: e.metadata } : {}),
+      ...(e.balances ? { balances_after: statementBalances(e.balances, e.currency ?? result.baseCurrency) } : {}),
+    }));
+}
+
+// Balances are kept in minor units of the statement currency
+function statementBalances(balances: Record<string, number>, currency?: string) {
+  const exponent = currencyExponent(currency);
+  return Object.fromEntries(Object.entries(balances).map(([account, minor]) => [account, fromMinorUnits(minor, exponent)]));
+}
+
 export function downloadJSON(result: AnalysisResult, filename = 'fraud_detection_report.json') {
   const payload = buildExportPayload(result);
   const json = JSON.stringify(payload, null, 2);
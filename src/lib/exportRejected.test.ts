@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import Papa from 'papaparse';
+import { parseCSV } from './csvParser';
+import { buildRejectedRowsCSV } from './exportRejected';
+
+const csvFile = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  return {
+    name: 'transfers.csv',
+    size: bytes.length,
+    slice: (start: number, end: number) => ({ arrayBuffer: async () => bytes.slice(start, end).buffer }),
+  } as unknown as File;
+};
+
+const rows = (csv: string) => Papa.parse<string[]>(csv.trim()).data;
+
+describe('partial-mode ingest', () => {
+  it('keeps valid rows and quarantines each invalid row with its reason', async () => {
+    const result = await parseCSV(
+      csvFile(
+        [
+          'transaction_id,sender_id,receiver_id,amount,timestamp',
+          'T1,A,B,10.00,2024-03-01',
+          'T2,A,,5.00,2024-03-01',
+          'T3,B,C,abc,2024-03-02',
+          'T4,C,A,7.50,2024-03-03',
+          'T5,C,A,1.00,someday',
+        ].join('\n')
+      ),
+      { mode: 'partial' }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.transactions.map((t) => t.transaction_id)).toEqual(['T1', 'T4']);
+    expect(result.rejected?.map((r) => [r.row, r.field])).toEqual([
+      [3, 'receiver_id'],
+      [4, 'amount'],
+      [6, 'timestamp'],
+    ]);
+    expect(result.rejected?.[1].values).toEqual({ transaction_id: 'T3', sender_id: 'B', receiver_id: 'C', amount: 'abc', timestamp: '2024-03-02' });
+    expect(result.errors).toHaveLength(3);
+  });
+
+  it('fails when every row is rejected', async () => {
+    const result = await parseCSV(csvFile('transaction_id,sender_id,receiver_id,amount,timestamp\nT1,A,B,x,2024-03-01\n'), { mode: 'partial' });
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0].message).toBe('No valid rows — all 1 rows were rejected.');
+    expect(result.rejected).toHaveLength(1);
+  });
+});
+
+describe('buildRejectedRowsCSV', () => {
+  it('writes the quarantine columns, then every source column in first-seen order', () => {
+    const csv = buildRejectedRowsCSV([
+      { row: 3, field: 'amount', reason: 'Row 3: bad amount', values: { id: 'T2', amount: 'abc' }, sourceFile: 'bank_a.csv' },
+      { row: 7, reason: 'Row 7: not a valid JSON object', values: { record: '{"id":' } },
+      { row: 9, field: 'timestamp', reason: 'Row 9: bad date', values: { amount: '1', booked: '31/02/2024' }, sourceFile: 'bank_b.csv' },
+    ]);
+
+    expect(rows(csv)).toEqual([
+      ['source_file', 'row', 'field', 'reason', 'id', 'amount', 'record', 'booked'],
+      ['bank_a.csv', '3', 'amount', 'Row 3: bad amount', 'T2', 'abc', '', ''],
+      ['', '7', '', 'Row 7: not a valid JSON object', '', '', '{"id":', ''],
+      ['bank_b.csv', '9', 'timestamp', 'Row 9: bad date', '', '1', '', '31/02/2024'],
+    ]);
+  });
+
+  it('quotes values that hold delimiters, quotes or line breaks', () => {
+    const values = { memo: 'rent, "March"\nsecond line' };
+    const csv = buildRejectedRowsCSV([{ row: 2, reason: 'Row 2: missing sender_id', values }]);
+
+    expect(rows(csv)[1][4]).toBe(values.memo);
+  });
+});
@@ -0,0 +1,38 @@
+import Papa from 'papaparse';
+import { RejectedRow } from '@/types';
+
+// Quarantine report: source file, row number, failing field and reason, then the original columns
+export function buildRejectedRowsCSV(rejected: RejectedRow[]): string {
+  const sourceColumns: string[] = [];
+  const seen = new Set<string>();
+  for (const r of rejected) {
+    for (const key of Object.keys(r.values)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        sourceColumns.push(key);
+      }
+    }
+  }
+
+  const fields = ['source_file', 'row', 'field', 'reason', ...sourceColumns];
+  const data = rejected.map((r) => [
+    r.sourceFile ?? '',
+    r.row,
+    r.field ?? '',
+    r.reason,
+    ...sourceColumns.map((c) => r.values[c] ?? ''),
+  ]);
+  return Papa.unparse({ fields, data });
+}
+
+export function downloadRejectedRowsCSV(rejected: RejectedRow[], filename = 'rejected_rows.csv') {
+  const blob = new Blob([buildRejectedRowsCSV(rejected)], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { FxRateTable } from '@/types';
+import { createFxConverter, parseFxRates } from './fxRates';
+
+const at = (date: string) => Date.parse(`${date}T12:00:00Z`);
+const table = (extra: Partial<FxRateTable> = {}): FxRateTable => ({ baseCurrency: 'USD', rates: {}, daily: {}, ...extra });
+
+describe('createFxConverter', () => {
+  it('converts minor units exactly, rounding once at the base minor unit', () => {
+    const convert = createFxConverter(table({ rates: { EUR: '1.0837', GBP: '1.15', CHF: '0.3' } }));
+
+    // Float multiplication gives 1337901222526.783 and 11500000000.057499 here
+    expect(convert(123_456_789_012_345, 'EUR', at('2024-03-01'))).toBe(133_790_122_252_678);
+    expect(convert(1_000_000_000_005, 'GBP', at('2024-03-01'))).toBe(1_150_000_000_006);
+    expect(convert(300_000_000_001, 'CHF', at('2024-03-01'))).toBe(90_000_000_000);
+    expect(convert(-1, 'CHF', at('2024-03-01'))).toBe(0);
+    expect(convert(-5, 'CHF', at('2024-03-01'))).toBe(-2);
+  });
+
+  it('moves between currency exponents', () => {
+    const convert = createFxConverter(table({ rates: { JPY: '0.0067', KWD: '3.25' } }));
+
+    expect(convert(1_000, 'JPY', at('2024-03-01'))).toBe(670);
+    expect(convert(1_234, 'KWD', at('2024-03-01'))).toBe(401);
+    expect(createFxConverter(table({ baseCurrency: 'JPY', rates: { USD: '149.5' } }))(1_001, 'USD', at('2024-03-01'))).toBe(1_496);
+  });
+
+  it('prefers the rate of the day, then the latest earlier day, then the static rate', () => {
+    const convert = createFxConverter(
+      table({
+        rates: { EUR: '1.05' },
+        daily: { '2024-03-01': { EUR: '1.08', GBP: '1.26' }, '2024-03-04': { GBP: '1.27' }, '2024-03-05': { EUR: '1.09' } },
+      })
+    );
+
+    expect(convert(100, 'EUR', at('2024-03-05'))).toBe(109);
+    expect(convert(100, 'EUR', at('2024-03-04'))).toBe(108);
+    expect(convert(100, 'EUR', at('2024-02-29'))).toBe(105);
+    expect(convert(100, 'GBP', at('2024-03-10'))).toBe(127);
+  });
+
+  it('returns null without a rate for the currency or the date', () => {
+    const convert = createFxConverter(table({ rates: { EUR: '1.08' }, daily: { '2024-03-01': { GBP: '1.26' } } }));
+
+    expect(convert(100, 'CHF', at('2024-03-01'))).toBeNull();
+    expect(convert(100, 'GBP', at('2024-02-29'))).toBeNull();
+    expect(convert(100, 'USD', at('2024-02-29'))).toBe(100);
+  });
+});
+
+describe('parseFxRates', () => {
+  it('keeps rates as written and rejects rows it cannot apply', async () => {
+    const csv = ['date,currency,rate', ',eur,1.0837', '2024-03-01,GBP,1.26', ',CHF,-0.9', ',JPY,1e-2', '01.03.2024,SEK,0.095', ',XX,1'].join('\n');
+    const { table: parsed, errors } = await parseFxRates(new File([csv], 'fx.csv'), 'usd');
+
+    expect(parsed).toEqual({ baseCurrency: 'USD', rates: { EUR: '1.0837' }, daily: { '2024-03-01': { GBP: '1.26' } } });
+    expect(errors.map((e) => [e.row, e.field])).toEqual([
+      [4, 'rate'],
+      [5, 'rate'],
+      [6, 'date'],
+      [7, 'currency'],
+    ]);
+  });
+});
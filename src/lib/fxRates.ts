@@ -0,0 +1,154 @@
+import Papa from 'papaparse';
+import { FxRateTable, ValidationError } from '@/types';
+import { currencyExponent } from './money';
+
+// =============================================
+// FX Rate Table
+// =============================================
+// Rates are "base units per 1 unit of currency". A table may hold static rates,
+// per-date rates, or both; per-date rates win and fall back to the latest earlier date.
+// Rates stay decimal text and are applied to minor units in BigInt, so a
+// conversion rounds once, to the base currency's minor unit.
+
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+const CURRENCY_REGEX = /^[A-Z]{3}$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const RATE_REGEX = /^(\d*)(?:\.(\d*))?$/;
+
+// A rate as an integer and a power of ten: "1.0837" → 10837n / 10^4
+interface ScaledRate {
+  units: bigint;
+  scale: number;
+}
+
+function scaledRate(text: string): ScaledRate | null {
+  const match = RATE_REGEX.exec(text.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+  const [, whole, fraction = ''] = match;
+  const units = BigInt(`${whole}${fraction}` || '0');
+  return units > 0n ? { units, scale: fraction.length } : null;
+}
+
+export function normalizeCurrency(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function isValidCurrency(code: string): boolean {
+  return CURRENCY_REGEX.test(code);
+}
+
+export function emptyFxTable(baseCurrency = DEFAULT_BASE_CURRENCY): FxRateTable {
+  return { baseCurrency, rates: {}, daily: {} };
+}
+
+function utcDateKey(timestampMs: number): string {
+  return new Date(timestampMs).toISOString().slice(0, 10);
+}
+
+// Minor units of `currency` → minor units of the base currency, or null without a rate
+export type FxConverter = (amountMinor: number, currency: string, timestampMs: number) => number | null;
+
+export function createFxConverter(table: FxRateTable): FxConverter {
+  const base = normalizeCurrency(table.baseCurrency);
+  const baseExponent = currencyExponent(base);
+  const dates = Object.keys(table.daily).sort();
+  const parsed = new Map<string, ScaledRate | null>();
+  const rateOf = (text: string | undefined): ScaledRate | null => {
+    if (text === undefined) return null;
+    if (!parsed.has(text)) parsed.set(text, scaledRate(text));
+    return parsed.get(text)!;
+  };
+
+  const dailyRate = (currency: string, dateKey: string): string | undefined => {
+    const exact = table.daily[dateKey]?.[currency];
+    if (exact !== undefined) return exact;
+    // Latest earlier date that quotes this currency
+    let lo = 0;
+    let hi = dates.length - 1;
+    let idx = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (dates[mid] <= dateKey) { idx = mid; lo = mid + 1; } else { hi = mid - 1; }
+    }
+    for (let i = idx; i >= 0; i--) {
+      const rate = table.daily[dates[i]][currency];
+      if (rate !== undefined) return rate;
+    }
+    return undefined;
+  };
+
+  return (amountMinor, currency, timestampMs) => {
+    if (currency === base) return amountMinor;
+    const rate = rateOf(dailyRate(currency, utcDateKey(timestampMs)) ?? table.rates[currency]);
+    if (!rate) return null;
+    // amountMinor / 10^from × units / 10^scale × 10^base, rounded half away from zero
+    const numerator = BigInt(amountMinor) * rate.units * 10n ** BigInt(baseExponent);
+    const denominator = 10n ** BigInt(rate.scale + currencyExponent(currency));
+    const quotient = numerator / denominator;
+    const remainder = numerator % denominator;
+    const twice = 2n * (remainder < 0n ? -remainder : remainder);
+    const rounded = twice >= denominator ? quotient + (numerator < 0n ? -1n : 1n) : quotient;
+    return Number(rounded);
+  };
+}
+
+// =============================================
+// FX Rate File (currency,rate  or  date,currency,rate)
+// =============================================
+export async function parseFxRates(
+  file: File,
+  baseCurrency: string
+): Promise<{ table: FxRateTable; errors: ValidationError[] }> {
+  const table = emptyFxTable(normalizeCurrency(baseCurrency));
+
+  return new Promise((resolve) => {
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (h) => h.trim().toLowerCase(),
+      complete: (result) => {
+        const errors: ValidationError[] = [];
+        const headers = result.meta.fields ?? [];
+        if (!headers.includes('currency') || !headers.includes('rate')) {
+          resolve({
+            table,
+            errors: [{ message: `FX file needs "currency" and "rate" columns (optional "date"). Found: ${headers.join(', ')}` }],
+          });
+          return;
+        }
+
+        (result.data as Record<string, string>[]).forEach((row, i) => {
+          const rowNum = i + 2;
+          const currency = normalizeCurrency(String(row.currency ?? ''));
+          const rate = String(row.rate ?? '').trim();
+          const date = String(row.date ?? '').trim();
+
+          if (!isValidCurrency(currency)) {
+            errors.push({ row: rowNum, field: 'currency', message: `FX row ${rowNum}: "${row.currency}" is not a 3-letter currency code` });
+            return;
+          }
+          if (!scaledRate(rate)) {
+            errors.push({ row: rowNum, field: 'rate', message: `FX row ${rowNum}: rate "${row.rate}" is not a valid positive number` });
+            return;
+          }
+          if (date && !DATE_REGEX.test(date)) {
+            errors.push({ row: rowNum, field: 'date', message: `FX row ${rowNum}: date "${date}" must be YYYY-MM-DD` });
+            return;
+          }
+
+          if (date) {
+            (table.daily[date] ??= {})[currency] = rate;
+          } else {
+            table.rates[currency] = rate;
+          }
+        });
+
+        resolve({ table, errors });
+      },
+      error: (err) => {
+        resolve({ table, errors: [{ message: `FX file parse error: ${err.message}` }] });
+      },
+    });
+  });
+}
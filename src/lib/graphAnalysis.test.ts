@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DetectionConfig, Transaction } from '@/types';
+import { analyzeTransactions } from './graphAnalysis';
+import { DEFAULT_DETECTION_CONFIG } from './detectionConfig';
+
+const base = Date.parse('2024-03-01T00:00:00Z');
+let counter = 0;
+const tx = (sender: string, receiver: string, amountMinor: number, hour: number): Transaction => ({
+  transaction_id: `T${++counter}`,
+  sender_id: sender,
+  receiver_id: receiver,
+  amount: amountMinor / 100,
+  amountMinor,
+  timestamp: new Date(base + hour * 3_600_000).toISOString(),
+  timestampMs: base + hour * 3_600_000,
+});
+
+const chain = (accounts: string[], amountsMinor: number[]) =>
+  amountsMinor.map((amount, i) => tx(accounts[i], accounts[i + 1], amount, i));
+
+const withCycles = (cycles: Partial<DetectionConfig['cycles']>): DetectionConfig => ({
+  ...DEFAULT_DETECTION_CONFIG,
+  cycles: { ...DEFAULT_DETECTION_CONFIG.cycles, ...cycles },
+});
+
+// Every ordered pair of the accounts, both ways: 6 two-cycles, 8 triangles and 6 four-cycles for 4 accounts
+const complete = (accounts: string[]) =>
+  accounts.flatMap((a, i) => accounts.filter((b) => b !== a).map((b, j) => tx(a, b, 100_000, i * accounts.length + j)));
+
+const conserved = (result: ReturnType<typeof analyzeTransactions>) =>
+  result.suspicious_accounts
+    .filter((a) => a.detected_patterns.includes('amount_conserved'))
+    .map((a) => a.account_id)
+    .sort();
+
+describe('amount conservation', () => {
+  it('does not count a hop that passes on more than it received', () => {
+    const result = analyzeTransactions(chain(['S', 'M1', 'M2', 'M3', 'D'], [100_000, 105_000, 110_000, 115_000]));
+
+    const ring = result.fraud_rings.find((r) => r.pattern_type === 'shell_chain')!;
+    expect(ring.amount_flow?.hop_retention.every((r) => r > 1)).toBe(true);
+    expect(ring.amount_flow?.conserved).toBe(false);
+    expect(conserved(result)).toEqual([]);
+  });
+
+  it('scores only the flow the ring reports, not every conserved cycle in it', () => {
+    // Two conserved cycles through A merge into one ring; the longer one is reported
+    const result = analyzeTransactions([
+      ...chain(['A', 'B', 'C', 'A'], [100_000, 96_000, 93_000]),
+      ...chain(['A', 'D', 'E', 'F', 'A'], [100_000, 98_000, 95_000, 92_000]),
+    ]);
+
+    expect(result.fraud_rings).toHaveLength(1);
+    const [ring] = result.fraud_rings;
+    expect(ring.amount_flow).toMatchObject({ accounts: ['A', 'D', 'E', 'F'], conserved: true });
+    expect(conserved(result)).toEqual(['A', 'D', 'E', 'F']);
+
+    const scores = new Map(result.suspicious_accounts.map((a) => [a.account_id, a.suspicion_score]));
+    const average = ['A', 'B', 'C', 'D', 'E', 'F'].reduce((sum, acc) => sum + scores.get(acc)!, 0) / 6;
+    expect(ring.risk_score).toBeCloseTo(average, 1);
+  });
+});
+
+describe('shell chains', () => {
+  it('flags every branch but reports the best flow: conserved first, then the longest', () => {
+    // From B the money splits: on to C nearly whole, and a longer way on that leaks at X
+    const result = analyzeTransactions([
+      ...chain(['S', 'A', 'B', 'C'], [100_000, 97_000, 95_000]),
+      ...chain(['B', 'X', 'Y', 'Z'], [50_000, 30_000, 29_000]),
+    ]);
+
+    const ring = result.fraud_rings.find((r) => r.pattern_type === 'shell_chain')!;
+    expect([...ring.member_accounts].sort()).toEqual(['A', 'B', 'C', 'S', 'X', 'Y', 'Z']);
+    expect(ring.amount_flow).toMatchObject({ accounts: ['S', 'A', 'B', 'C'], conserved: true });
+  });
+
+  it('keeps one flow per start account however many paths branch from it', () => {
+    // Two accounts per layer, each paying both of the next: 2⁵ paths from S
+    const layers = [['S'], ...[1, 2, 3, 4, 5].map((n) => [`L${n}a`, `L${n}b`])];
+    const transactions = layers.slice(0, -1).flatMap((layer, i) =>
+      layer.flatMap((from) => layers[i + 1].map((to) => tx(from, to, 100_000, i)))
+    );
+    const result = analyzeTransactions(transactions, { ...DEFAULT_DETECTION_CONFIG, shellChains: { minHops: 3, maxTransactions: 4 } });
+
+    const ring = result.fraud_rings.find((r) => r.pattern_type === 'shell_chain')!;
+    expect(ring.member_accounts).toHaveLength(11);
+    expect(ring.amount_flow?.accounts).toHaveLength(6);
+  });
+});
+
+describe('cycle enumeration', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('searches only strongly connected components', () => {
+    const result = analyzeTransactions([
+      ...chain(['A', 'B', 'C', 'A'], [100_000, 100_000, 100_000]),
+      ...chain(['X', 'Y', 'Z', 'X'], [100_000, 100_000, 100_000]),
+      // A tail into a cycle and a path out of it are not part of any component
+      ...chain(['P', 'Q', 'A'], [100_000, 100_000]),
+      ...chain(['Z', 'R', 'S'], [100_000, 100_000]),
+    ]);
+
+    expect(result.cycleSearch).toEqual({ cyclesFound: 2, components: 2, accountsInComponents: 6 });
+    expect(result.fraud_rings.filter((r) => r.pattern_type === 'cycle').map((r) => r.member_accounts.sort())).toEqual([
+      ['A', 'B', 'C'],
+      ['X', 'Y', 'Z'],
+    ]);
+  });
+
+  it('finds every cycle within the length bounds exactly once', () => {
+    const transactions = complete(['A', 'B', 'C', 'D']);
+
+    expect(analyzeTransactions(transactions, withCycles({ minLength: 3, maxLength: 3 })).cycleSearch?.cyclesFound).toBe(8);
+    expect(analyzeTransactions(transactions, withCycles({ minLength: 2, maxLength: 4 })).cycleSearch?.cyclesFound).toBe(20);
+    expect(analyzeTransactions(transactions, withCycles({ minLength: 4, maxLength: 4 })).cycleSearch?.cyclesFound).toBe(6);
+  });
+
+  it('stops at the cycle cap and says so', () => {
+    const result = analyzeTransactions(complete(['A', 'B', 'C', 'D']), withCycles({ minLength: 2, maxLength: 4, maxCycles: 5 }));
+
+    expect(result.cycleSearch).toMatchObject({ cyclesFound: 5, truncated: 'max_cycles' });
+  });
+
+  it('stops when the time budget runs out and says so', () => {
+    // Each clock read is a second later, so the budget is spent by the first check
+    let now = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => (now += 1000));
+    const result = analyzeTransactions(
+      complete(['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H']),
+      withCycles({ minLength: 2, maxLength: 8, maxCycles: 1_000_000, timeBudgetSeconds: 1 })
+    );
+
+    expect(result.cycleSearch?.truncated).toBe('time_budget');
+    expect(result.cycleSearch?.cyclesFound).toBeGreaterThan(0);
+  });
+});
+
+describe('temporal cycles', () => {
+  const temporal = (overrides: Partial<DetectionConfig['temporalCycles']> = {}, cycles: Partial<DetectionConfig['cycles']> = {}) => ({
+    ...withCycles(cycles),
+    temporalCycles: { ...DEFAULT_DETECTION_CONFIG.temporalCycles, enabled: true, ...overrides },
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports the loop from whichever account the money set off', () => {
+    const result = analyzeTransactions([tx('A', 'B', 100_000, 1), tx('B', 'C', 100_000, 2), tx('C', 'A', 100_000, 0)], temporal());
+
+    expect(result.cycleSearch).toMatchObject({ cyclesFound: 1, inTimeOrder: 1 });
+    const [loop] = result.fraud_rings[0].loops!;
+    expect(loop.accounts).toEqual(['C', 'A', 'B']);
+    expect(loop.closed_at - loop.started_at).toBe(2 * 3_600_000);
+  });
+
+  it('drops a cycle whose transactions run against its direction', () => {
+    const result = analyzeTransactions([tx('A', 'B', 100_000, 3), tx('B', 'C', 100_000, 2), tx('C', 'A', 100_000, 1)], temporal());
+
+    expect(result.cycleSearch).toMatchObject({ cyclesFound: 1, inTimeOrder: 0 });
+    expect(result.fraud_rings.filter((r) => r.pattern_type === 'cycle')).toEqual([]);
+  });
+
+  it('drops a loop with a hop slower than maxHopHours or closing after windowHours', () => {
+    const slow = [tx('A', 'B', 100_000, 0), tx('B', 'C', 100_000, 10), tx('C', 'A', 100_000, 20)];
+
+    expect(analyzeTransactions(slow, temporal({ maxHopHours: 5 })).cycleSearch?.inTimeOrder).toBe(0);
+    expect(analyzeTransactions(slow, temporal({ windowHours: 15 })).cycleSearch?.inTimeOrder).toBe(0);
+    expect(analyzeTransactions(slow, temporal({ maxHopHours: 10, windowHours: 20 })).cycleSearch?.inTimeOrder).toBe(1);
+  });
+
+  // Eight transactions on each of nine hops, any of which can follow any before
+  // it, and a closing hop too early to follow them: 8⁸ paths per start without the memo
+  const deadEndLadder = () => {
+    const accounts = ['A0', 'A1', 'A2', 'A3', 'A4', 'A5', 'A6', 'A7', 'A8', 'A9'];
+    return [
+      ...accounts.slice(0, 9).flatMap((acc, i) => [0, 1, 2, 3, 4, 5, 6, 7].map((j) => tx(acc, accounts[i + 1], 100_000, i * 8 + j))),
+      tx('A9', 'A0', 100_000, -1000),
+    ];
+  };
+
+  it('gives up on a dead-end transaction once per start, not once per path to it', () => {
+    // Each clock read is a millisecond later: the 5 s budget allows about 5M steps,
+    // a few thousand with the memo and far more without it
+    let now = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => (now += 1));
+    const result = analyzeTransactions(deadEndLadder(), temporal({}, { maxLength: 10 }));
+
+    expect(result.cycleSearch).toMatchObject({ cyclesFound: 1, inTimeOrder: 0 });
+    expect(result.cycleSearch?.truncated).toBeUndefined();
+  });
+
+  it('stops when the time budget runs out and says so', () => {
+    // The structural search is too small to read the clock; the temporal pass reads it past its budget
+    let now = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => (now += 1000));
+    const result = analyzeTransactions(deadEndLadder(), temporal({}, { maxLength: 10, timeBudgetSeconds: 1 }));
+
+    expect(result.cycleSearch).toMatchObject({ cyclesFound: 1, inTimeOrder: 0, truncated: 'time_budget' });
+  });
+});
+
+describe('false positive suppression', () => {
+  const suppressed = (result: ReturnType<typeof analyzeTransactions>, account: string) =>
+    result.suppressions.filter((s) => s.account_id === account).map((s) => [s.reason, s.suppressed_patterns]);
+
+  // Ten payments fan out; half the amounts are below the mean by `spread` and half above,
+  // so the coefficient of variation is exactly spread / 100_000
+  const payroll = (spread: number) =>
+    Array.from({ length: 10 }, (_, i) => tx('EMPLOYER', `E${i}`, 100_000 + (i % 2 ? spread : -spread), i));
+
+  it('takes fan-out off a payroll run whose amounts vary less than maxVariation', () => {
+    expect(suppressed(analyzeTransactions(payroll(4_999)), 'EMPLOYER')).toEqual([['payroll', ['fan_out']]]);
+    expect(suppressed(analyzeTransactions(payroll(0)), 'EMPLOYER')).toEqual([['payroll', ['fan_out']]]);
+  });
+
+  it('keeps fan-out when the amounts vary by maxVariation or more, or the run is too short', () => {
+    const atEdge = analyzeTransactions(payroll(5_000));
+
+    expect(suppressed(atEdge, 'EMPLOYER')).toEqual([]);
+    expect(atEdge.suspicious_accounts.find((a) => a.account_id === 'EMPLOYER')?.detected_patterns).toEqual(['fan_out']);
+    const longerRuns = {
+      ...DEFAULT_DETECTION_CONFIG,
+      suppression: { ...DEFAULT_DETECTION_CONFIG.suppression, payroll: { ...DEFAULT_DETECTION_CONFIG.suppression.payroll, minTransactions: 11 } },
+    };
+    expect(suppressed(analyzeTransactions(payroll(0), longerRuns), 'EMPLOYER')).toEqual([]);
+  });
+
+  // 50 payers, `cards` of them by card. Card payments don't count toward smurfing,
+  // so the first ten payers always pay by wire to flag fan-in; `largest` is what
+  // the last payer pays, the others pay 1_900 each
+  const merchant = (cards: number, largest = 1_900) =>
+    Array.from({ length: 50 }, (_, i): Transaction => ({
+      ...tx(`P${i}`, 'SHOP', i === 49 ? largest : 1_900, i),
+      channel: i >= 50 - cards ? 'card' : 'wire',
+    }));
+
+  it('takes fan-in off a merchant paid mostly by card, no payer carrying much of the volume', () => {
+    // 40 of 50 by card is exactly minCardShare; 4_900 of 98_000 is exactly maxPayerShare
+    expect(suppressed(analyzeTransactions(merchant(40)), 'SHOP')).toEqual([['merchant', ['fan_in']]]);
+    expect(suppressed(analyzeTransactions(merchant(40, 4_900)), 'SHOP')).toEqual([['merchant', ['fan_in']]]);
+  });
+
+  it('keeps fan-in below minCardShare, or when one payer carries more than maxPayerShare', () => {
+    expect(suppressed(analyzeTransactions(merchant(39)), 'SHOP')).toEqual([]);
+    expect(suppressed(analyzeTransactions(merchant(40, 4_901)), 'SHOP')).toEqual([]);
+    expect(analyzeTransactions(merchant(39)).suspicious_accounts.find((a) => a.account_id === 'SHOP')?.detected_patterns).toContain('fan_in');
+  });
+
+  it('needs minPayers distinct payers', () => {
+    const fewer = merchant(40).map((t) => (t.sender_id === 'P48' ? { ...t, sender_id: 'P47' } : t));
+
+    expect(suppressed(analyzeTransactions(fewer), 'SHOP')).toEqual([]);
+  });
+});
@@ -6,12 +6,24 @@ import {
   FraudRing,
   SuspiciousAccount,
   AnalysisResult,
+  AmountFlow,
+  AccountMasterData,
+  Channel,
+  CycleLoop,
+  CycleSearchSummary,
+  DetectionConfig,
+  ScoredPattern,
+  Suppression,
+  SuppressionReason,
 } from '@/types';
+import { isPersonalAccount } from './accountMasterData';
+import { applyReversals } from './reversals';
+import { DAY_MS, DEFAULT_DETECTION_CONFIG, HOUR_MS, MAX_SHELL_HOPS, validateDetectionConfig } from './detectionConfig';
 
 // =============================================
 // Graph Building
 // =============================================
-function buildGraph(transactions: Transaction[]): {
+function buildGraph(transactions: Transaction[], accounts?: AccountMasterData): {
   nodes: Map<string, GraphNode>;
   edges: GraphEdge[];
   adjacency: Map<string, Set<string>>;
@@ -28,13 +40,14 @@ function buildGraph(transactions: Transaction[]): {
       nodes.set(id, {
         id,
         totalTransactions: 0,
-        totalSent: 0,
-        totalReceived: 0,
+        totalSentMinor: 0,
+        totalReceivedMinor: 0,
         uniqueSenders: new Set(),
         uniqueReceivers: new Set(),
         isSuspicious: false,
         suspicionScore: 0,
         detectedPatterns: [],
+        ...(accounts?.has(id) ? { attributes: accounts.get(id) } : {}),
       });
     }
     return nodes.get(id)!;
@@ -43,21 +56,36 @@ function buildGraph(transactions: Transaction[]): {
   for (const tx of transactions) {
     const sender = ensureNode(tx.sender_id);
     const receiver = ensureNode(tx.receiver_id);
+    if (tx.senderParty && !sender.party) sender.party = tx.senderParty;
+    if (tx.receiverParty && !receiver.party) receiver.party = tx.receiverParty;
 
     sender.totalTransactions++;
-    sender.totalSent += tx.amount;
+    sender.totalSentMinor += tx.amountMinor;
     sender.uniqueReceivers.add(tx.receiver_id);
 
     receiver.totalTransactions++;
-    receiver.totalReceived += tx.amount;
+    receiver.totalReceivedMinor += tx.amountMinor;
     receiver.uniqueSenders.add(tx.sender_id);
 
     edges.push({
       source: tx.sender_id,
       target: tx.receiver_id,
       amount: tx.amount,
+      amountMinor: tx.amountMinor,
       timestamp: tx.timestampMs,
       transactionId: tx.transaction_id,
+      ...(tx.currency
+        ? {
+            originalAmount: tx.originalAmount ?? tx.amount,
+            originalAmountMinor: tx.originalAmountMinor ?? tx.amountMinor,
+            currency: tx.currency,
+          }
+        : {}),
+      ...(tx.channel ? { channel: tx.channel } : {}),
+      ...(tx.direction ? { direction: tx.direction } : {}),
+      ...(tx.sourceFile ? { sourceFile: tx.sourceFile } : {}),
+      ...(tx.metadata ? { metadata: tx.metadata } : {}),
+      ...(tx.balances ? { balances: tx.balances } : {}),
     });
 
     if (!adjacency.has(tx.sender_id)) adjacency.set(tx.sender_id, new Set());
@@ -72,66 +100,352 @@ function buildGraph(transactions: Transaction[]): {
 }
 
 // =============================================
-// Cycle Detection (DFS — length 3 to 5)
+// Cycle Detection (length minLength to maxLength)
 // =============================================
+// Only accounts in a strongly connected component of two or more can sit on
+// a cycle, so everything else is skipped up front. Within a component each
+// cycle is enumerated once, from its lowest-ranked account and over accounts
+// ranked above it, as in Johnson's algorithm. Johnson's blocked sets miss
+// cycles once a length bound applies, so instead a step is pruned when the
+// shortest way back to the start no longer fits in the length left.
+// Distinct cycles over the same accounts (A→B→C→A, A→C→B→A) are both kept.
 interface CycleResult {
   cycles: string[][];
+  search: CycleSearchSummary;
+}
+
+// Tarjan's algorithm, iterative so long chains can't overflow the call stack.
+// Returns only the components with two or more accounts.
+function stronglyConnectedComponents(adjacency: Map<string, Set<string>>, nodeIds: string[]): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const root of nodeIds) {
+    if (index.has(root)) continue;
+    const frames: { id: string; successors: Iterator<string> }[] = [];
+    const open = (id: string) => {
+      index.set(id, counter);
+      lowLink.set(id, counter);
+      counter++;
+      stack.push(id);
+      onStack.add(id);
+      frames.push({ id, successors: (adjacency.get(id) ?? new Set<string>()).values() });
+    };
+
+    open(root);
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const step = frame.successors.next();
+      if (!step.done) {
+        if (!index.has(step.value)) open(step.value);
+        else if (onStack.has(step.value)) {
+          lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(step.value)!));
+        }
+        continue;
+      }
+      frames.pop();
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1].id;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.id)!));
+      }
+      if (lowLink.get(frame.id) === index.get(frame.id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.id);
+        if (component.length > 1) components.push(component);
+      }
+    }
+  }
+  return components;
 }
 
 function detectCycles(
   adjacency: Map<string, Set<string>>,
-  nodeIds: string[]
+  reverseAdj: Map<string, Set<string>>,
+  nodeIds: string[],
+  { minLength, maxLength, maxCycles, timeBudgetSeconds }: DetectionConfig['cycles']
 ): CycleResult {
   const cycles: string[][] = [];
-  const seenCycles = new Set<string>();
-
-  // DFS from each node
-  for (const start of nodeIds) {
-    const path: string[] = [start];
-    const visited = new Set<string>([start]);
-
-    function dfs(current: string, depth: number) {
-      if (depth > 5) return;
-      const neighbors = adjacency.get(current) ?? new Set();
-      for (const neighbor of neighbors) {
-        if (neighbor === start && depth >= 3) {
-          // Found cycle
-          const cycle = [...path];
-          const key = [...cycle].sort().join('|');
-          if (!seenCycles.has(key)) {
-            seenCycles.add(key);
-            cycles.push(cycle);
+  const components = stronglyConnectedComponents(adjacency, nodeIds);
+  const deadline = performance.now() + timeBudgetSeconds * 1000;
+  let truncated: CycleSearchSummary['truncated'];
+  let steps = 0;
+
+  for (const component of components) {
+    const rank = new Map(component.map((id, i) => [id, i]));
+
+    for (const start of component) {
+      const floor = rank.get(start)!;
+      // Fewest hops from each account ranked above `start` back to it
+      const hopsBack = new Map<string, number>();
+      let frontier = [start];
+      for (let hops = 1; hops < maxLength && frontier.length > 0; hops++) {
+        const next: string[] = [];
+        for (const id of frontier) {
+          for (const prev of reverseAdj.get(id) ?? []) {
+            if ((rank.get(prev) ?? -1) > floor && !hopsBack.has(prev)) {
+              hopsBack.set(prev, hops);
+              next.push(prev);
+            }
           }
-          continue;
         }
-        if (!visited.has(neighbor) && depth < 5) {
-          visited.add(neighbor);
-          path.push(neighbor);
-          dfs(neighbor, depth + 1);
+        frontier = next;
+      }
+
+      const path = [start];
+      const onPath = new Set([start]);
+      // Returns false once the search has to stop
+      const extend = (current: string): boolean => {
+        if (++steps % 1024 === 0 && performance.now() > deadline) {
+          truncated = 'time_budget';
+          return false;
+        }
+        for (const next of adjacency.get(current) ?? []) {
+          if (next === start) {
+            if (path.length < minLength) continue;
+            cycles.push([...path]);
+            if (cycles.length >= maxCycles) {
+              truncated = 'max_cycles';
+              return false;
+            }
+            continue;
+          }
+          // The cycle would be at least path.length + hopsBack accounts long
+          const back = hopsBack.get(next);
+          if (back === undefined || onPath.has(next) || path.length + back > maxLength) continue;
+          path.push(next);
+          onPath.add(next);
+          const more = extend(next);
           path.pop();
-          visited.delete(neighbor);
+          onPath.delete(next);
+          if (!more) return false;
         }
-      }
+        return true;
+      };
+      if (!extend(start)) break;
     }
+    if (truncated) break;
+  }
+
+  return {
+    cycles,
+    search: {
+      cyclesFound: cycles.length,
+      components: components.length,
+      accountsInComponents: components.reduce((sum, c) => sum + c.length, 0),
+      ...(truncated ? { truncated } : {}),
+    },
+  };
+}
+
+// =============================================
+// Temporal Cycles (money moving round in order)
+// =============================================
+// A structural cycle only counts as round-tripping if one transaction per hop
+// carries the money round in time order: each hop no earlier than the one
+// before and within maxHopHours of it, the last closing the loop within
+// windowHours of the first. Money can set off from any account on the cycle,
+// so every hop's transactions are tried as the first, earliest first; the
+// loop reported is the earliest-starting one. The pass gets its own
+// cycles.timeBudgetSeconds, shared by all cycles.
+type EdgesByPair = Map<string, GraphEdge[]>;
+
+interface SearchBudget {
+  deadline: number; // performance.now() time
+  steps: number;
+  exhausted: boolean;
+}
+
+const pairKey = (source: string, target: string) => `${source}\u0000${target}`;
+
+// Transactions per sender → receiver pair, in time order
+function groupEdgesByPair(edgesByTime: GraphEdge[]): EdgesByPair {
+  const byPair: EdgesByPair = new Map();
+  for (const edge of edgesByTime) {
+    const key = pairKey(edge.source, edge.target);
+    if (!byPair.has(key)) byPair.set(key, []);
+    byPair.get(key)!.push(edge);
+  }
+  return byPair;
+}
 
-    dfs(start, 1);
+// Index of the first edge at or after `time`
+function firstAtOrAfter(edges: GraphEdge[], time: number): number {
+  let lo = 0;
+  let hi = edges.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (edges[mid].timestamp < time) lo = mid + 1;
+    else hi = mid;
   }
+  return lo;
+}
 
-  return { cycles };
+// The hop transactions of the loop, or null if the money never went round in
+// order or the budget ran out first (budget.exhausted)
+function findTemporalLoop(
+  cycle: string[],
+  edgesByPair: EdgesByPair,
+  { maxHopHours, windowHours }: DetectionConfig['temporalCycles'],
+  budget: SearchBudget
+): GraphEdge[] | null {
+  const n = cycle.length;
+  const hop = (i: number) => edgesByPair.get(pairKey(cycle[i % n], cycle[(i + 1) % n])) ?? [];
+  const maxHopMs = maxHopHours * HOUR_MS;
+
+  const starts: { offset: number; edge: GraphEdge }[] = [];
+  for (let i = 0; i < n; i++) for (const edge of hop(i)) starts.push({ offset: i, edge });
+  starts.sort((a, b) => a.edge.timestamp - b.edge.timestamp);
+
+  for (const { offset, edge } of starts) {
+    const closeBy = edge.timestamp + windowHours * HOUR_MS;
+    const chain = [edge];
+    // Edges that can't lead round from here; the deadline is fixed per start
+    const deadEnds = new Set<GraphEdge>();
+    const extend = (k: number): boolean => {
+      if (k === n) return true;
+      const after = chain[k - 1].timestamp;
+      const limit = Math.min(after + maxHopMs, closeBy);
+      const options = hop(offset + k);
+      for (let j = firstAtOrAfter(options, after); j < options.length && options[j].timestamp <= limit; j++) {
+        if (deadEnds.has(options[j])) continue;
+        if (++budget.steps % 1024 === 0 && performance.now() > budget.deadline) {
+          budget.exhausted = true;
+          return false;
+        }
+        chain.push(options[j]);
+        if (extend(k + 1)) return true;
+        if (budget.exhausted) return false;
+        chain.pop();
+        deadEnds.add(options[j]);
+      }
+      return false;
+    };
+    if (extend(1)) return chain;
+    if (budget.exhausted) return null;
+  }
+  return null;
+}
+
+const toCycleLoop = (hops: GraphEdge[]): CycleLoop => ({
+  accounts: hops.map((e) => e.source),
+  transaction_ids: hops.map((e) => e.transactionId),
+  started_at: hops[0].timestamp,
+  closed_at: hops[hops.length - 1].timestamp,
+});
+
+// =============================================
+// Amount Conservation
+// =============================================
+// A mule passes on most of what it receives, less a commission. Along a cycle
+// or chain, each intermediate's retention is what it sent on over what it
+// received; leakage is the share of the first hop's amount that didn't come
+// out of the last. A hop is conserved when the intermediate kept no more than
+// the tolerance and sent on no more than it got: retention above 1 means money
+// joined from elsewhere. A temporal loop uses its own transactions; otherwise
+// a hop is the total sent over that pair.
+const roundRatio = (value: number) => Math.round(value * 10_000) / 10_000;
+
+function amountFlow(accounts: string[], hopAmountsMinor: number[], tolerance: number): AmountFlow {
+  const retention = hopAmountsMinor.slice(1).map((amount, i) => (hopAmountsMinor[i] > 0 ? amount / hopAmountsMinor[i] : 0));
+  const first = hopAmountsMinor[0];
+  const last = hopAmountsMinor[hopAmountsMinor.length - 1];
+  return {
+    accounts,
+    hop_retention: retention.map(roundRatio),
+    leakage: first > 0 ? roundRatio(1 - last / first) : 1,
+    conserved: retention.every((r) => r >= 1 - tolerance && r <= 1),
+  };
+}
+
+function pairVolumes(edges: GraphEdge[]): Map<string, number> {
+  const volumes = new Map<string, number>();
+  for (const edge of edges) {
+    const key = pairKey(edge.source, edge.target);
+    volumes.set(key, (volumes.get(key) ?? 0) + edge.amountMinor);
+  }
+  return volumes;
+}
+
+// A structural cycle has no first hop, so the money is taken to enter on its
+// largest hop and leak from there
+function cycleFlow(cycle: string[], volumes: Map<string, number>, tolerance: number): AmountFlow {
+  const n = cycle.length;
+  const hops = cycle.map((acc, i) => volumes.get(pairKey(acc, cycle[(i + 1) % n])) ?? 0);
+  const entry = hops.indexOf(Math.max(...hops));
+  const rotate = <T>(items: T[]) => [...items.slice(entry), ...items.slice(0, entry)];
+  return amountFlow(rotate(cycle), rotate(hops), tolerance);
+}
+
+function chainFlow(chain: string[], volumes: Map<string, number>, tolerance: number): AmountFlow {
+  const hops = chain.slice(1).map((acc, i) => volumes.get(pairKey(chain[i], acc)) ?? 0);
+  return amountFlow(chain, hops, tolerance);
+}
+
+// Conserved paths first, then the longest, then the one that lost least
+function bestFlow(flows: AmountFlow[]): AmountFlow | undefined {
+  const rank = (flow: AmountFlow) => [flow.conserved ? 0 : 1, -flow.accounts.length, Math.abs(flow.leakage)];
+  let best: AmountFlow | undefined;
+  for (const flow of flows) {
+    if (!best) {
+      best = flow;
+      continue;
+    }
+    const [a, b] = [rank(flow), rank(best)];
+    const i = a.findIndex((value, k) => value !== b[k]);
+    if (i >= 0 && a[i] < b[i]) best = flow;
+  }
+  return best;
+}
+
+// =============================================
+// Per-channel Weights
+// =============================================
+// How much one transaction on a channel counts toward a detector's threshold
+// (DetectionConfig.channelWeights). Transactions without a channel count
+// fully, as before the column existed.
+function channelWeight(edge: GraphEdge, weights: Record<Channel, number>): number {
+  return edge.channel ? weights[edge.channel] : 1;
 }
 
 // =============================================
 // Smurfing Detection (Fan-in / Fan-out)
 // =============================================
-const SMURF_THRESHOLD = 10;
-const SMURF_WINDOW_MS = 72 * 60 * 60 * 1000; // 72 hours
+// Weighted count of unique counterparties: each counts at the highest
+// channel weight it used within the window
+function weightedCounterparties(
+  window: GraphEdge[],
+  side: 'source' | 'target',
+  channelWeights: Record<Channel, number>
+): number {
+  const weights = new Map<string, number>();
+  for (const e of window) {
+    weights.set(e[side], Math.max(weights.get(e[side]) ?? 0, channelWeight(e, channelWeights)));
+  }
+  let total = 0;
+  for (const w of weights.values()) total += w;
+  return total;
+}
 
 interface SmurfResult {
-  fanInAccounts: Set<string>; // receivers with 10+ unique senders in 72h
-  fanOutAccounts: Set<string>; // senders with 10+ unique receivers in 72h
+  fanInAccounts: Set<string>; // receivers with threshold+ (weighted) unique senders in the window
+  fanOutAccounts: Set<string>; // senders with threshold+ (weighted) unique receivers in the window
 }
 
-function detectSmurfing(edges: GraphEdge[]): SmurfResult {
+function detectSmurfing(
+  edges: GraphEdge[],
+  { threshold, windowHours }: DetectionConfig['smurfing'],
+  channelWeights: Record<Channel, number>
+): SmurfResult {
+  const windowMs = windowHours * HOUR_MS;
   const fanInAccounts = new Set<string>();
   const fanOutAccounts = new Set<string>();
 
@@ -140,6 +454,7 @@ function detectSmurfing(edges: GraphEdge[]): SmurfResult {
   const bySender = new Map<string, GraphEdge[]>();
 
   for (const edge of edges) {
+    if (channelWeight(edge, channelWeights) === 0) continue;
     if (!byReceiver.has(edge.target)) byReceiver.set(edge.target, []);
     byReceiver.get(edge.target)!.push(edge);
 
@@ -147,35 +462,33 @@ function detectSmurfing(edges: GraphEdge[]): SmurfResult {
     bySender.get(edge.source)!.push(edge);
   }
 
-  // Fan-in: receiver gets from 10+ unique senders within 72h
+  // Fan-in: receiver gets from threshold+ unique senders within the window
   for (const [receiver, rxEdges] of byReceiver) {
     const sorted = rxEdges.sort((a, b) => a.timestamp - b.timestamp);
     // Sliding window
     let left = 0;
     for (let right = 0; right < sorted.length; right++) {
-      while (sorted[right].timestamp - sorted[left].timestamp > SMURF_WINDOW_MS) {
+      while (sorted[right].timestamp - sorted[left].timestamp > windowMs) {
         left++;
       }
       const window = sorted.slice(left, right + 1);
-      const uniqueSenders = new Set(window.map((e) => e.source));
-      if (uniqueSenders.size >= SMURF_THRESHOLD) {
+      if (weightedCounterparties(window, 'source', channelWeights) >= threshold) {
         fanInAccounts.add(receiver);
         break;
       }
     }
   }
 
-  // Fan-out: sender sends to 10+ unique receivers within 72h
+  // Fan-out: sender sends to threshold+ unique receivers within the window
   for (const [sender, txEdges] of bySender) {
     const sorted = txEdges.sort((a, b) => a.timestamp - b.timestamp);
     let left = 0;
     for (let right = 0; right < sorted.length; right++) {
-      while (sorted[right].timestamp - sorted[left].timestamp > SMURF_WINDOW_MS) {
+      while (sorted[right].timestamp - sorted[left].timestamp > windowMs) {
         left++;
       }
       const window = sorted.slice(left, right + 1);
-      const uniqueReceivers = new Set(window.map((e) => e.target));
-      if (uniqueReceivers.size >= SMURF_THRESHOLD) {
+      if (weightedCounterparties(window, 'target', channelWeights) >= threshold) {
         fanOutAccounts.add(sender);
         break;
       }
@@ -188,23 +501,29 @@ function detectSmurfing(edges: GraphEdge[]): SmurfResult {
 // =============================================
 // Layered Shell Network Detection
 // =============================================
-const SHELL_MIN_HOPS = 3;
-const SHELL_MAX_TX = 3; // intermediate node max total transactions
-
+// Every chain's accounts are flagged, but only the best flow from each start
+// account is kept: the chains from one start share prefixes, and keeping them
+// all grows with the number of paths rather than the number of accounts.
 interface ShellResult {
   shellAccounts: Set<string>;
+  chainFlows: AmountFlow[]; // at most one per start account, in hop order
 }
 
 function detectShellChains(
   nodes: Map<string, GraphNode>,
-  adjacency: Map<string, Set<string>>
+  adjacency: Map<string, Set<string>>,
+  { minHops, maxTransactions }: DetectionConfig['shellChains'],
+  volumes: Map<string, number>,
+  tolerance: number
 ): ShellResult {
   const shellAccounts = new Set<string>();
+  const chainFlows: AmountFlow[] = [];
 
-  // Find chains where intermediate nodes have 2-3 total transactions
+  // Find chains where intermediate nodes have 2..maxTransactions total transactions
   for (const [startId, startNode] of nodes) {
-    // BFS/DFS to find chains of 3+ hops through shell-like intermediates
+    // BFS/DFS to find chains of minHops+ hops through shell-like intermediates
     const visited = new Set<string>([startId]);
+    let best: AmountFlow | undefined;
     const queue: { id: string; depth: number; chain: string[] }[] = [
       { id: startId, depth: 0, chain: [startId] },
     ];
@@ -220,17 +539,19 @@ function detectShellChains(
 
         const isShellIntermediate =
           nNode.totalTransactions >= 2 &&
-          nNode.totalTransactions <= SHELL_MAX_TX;
+          nNode.totalTransactions <= maxTransactions;
 
-        if (depth >= SHELL_MIN_HOPS - 1 && chain.length >= SHELL_MIN_HOPS) {
+        if (depth >= minHops - 1 && chain.length >= minHops) {
           // Found a valid chain — flag all members
           for (const acc of chain) {
             shellAccounts.add(acc);
           }
           shellAccounts.add(neighbor);
+          const flow = chainFlow([...chain, neighbor], volumes, tolerance);
+          best = best ? bestFlow([best, flow]) : flow;
         }
 
-        if (isShellIntermediate && depth < 6) {
+        if (isShellIntermediate && depth < MAX_SHELL_HOPS - 1) {
           visited.add(neighbor);
           queue.push({
             id: neighbor,
@@ -240,34 +561,43 @@ function detectShellChains(
         }
       }
     }
+    if (best) chainFlows.push(best);
   }
 
-  return { shellAccounts };
+  return { shellAccounts, chainFlows };
 }
 
 // =============================================
 // High Velocity Detection
 // =============================================
-const VELOCITY_WINDOW_MS = 24 * 60 * 60 * 1000; // 24h
-const VELOCITY_MIN_TX = 20; // 20+ transactions in 24h
-
+// minTransactions+ (weighted) transactions sent within the window
 function detectHighVelocity(
-  edges: GraphEdge[]
+  edges: GraphEdge[],
+  { minTransactions, windowHours }: DetectionConfig['velocity'],
+  channelWeights: Record<Channel, number>
 ): Set<string> {
+  const windowMs = windowHours * HOUR_MS;
   const highVelocity = new Set<string>();
-  const bySender = new Map<string, number[]>();
+  const bySender = new Map<string, { timestamp: number; weight: number }[]>();
 
   for (const edge of edges) {
+    const weight = channelWeight(edge, channelWeights);
+    if (weight === 0) continue;
     if (!bySender.has(edge.source)) bySender.set(edge.source, []);
-    bySender.get(edge.source)!.push(edge.timestamp);
+    bySender.get(edge.source)!.push({ timestamp: edge.timestamp, weight });
   }
 
-  for (const [sender, timestamps] of bySender) {
-    const sorted = timestamps.sort((a, b) => a - b);
+  for (const [sender, txs] of bySender) {
+    const sorted = txs.sort((a, b) => a.timestamp - b.timestamp);
     let left = 0;
+    let weighted = 0;
     for (let right = 0; right < sorted.length; right++) {
-      while (sorted[right] - sorted[left] > VELOCITY_WINDOW_MS) left++;
-      if (right - left + 1 >= VELOCITY_MIN_TX) {
+      weighted += sorted[right].weight;
+      while (sorted[right].timestamp - sorted[left].timestamp > windowMs) {
+        weighted -= sorted[left].weight;
+        left++;
+      }
+      if (weighted >= minTransactions - 1e-9) {
         highVelocity.add(sender);
         break;
       }
@@ -278,23 +608,45 @@ function detectHighVelocity(
 }
 
 // =============================================
-// Suspicion Scoring
+// New Personal Account Inflows (needs master data)
 // =============================================
-const SCORES = {
-  cycle: 40,
-  fanIn: 25,
-  fanOut: 25,
-  shell: 20,
-  velocity: 10,
-} as const;
+// Personal accounts that receive from minSenders+ distinct senders within maxAgeDays of opening
+function detectNewAccountInflows(
+  nodes: Map<string, GraphNode>,
+  edges: GraphEdge[],
+  { minSenders, maxAgeDays }: DetectionConfig['newAccounts']
+): Set<string> {
+  const maxAgeMs = maxAgeDays * DAY_MS;
+  const flagged = new Set<string>();
+  const earlySenders = new Map<string, Set<string>>();
+
+  for (const edge of edges) {
+    const attributes = nodes.get(edge.target)?.attributes;
+    const opened = attributes?.open_date;
+    if (opened === undefined || !isPersonalAccount(attributes)) continue;
+    if (edge.timestamp < opened || edge.timestamp - opened > maxAgeMs) continue;
+    if (!earlySenders.has(edge.target)) earlySenders.set(edge.target, new Set());
+    earlySenders.get(edge.target)!.add(edge.source);
+  }
+
+  for (const [account, senders] of earlySenders) {
+    if (senders.size >= minSenders) flagged.add(account);
+  }
+  return flagged;
+}
 
+// =============================================
+// Suspicion Scoring
+// =============================================
 function scoreAccounts(
   nodes: Map<string, GraphNode>,
   cycleNodes: Map<string, { length: number; ringId: string }>,
   fanInAccounts: Set<string>,
   fanOutAccounts: Set<string>,
   shellAccounts: Set<string>,
-  highVelocity: Set<string>
+  highVelocity: Set<string>,
+  newAccountInflows: Set<string>,
+  scores: DetectionConfig['scores']
 ): void {
   for (const [id, node] of nodes) {
     let score = 0;
@@ -302,26 +654,30 @@ function scoreAccounts(
 
     if (cycleNodes.has(id)) {
       const info = cycleNodes.get(id)!;
-      score += SCORES.cycle;
+      score += scores.cycle;
       patterns.push(`cycle_length_${info.length}` as PatternType);
       node.ringId = info.ringId;
     }
     if (fanInAccounts.has(id)) {
-      score += SCORES.fanIn;
+      score += scores.fanIn;
       patterns.push('fan_in');
     }
     if (fanOutAccounts.has(id)) {
-      score += SCORES.fanOut;
+      score += scores.fanOut;
       patterns.push('fan_out');
     }
     if (shellAccounts.has(id)) {
-      score += SCORES.shell;
+      score += scores.shell;
       patterns.push('shell_chain');
     }
     if (highVelocity.has(id)) {
-      score += SCORES.velocity;
+      score += scores.velocity;
       patterns.push('high_velocity');
     }
+    if (newAccountInflows.has(id)) {
+      score += scores.newAccount;
+      patterns.push('new_account_inflow');
+    }
 
     // Normalize to max 100
     node.suspicionScore = Math.min(100, score);
@@ -333,43 +689,122 @@ function scoreAccounts(
 // =============================================
 // False Positive Filtering
 // =============================================
+// Over integer minor units: n·Σx² − (Σx)² in BigInt is exact, so identical
+// salaries give a CV of exactly 0 rather than float noise
+function coefficientOfVariation(amountsMinor: number[]): number {
+  const n = BigInt(amountsMinor.length);
+  let sum = 0n;
+  let sumSquares = 0n;
+  for (const x of amountsMinor) {
+    const v = BigInt(x);
+    sum += v;
+    sumSquares += v * v;
+  }
+  if (sum <= 0n) return 0;
+  const varianceTimesN2 = n * sumSquares - sum * sum; // variance · n²
+  return Math.sqrt(Number(varianceTimesN2)) / Number(sum);
+}
+
+const PATTERN_SCORE: Record<Exclude<PatternType, `cycle_length_${number}`>, ScoredPattern> = {
+  fan_in: 'fanIn',
+  fan_out: 'fanOut',
+  shell_chain: 'shell',
+  high_velocity: 'velocity',
+  new_account_inflow: 'newAccount',
+  amount_conserved: 'conservation',
+};
+
+function patternScore(pattern: PatternType, scores: DetectionConfig['scores']): number {
+  return pattern.startsWith('cycle_length_') ? scores.cycle : scores[PATTERN_SCORE[pattern as keyof typeof PATTERN_SCORE]];
+}
+
+const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+// Takes `patterns` off a flagged account, rescores it and records why. Cycle
+// members keep their flags unless the analyst allowlisted them: a payroll run
+// or a card merchant doesn't explain money coming back round.
+function suppress(
+  node: GraphNode,
+  patterns: PatternType[],
+  reason: SuppressionReason,
+  detail: string,
+  scores: DetectionConfig['scores'],
+  suppressions: Suppression[]
+): void {
+  const removed = node.detectedPatterns.filter((p) => patterns.includes(p));
+  if (removed.length === 0) return;
+  const scoreBefore = node.suspicionScore;
+  node.detectedPatterns = node.detectedPatterns.filter((p) => !removed.includes(p));
+  node.suspicionScore = Math.min(100, node.detectedPatterns.reduce((sum, p) => sum + patternScore(p, scores), 0));
+  node.isSuspicious = node.detectedPatterns.length > 0;
+  suppressions.push({ account_id: node.id, reason, detail, suppressed_patterns: removed, score_before: scoreBefore });
+}
+
 function filterFalsePositives(
   nodes: Map<string, GraphNode>,
-  edges: GraphEdge[]
-): void {
-  // Legitimate high-volume merchants: high degree but symmetric (both fan-in AND fan-out patterns as normal commerce)
-  // We identify "merchants" as nodes with very high volume but structured (consistent amounts → payroll)
-  
-  // Payroll: nodes that send consistent small-variance amounts to many receivers
-  const bySender = new Map<string, number[]>();
+  edges: GraphEdge[],
+  config: DetectionConfig
+): Suppression[] {
+  const { scores, suppression } = config;
+  const suppressions: Suppression[] = [];
+  const inCycle = (node: GraphNode) => node.detectedPatterns.some((p) => p.startsWith('cycle'));
+
+  // Allowlist: every flag goes, cycles included
+  const allowlisted = new Set<string>();
+  for (const entry of config.allowlist) {
+    const node = nodes.get(entry.account_id);
+    allowlisted.add(entry.account_id);
+    if (node) suppress(node, [...node.detectedPatterns], 'allowlist', entry.note || 'on the allowlist', scores, suppressions);
+  }
+
+  const outgoing = new Map<string, number[]>(); // sender → amounts (minor units)
+  const incoming = new Map<string, GraphEdge[]>();
   for (const edge of edges) {
-    if (!bySender.has(edge.source)) bySender.set(edge.source, []);
-    bySender.get(edge.source)!.push(edge.amount);
-  }
-
-  for (const [sender, amounts] of bySender) {
-    const node = nodes.get(sender);
-    if (!node) continue;
-    // Payroll: 10+ transactions with very low coefficient of variation (<5%)
-    if (amounts.length >= 10) {
-      const mean = amounts.reduce((a, b) => a + b, 0) / amounts.length;
-      const std = Math.sqrt(amounts.map((x) => (x - mean) ** 2).reduce((a, b) => a + b, 0) / amounts.length);
-      const cv = mean > 0 ? std / mean : 0;
-      if (cv < 0.05) {
-        // This is likely payroll — remove fan-out flag if it has no cycle
-        if (!node.detectedPatterns.includes('fan_out') || node.detectedPatterns.some(p => p.startsWith('cycle'))) {
-          continue; // keep cycle-based flags
-        }
-        // Remove fan_out for payroll
-        node.detectedPatterns = node.detectedPatterns.filter((p) => p !== 'fan_out');
-        node.suspicionScore = Math.max(0, node.suspicionScore - SCORES.fanOut);
-        if (node.detectedPatterns.length === 0) {
-          node.isSuspicious = false;
-          node.suspicionScore = 0;
-        }
+    if (!outgoing.has(edge.source)) outgoing.set(edge.source, []);
+    outgoing.get(edge.source)!.push(edge.amountMinor);
+    if (!incoming.has(edge.target)) incoming.set(edge.target, []);
+    incoming.get(edge.target)!.push(edge);
+  }
+
+  // Payroll: many payments of nearly the same amount explain fan-out and velocity
+  const { payroll } = suppression;
+  if (payroll.enabled) {
+    for (const [sender, amounts] of outgoing) {
+      const node = nodes.get(sender);
+      if (!node?.isSuspicious || allowlisted.has(sender) || inCycle(node)) continue;
+      if (amounts.length < payroll.minTransactions) continue;
+      const cv = coefficientOfVariation(amounts);
+      if (cv >= payroll.maxVariation) continue;
+      const detail = `${amounts.length.toLocaleString()} payments, amounts vary ${formatShare(cv)}`;
+      suppress(node, ['fan_out', 'high_velocity'], 'payroll', detail, scores, suppressions);
+    }
+  }
+
+  // Merchant: fan-in from many card payers, none of whom carries much of the volume
+  const { merchant } = suppression;
+  if (merchant.enabled) {
+    for (const [receiver, received] of incoming) {
+      const node = nodes.get(receiver);
+      if (!node?.detectedPatterns.includes('fan_in') || allowlisted.has(receiver) || inCycle(node)) continue;
+      if (node.uniqueSenders.size < merchant.minPayers) continue;
+      const cardShare = received.filter((e) => e.channel === 'card').length / received.length;
+      if (cardShare < merchant.minCardShare) continue;
+      const byPayer = new Map<string, number>();
+      let total = 0;
+      for (const e of received) {
+        byPayer.set(e.source, (byPayer.get(e.source) ?? 0) + e.amountMinor);
+        total += e.amountMinor;
       }
+      let largest = 0;
+      for (const amount of byPayer.values()) largest = Math.max(largest, amount);
+      const largestShare = total > 0 ? largest / total : 1;
+      if (largestShare > merchant.maxPayerShare) continue;
+      const detail = `${node.uniqueSenders.size.toLocaleString()} payers, ${formatShare(cardShare)} by card, largest payer ${formatShare(largestShare)} of volume`;
+      suppress(node, ['fan_in'], 'merchant', detail, scores, suppressions);
     }
   }
+
+  return suppressions;
 }
 
 // =============================================
@@ -377,11 +812,28 @@ function filterFalsePositives(
 // =============================================
 let ringCounter = 0;
 
+// A cycle's members still flagged, the loop that carried money round it
+// (temporal mode) and how much of the amount it kept
+interface RingCycle {
+  members: string[];
+  loop?: CycleLoop;
+  flow?: AmountFlow;
+}
+
+const averageScore = (members: string[], nodes: Map<string, GraphNode>) =>
+  Math.round((members.reduce((sum, acc) => sum + (nodes.get(acc)?.suspicionScore ?? 0), 0) / members.length) * 10) / 10;
+
+const withAmountFlow = (flows: AmountFlow[]) => {
+  const flow = bestFlow(flows);
+  return flow ? { amount_flow: flow } : {};
+};
+
 function assembleFraudRings(
-  cycles: string[][],
+  cycles: RingCycle[],
   fanInAccounts: Set<string>,
   fanOutAccounts: Set<string>,
   shellAccounts: Set<string>,
+  shellFlows: AmountFlow[],
   nodes: Map<string, GraphNode>
 ): FraudRing[] {
   ringCounter = 0;
@@ -390,7 +842,9 @@ function assembleFraudRings(
 
   // Cycle rings
   const cycleGroups = new Map<string, Set<string>>();
-  for (const cycle of cycles) {
+  const cycleLoops = new Map<string, CycleLoop[]>();
+  const cycleFlows = new Map<string, AmountFlow[]>();
+  for (const { members: cycle, loop, flow } of cycles) {
     // Try to merge overlapping cycles
     let mergedRingId: string | null = null;
     for (const acc of cycle) {
@@ -402,23 +856,27 @@ function assembleFraudRings(
     if (!mergedRingId) {
       mergedRingId = `RING_${String(++ringCounter).padStart(3, '0')}`;
       cycleGroups.set(mergedRingId, new Set());
+      cycleLoops.set(mergedRingId, []);
+      cycleFlows.set(mergedRingId, []);
     }
     const group = cycleGroups.get(mergedRingId)!;
     for (const acc of cycle) {
       group.add(acc);
       ringIdMap.set(acc, mergedRingId);
     }
+    if (loop) cycleLoops.get(mergedRingId)!.push(loop);
+    if (flow) cycleFlows.get(mergedRingId)!.push(flow);
   }
 
   for (const [ringId, members] of cycleGroups) {
     const memberArr = Array.from(members);
-    const avgScore =
-      memberArr.reduce((sum, acc) => sum + (nodes.get(acc)?.suspicionScore ?? 0), 0) / memberArr.length;
     rings.push({
       ring_id: ringId,
       member_accounts: memberArr,
       pattern_type: 'cycle',
-      risk_score: Math.round(avgScore * 10) / 10,
+      risk_score: averageScore(memberArr, nodes),
+      ...(cycleLoops.get(ringId)!.length > 0 ? { loops: cycleLoops.get(ringId) } : {}),
+      ...withAmountFlow(cycleFlows.get(ringId)!),
     });
     // Update node ring IDs
     for (const acc of memberArr) {
@@ -431,12 +889,11 @@ function assembleFraudRings(
   const fanInArr = Array.from(fanInAccounts).filter((acc) => !ringIdMap.has(acc));
   if (fanInArr.length > 0) {
     const ringId = `RING_${String(++ringCounter).padStart(3, '0')}`;
-    const avgScore = fanInArr.reduce((sum, acc) => sum + (nodes.get(acc)?.suspicionScore ?? 0), 0) / fanInArr.length;
     rings.push({
       ring_id: ringId,
       member_accounts: fanInArr,
       pattern_type: 'fan_in',
-      risk_score: Math.round(avgScore * 10) / 10,
+      risk_score: averageScore(fanInArr, nodes),
     });
     for (const acc of fanInArr) {
       const node = nodes.get(acc);
@@ -448,12 +905,11 @@ function assembleFraudRings(
   const fanOutArr = Array.from(fanOutAccounts).filter((acc) => !ringIdMap.has(acc) && !fanInAccounts.has(acc));
   if (fanOutArr.length > 0) {
     const ringId = `RING_${String(++ringCounter).padStart(3, '0')}`;
-    const avgScore = fanOutArr.reduce((sum, acc) => sum + (nodes.get(acc)?.suspicionScore ?? 0), 0) / fanOutArr.length;
     rings.push({
       ring_id: ringId,
       member_accounts: fanOutArr,
       pattern_type: 'fan_out',
-      risk_score: Math.round(avgScore * 10) / 10,
+      risk_score: averageScore(fanOutArr, nodes),
     });
     for (const acc of fanOutArr) {
       const node = nodes.get(acc);
@@ -467,12 +923,12 @@ function assembleFraudRings(
   );
   if (shellArr.length > 0) {
     const ringId = `RING_${String(++ringCounter).padStart(3, '0')}`;
-    const avgScore = shellArr.reduce((sum, acc) => sum + (nodes.get(acc)?.suspicionScore ?? 0), 0) / shellArr.length;
     rings.push({
       ring_id: ringId,
       member_accounts: shellArr,
       pattern_type: 'shell_chain',
-      risk_score: Math.round(avgScore * 10) / 10,
+      risk_score: averageScore(shellArr, nodes),
+      ...withAmountFlow(shellFlows),
     });
     for (const acc of shellArr) {
       const node = nodes.get(acc);
@@ -483,20 +939,68 @@ function assembleFraudRings(
   return rings;
 }
 
+// A ring keeps one amount flow; when it is conserved, the ring members on it
+// score for conservation and the ring's risk is recomputed
+function scoreConservation(rings: FraudRing[], nodes: Map<string, GraphNode>, scores: DetectionConfig['scores']): void {
+  for (const ring of rings) {
+    if (!ring.amount_flow?.conserved) continue;
+    const members = new Set(ring.member_accounts);
+    for (const acc of ring.amount_flow.accounts) {
+      const node = nodes.get(acc);
+      if (!node || !members.has(acc) || node.detectedPatterns.includes('amount_conserved')) continue;
+      node.suspicionScore = Math.min(100, node.suspicionScore + scores.conservation);
+      node.detectedPatterns.push('amount_conserved');
+    }
+    ring.risk_score = averageScore(ring.member_accounts, nodes);
+  }
+}
+
 // =============================================
 // MAIN ANALYSIS ENTRY POINT
 // =============================================
 export function analyzeTransactions(
-  transactions: Transaction[]
+  transactions: Transaction[],
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG,
+  accounts?: AccountMasterData
 ): AnalysisResult {
+  const configErrors = validateDetectionConfig(config);
+  if (configErrors.length > 0) {
+    throw new Error(`Invalid detection settings: ${configErrors.map((e) => e.message).join('; ')}`);
+  }
   const startTime = performance.now();
 
+  // 0. Net out or exclude reversals so refunds don't close loops or add velocity
+  const { transactions: settled, summary: reversals } = applyReversals(transactions, config.reversalPolicy);
+
   // 1. Build graph
-  const { nodes, edges, adjacency } = buildGraph(transactions);
+  const { nodes, edges, adjacency, reverseAdj, edgesByTime } = buildGraph(settled, accounts);
   const nodeIds = Array.from(nodes.keys());
 
-  // 2. Detect cycles (length 3-5)
-  const { cycles } = detectCycles(adjacency, nodeIds);
+  // 2. Detect cycles
+  const { cycles: structural, search: cycleSearch } = detectCycles(adjacency, reverseAdj, nodeIds, config.cycles);
+
+  // 2b. Temporal mode keeps only cycles the money went round in order
+  const { tolerance } = config.conservation;
+  let cycles = structural;
+  const loops = new Map<string[], CycleLoop>();
+  const cycleFlows = new Map<string[], AmountFlow>();
+  if (config.temporalCycles.enabled) {
+    const edgesByPair = groupEdgesByPair(edgesByTime);
+    const budget: SearchBudget = { deadline: performance.now() + config.cycles.timeBudgetSeconds * 1000, steps: 0, exhausted: false };
+    for (const cycle of structural) {
+      const hops = findTemporalLoop(cycle, edgesByPair, config.temporalCycles, budget);
+      if (budget.exhausted) {
+        cycleSearch.truncated = 'time_budget';
+        break;
+      }
+      if (!hops) continue;
+      const loop = toCycleLoop(hops);
+      loops.set(loop.accounts, loop);
+      cycleFlows.set(loop.accounts, amountFlow(loop.accounts, hops.map((e) => e.amountMinor), tolerance));
+    }
+    cycles = Array.from(loops.keys());
+    cycleSearch.inTimeOrder = cycles.length;
+  }
 
   // Build cycleNodes map (account → { length, ringId placeholder })
   const cycleNodes = new Map<string, { length: number; ringId: string }>();
@@ -510,20 +1014,62 @@ export function analyzeTransactions(
   }
 
   // 3. Smurfing
-  const { fanInAccounts, fanOutAccounts } = detectSmurfing(edges);
+  const { fanInAccounts, fanOutAccounts } = detectSmurfing(edges, config.smurfing, config.channelWeights.smurfing);
 
-  // 4. Shell chains
-  const { shellAccounts } = detectShellChains(nodes, adjacency);
+  // 4. Shell chains, with the amount conservation along each
+  const volumes = pairVolumes(edges);
+  const { shellAccounts, chainFlows } = detectShellChains(nodes, adjacency, config.shellChains, volumes, tolerance);
+
+  // 4b. Amount conservation along each cycle
+  for (const cycle of cycles) {
+    if (!cycleFlows.has(cycle)) cycleFlows.set(cycle, cycleFlow(cycle, volumes, tolerance));
+  }
 
   // 5. High velocity
-  const highVelocity = detectHighVelocity(edges);
+  const highVelocity = detectHighVelocity(edges, config.velocity, config.channelWeights.velocity);
+
+  // 5b. New personal accounts with many early senders (only with master data)
+  const newAccountInflows = accounts ? detectNewAccountInflows(nodes, edges, config.newAccounts) : new Set<string>();
 
   // 6. Score
-  scoreAccounts(nodes, cycleNodes, fanInAccounts, fanOutAccounts, shellAccounts, highVelocity);
+  scoreAccounts(
+    nodes,
+    cycleNodes,
+    fanInAccounts,
+    fanOutAccounts,
+    shellAccounts,
+    highVelocity,
+    newAccountInflows,
+    config.scores
+  );
 
+  // 7. Suppress payroll, merchant and allowlisted flags; rings only form from what is left
+  const suppressions = filterFalsePositives(nodes, edges, config);
+  const stillFlagged = (accounts: Set<string>, pattern: PatternType) =>
+    new Set(Array.from(accounts).filter((acc) => nodes.get(acc)!.detectedPatterns.includes(pattern)));
+  const ringCycles: RingCycle[] = cycles
+    .map((cycle) => ({
+      members: cycle.filter((acc) => nodes.get(acc)!.detectedPatterns.some((p) => p.startsWith('cycle'))),
+      loop: loops.get(cycle),
+      flow: cycleFlows.get(cycle),
+    }))
+    .filter((cycle) => cycle.members.length > 0);
+
+  const ringShells = stillFlagged(shellAccounts, 'shell_chain');
+  const ringChainFlows = chainFlows.filter((flow) => flow.accounts.every((acc) => ringShells.has(acc)));
 
   // 8. Assemble fraud rings
-  const fraudRings = assembleFraudRings(cycles, fanInAccounts, fanOutAccounts, shellAccounts, nodes);
+  const fraudRings = assembleFraudRings(
+    ringCycles,
+    stillFlagged(fanInAccounts, 'fan_in'),
+    stillFlagged(fanOutAccounts, 'fan_out'),
+    ringShells,
+    ringChainFlows,
+    nodes
+  );
+
+  // 8b. Only the flow each ring reports counts toward its members' scores
+  scoreConservation(fraudRings, nodes, config.scores);
 
   // 9. Build suspicious accounts list
   const suspiciousAccounts: SuspiciousAccount[] = Array.from(nodes.values())
@@ -534,9 +1080,12 @@ export function analyzeTransactions(
       suspicion_score: Math.round(n.suspicionScore * 10) / 10,
       detected_patterns: n.detectedPatterns,
       ring_id: n.ringId,
+      ...(n.party ? { party: n.party } : {}),
+      ...(n.attributes ? { attributes: n.attributes } : {}),
     }));
 
   const processingTime = (performance.now() - startTime) / 1000;
+  const baseCurrency = transactions.find((tx) => tx.baseCurrency)?.baseCurrency;
 
   return {
     suspicious_accounts: suspiciousAccounts,
@@ -545,8 +1094,14 @@ export function analyzeTransactions(
       total_accounts_analyzed: nodes.size,
       suspicious_accounts_flagged: suspiciousAccounts.length,
       fraud_rings_detected: fraudRings.length,
+      false_positives_suppressed: new Set(suppressions.map((s) => s.account_id)).size,
       processing_time_seconds: Math.round(processingTime * 100) / 100,
     },
+    reversals,
+    cycleSearch,
+    ...(baseCurrency ? { baseCurrency } : {}),
+    config,
+    suppressions,
     nodes,
     edges,
   };
@@ -0,0 +1,90 @@
+import { DuplicateReport, IngestionSummary, ParseOptions, ParseResult, RejectedRow, Transaction, ValidationError } from '@/types';
+import { emptyDuplicateReport, resolveDuplicates } from './duplicates';
+import { pairStatementEntries } from './statementParser';
+
+export interface ParsedFile {
+  name: string;
+  result: ParseResult;
+}
+
+function mergeDuplicateReports(a: DuplicateReport, b: DuplicateReport): DuplicateReport {
+  return {
+    policy: b.policy,
+    exactDuplicates: a.exactDuplicates + b.exactDuplicates,
+    conflictingIds: a.conflictingIds + b.conflictingIds,
+    conflictingRecords: a.conflictingRecords + b.conflictingRecords,
+    removed: a.removed + b.removed,
+    sampleConflictIds: [...a.sampleConflictIds, ...b.sampleConflictIds].slice(0, 10),
+  };
+}
+
+// =============================================
+// Multi-file Merge
+// =============================================
+// Each file is validated (and de-duplicated) on its own first; the merge tags
+// every transaction with its source file, de-duplicates across files and
+// pairs the two statement sides of internal transfers.
+export function mergeParsedFiles(
+  files: ParsedFile[],
+  options: ParseOptions = {}
+): { result: ParseResult; summary: IngestionSummary } {
+  const transactions: Transaction[] = [];
+  const rejected: RejectedRow[] = [];
+  let duplicates = emptyDuplicateReport(options.duplicatePolicy);
+
+  const perFile = files.map(({ name, result }) => {
+    for (const tx of result.transactions) {
+      tx.sourceFile = name;
+      transactions.push(tx);
+    }
+    for (const r of result.rejected ?? []) rejected.push({ ...r, sourceFile: name });
+    if (result.duplicates) duplicates = mergeDuplicateReports(duplicates, result.duplicates);
+    const fileRejected = result.rejected?.length ?? 0;
+    return {
+      name,
+      rowsRead: result.transactions.length + fileRejected + (result.duplicates?.removed ?? 0),
+      transactions: result.transactions.length,
+      rowsRejected: fileRejected,
+      ...(result.columnNulls ? { columnNulls: result.columnNulls } : {}),
+      ...(result.dialect ? { dialect: result.dialect } : {}),
+    };
+  });
+
+  const crossFile = resolveDuplicates(transactions, options.duplicatePolicy);
+  duplicates = mergeDuplicateReports(duplicates, crossFile.report);
+  const paired = pairStatementEntries(crossFile.transactions);
+
+  const errors: ValidationError[] = crossFile.errors.map((e) => ({
+    ...e,
+    message: `Across files: ${e.message}`,
+  }));
+  // Each file is single-currency on its own; totals need every file in the same one
+  const currencies = new Set<string>();
+  for (const tx of paired.transactions) if (tx.baseCurrency) currencies.add(tx.baseCurrency);
+  if (currencies.size > 1) {
+    errors.push({ message: `Across files: amounts are in ${[...currencies].join(', ')} — mixed currencies need an FX rate table` });
+  }
+  if (errors.length === 0 && paired.transactions.length === 0) {
+    errors.push({ message: 'No transactions found in the selected files.' });
+  }
+  const merged: ParseResult = {
+    success: errors.length === 0 && paired.transactions.length > 0,
+    transactions: paired.transactions,
+    errors,
+    rowCount: paired.transactions.length,
+    ...(options.mode === 'partial' ? { rejected } : {}),
+    duplicates,
+  };
+
+  return {
+    result: merged,
+    summary: {
+      rowsRead: perFile.reduce((n, f) => n + f.rowsRead, 0),
+      transactions: paired.transactions.length,
+      rowsRejected: rejected.length,
+      duplicates,
+      files: perFile,
+      ...(paired.pairs > 0 ? { statementPairs: paired.pairs } : {}),
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { parseISO20022 } from './iso20022Parser';
+
+const IBAN = 'DE89370400440532013000';
+
+// One booked DBIT entry batching three payments, none of which carries its own references
+const BATCH_STATEMENT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>STMT-2024-03-01</MsgId><CreDtTm>2024-03-01T18:00:00</CreDtTm></GrpHdr>
+    <Stmt>
+      <Id>STMT-1</Id>
+      <Acct><Id><IBAN>${IBAN}</IBAN></Id></Acct>
+      <Ntry>
+        <NtryRef>N-77</NtryRef>
+        <Amt Ccy="EUR">600.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2024-03-01</Dt></BookgDt>
+        <AcctSvcrRef>BATCH-9</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <Amt Ccy="EUR">100.00</Amt>
+            <RltdPties><CdtrAcct><Id><Othr><Id>PAYEE-1</Id></Othr></Id></CdtrAcct></RltdPties>
+          </TxDtls>
+          <TxDtls>
+            <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+            <Amt Ccy="EUR">200.00</Amt>
+            <RltdPties><CdtrAcct><Id><Othr><Id>PAYEE-2</Id></Othr></Id></CdtrAcct></RltdPties>
+          </TxDtls>
+          <TxDtls>
+            <Refs><EndToEndId>E2E-3</EndToEndId></Refs>
+            <Amt Ccy="EUR">300.00</Amt>
+            <RltdPties><CdtrAcct><Id><Othr><Id>PAYEE-3</Id></Othr></Id></CdtrAcct></RltdPties>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <NtryRef>N-78</NtryRef>
+        <Amt Ccy="EUR">50.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2024-03-01</Dt></BookgDt>
+        <AcctSvcrRef>SINGLE-1</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <RltdPties><DbtrAcct><Id><Othr><Id>PAYER-1</Id></Othr></Id></DbtrAcct></RltdPties>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+// jsdom's File has no text(); the parser needs nothing else
+const xmlFile = (xml: string) => ({ name: 'statement.xml', size: xml.length, text: async () => xml }) as unknown as File;
+
+describe('parseISO20022 — camt.053', () => {
+  it('keeps every detail of a batched entry that falls back to entry-level refs', async () => {
+    const result = await parseISO20022(xmlFile(BATCH_STATEMENT));
+
+    expect(result.success).toBe(true);
+    expect(result.duplicates?.removed ?? 0).toBe(0);
+    const rows = result.transactions.map((t) => [t.transaction_id, t.receiver_id, t.amount]);
+    expect(rows).toEqual([
+      [expect.stringContaining('BATCH-9/1'), 'PAYEE-1', 100],
+      [expect.stringContaining('BATCH-9/2'), 'PAYEE-2', 200],
+      [expect.stringContaining('E2E-3'), 'PAYEE-3', 300],
+      [expect.stringContaining('SINGLE-1'), IBAN, 50],
+    ]);
+    expect(result.transactions[3].transaction_id).not.toContain('/');
+  });
+});
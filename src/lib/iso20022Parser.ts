@@ -0,0 +1,277 @@
+import { ParseOptions, ParseResult, PartyDetails } from '@/types';
+import { ParseCallbacks } from './csvParser';
+import { PaymentRecord, compactParty, validatePaymentRecords } from './paymentMessages';
+
+// =============================================
+// ISO 20022 Payment Messages
+// =============================================
+// pain.001  customer credit transfer initiation — PmtInf / CdtTrfTxInf
+// pacs.008  FI-to-FI customer credit transfer   — CdtTrfTxInf
+// camt.053  bank-to-customer statement          — Stmt / Ntry / TxDtls
+//
+// Elements are matched by local name, so any message version (and an
+// optional business application header envelope) parses the same way.
+export type Iso20022Message = 'pain.001' | 'pacs.008' | 'camt.053';
+
+const MESSAGE_ROOTS: Record<string, Iso20022Message> = {
+  CstmrCdtTrfInitn: 'pain.001',
+  FIToFICstmrCdtTrf: 'pacs.008',
+  BkToCstmrStmt: 'camt.053',
+};
+
+// Placeholder banks put in EndToEndId when the originator gave none
+const NOT_PROVIDED = 'NOTPROVIDED';
+
+function children(el: Element | null, name: string): Element[] {
+  return el ? Array.from(el.children).filter((c) => c.localName === name) : [];
+}
+
+function child(el: Element | null, ...path: string[]): Element | null {
+  let current = el;
+  for (const name of path) {
+    current = children(current, name)[0] ?? null;
+    if (!current) return null;
+  }
+  return current;
+}
+
+function text(el: Element | null, ...path: string[]): string {
+  return child(el, ...path)?.textContent?.trim() ?? '';
+}
+
+// Dates are either plain text (older versions) or wrapped in <Dt>/<DtTm>
+function dateOf(el: Element | null): string {
+  if (!el) return '';
+  return text(el, 'DtTm') || text(el, 'Dt') || el.textContent?.trim() || '';
+}
+
+function accountId(acct: Element | null): string {
+  return text(acct, 'Id', 'IBAN') || text(acct, 'Id', 'Othr', 'Id');
+}
+
+function amountOf(el: Element | null): { amount: string; currency: string } {
+  return { amount: el?.textContent?.trim() ?? '', currency: el?.getAttribute('Ccy')?.trim() ?? '' };
+}
+
+function bicOf(agent: Element | null): string {
+  return text(agent, 'FinInstnId', 'BICFI') || text(agent, 'FinInstnId', 'BIC');
+}
+
+function addressOf(party: Element | null): string {
+  const adr = child(party, 'PstlAdr');
+  if (!adr) return '';
+  const lines = children(adr, 'AdrLine').map((l) => l.textContent?.trim() ?? '');
+  const structured = ['StrtNm', 'BldgNb', 'PstCd', 'TwnNm', 'Ctry'].map((n) => text(adr, n));
+  return [...lines, ...structured].filter(Boolean).join(', ');
+}
+
+// camt.053 v8+ wraps the party in <Pty>; earlier versions don't
+function partyElement(el: Element | null): Element | null {
+  return child(el, 'Pty') ?? el;
+}
+
+function partyOf(party: Element | null, agent: Element | null): PartyDetails | undefined {
+  const p = partyElement(party);
+  return compactParty({ name: text(p, 'Nm'), bic: bicOf(agent), address: addressOf(p) });
+}
+
+function firstReference(...refs: string[]): string {
+  return refs.find((r) => r && r.toUpperCase() !== NOT_PROVIDED) ?? '';
+}
+
+function references(refs: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(refs).filter(([, v]) => v));
+}
+
+// "urn:iso:std:iso:20022:tech:xsd:pacs.008.001.08" → "pacs.008.001.08"
+function messageVersion(root: Element, message: Iso20022Message): string {
+  const ns = root.namespaceURI ?? root.ownerDocument.documentElement.namespaceURI ?? '';
+  return ns.match(/[a-z]{4}\.\d{3}\.\d{3}\.\d{2}/)?.[0] ?? message;
+}
+
+// =============================================
+// Per-message Extraction
+// =============================================
+function extractPain001(root: Element, message: string): Omit<PaymentRecord, 'row'>[] {
+  const createdAt = text(root, 'GrpHdr', 'CreDtTm');
+  return children(root, 'PmtInf').flatMap((pmtInf) => {
+    const debtorAccount = accountId(child(pmtInf, 'DbtrAcct'));
+    const debtor = partyOf(child(pmtInf, 'Dbtr'), child(pmtInf, 'DbtrAgt'));
+    const executionDate = dateOf(child(pmtInf, 'ReqdExctnDt')) || createdAt;
+
+    return children(pmtInf, 'CdtTrfTxInf').map((tx) => {
+      const { amount, currency } = amountOf(child(tx, 'Amt', 'InstdAmt'));
+      const endToEndId = text(tx, 'PmtId', 'EndToEndId');
+      const instructionId = text(tx, 'PmtId', 'InstrId');
+      return {
+        values: {
+          transaction_id: firstReference(endToEndId, instructionId, text(tx, 'PmtId', 'UETR')),
+          sender_id: debtorAccount,
+          receiver_id: accountId(child(tx, 'CdtrAcct')),
+          amount,
+          currency,
+          timestamp: executionDate,
+          channel: 'wire',
+        },
+        senderParty: debtor,
+        receiverParty: partyOf(child(tx, 'Cdtr'), child(tx, 'CdtrAgt')),
+        metadata: {
+          message,
+          ...references({
+            payment_information_id: text(pmtInf, 'PmtInfId'),
+            end_to_end_id: endToEndId,
+            instruction_id: instructionId,
+            remittance: text(tx, 'RmtInf', 'Ustrd'),
+          }),
+        },
+      };
+    });
+  });
+}
+
+function extractPacs008(root: Element, message: string): Omit<PaymentRecord, 'row'>[] {
+  const createdAt = text(root, 'GrpHdr', 'CreDtTm');
+  const groupSettlementDate = text(root, 'GrpHdr', 'IntrBkSttlmDt');
+
+  return children(root, 'CdtTrfTxInf').map((tx) => {
+    const instructed = child(tx, 'InstdAmt') ? amountOf(child(tx, 'InstdAmt')) : amountOf(child(tx, 'IntrBkSttlmAmt'));
+    const endToEndId = text(tx, 'PmtId', 'EndToEndId');
+    const txId = text(tx, 'PmtId', 'TxId');
+    const uetr = text(tx, 'PmtId', 'UETR');
+    return {
+      values: {
+        transaction_id: firstReference(endToEndId, txId, uetr, text(tx, 'PmtId', 'InstrId')),
+        sender_id: accountId(child(tx, 'DbtrAcct')),
+        receiver_id: accountId(child(tx, 'CdtrAcct')),
+        amount: instructed.amount,
+        currency: instructed.currency,
+        timestamp: text(tx, 'IntrBkSttlmDt') || groupSettlementDate || createdAt,
+        channel: 'wire',
+      },
+      senderParty: partyOf(child(tx, 'Dbtr'), child(tx, 'DbtrAgt')),
+      receiverParty: partyOf(child(tx, 'Cdtr'), child(tx, 'CdtrAgt')),
+      metadata: {
+        message,
+        ...references({
+          end_to_end_id: endToEndId,
+          transaction_id: txId,
+          uetr,
+          remittance: text(tx, 'RmtInf', 'Ustrd'),
+        }),
+      },
+    };
+  });
+}
+
+// Statement entries are one-sided: the statement account is the debtor on
+// DBIT entries and the creditor on CRDT entries; the other side comes from
+// the related parties of each transaction detail.
+function extractCamt053(root: Element, message: string): Omit<PaymentRecord, 'row'>[] {
+  return children(root, 'Stmt').flatMap((stmt) => {
+    const ownAccount = accountId(child(stmt, 'Acct'));
+    const ownParty = compactParty({ name: text(stmt, 'Acct', 'Ownr', 'Nm'), bic: bicOf(child(stmt, 'Acct', 'Svcr')) });
+    const statementId = text(stmt, 'Id');
+
+    return children(stmt, 'Ntry').flatMap((ntry) => {
+      const debit = text(ntry, 'CdtDbtInd') === 'DBIT';
+      const bookingDate = dateOf(child(ntry, 'BookgDt')) || dateOf(child(ntry, 'ValDt'));
+      const details = children(child(ntry, 'NtryDtls'), 'TxDtls');
+      const entryAmount = amountOf(child(ntry, 'Amt'));
+
+      return (details.length > 0 ? details : [null]).map((tx, i) => {
+        const own = debit ? 'Dbtr' : 'Cdtr';
+        const other = debit ? 'Cdtr' : 'Dbtr';
+        const counterpartyAccount = accountId(child(tx, 'RltdPties', `${other}Acct`));
+        const counterparty = partyOf(child(tx, 'RltdPties', other), child(tx, 'RltdAgts', `${other}Agt`));
+        const { amount, currency } = child(tx, 'Amt')
+          ? amountOf(child(tx, 'Amt'))
+          : child(tx, 'AmtDtls', 'TxAmt', 'Amt')
+          ? amountOf(child(tx, 'AmtDtls', 'TxAmt', 'Amt'))
+          : entryAmount;
+        const endToEndId = text(tx, 'Refs', 'EndToEndId');
+        const serviceRef = text(tx, 'Refs', 'AcctSvcrRef') || text(ntry, 'AcctSvcrRef');
+        const ownDetails = partyOf(child(tx, 'RltdPties', own), null) ?? ownParty;
+        // A batched entry shares its entry-level refs across the details; number them so they stay distinct
+        const txRef = firstReference(endToEndId, text(tx, 'Refs', 'TxId'), text(tx, 'Refs', 'AcctSvcrRef'));
+        const entryRef = firstReference(text(ntry, 'AcctSvcrRef'), text(ntry, 'NtryRef'));
+
+        return {
+          values: {
+            transaction_id: txRef || (entryRef && details.length > 1 ? `${entryRef}/${i + 1}` : entryRef),
+            sender_id: debit ? ownAccount : counterpartyAccount,
+            receiver_id: debit ? counterpartyAccount : ownAccount,
+            amount,
+            currency,
+            timestamp: bookingDate,
+            direction: debit ? 'outbound' : 'inbound',
+          },
+          senderParty: debit ? ownDetails : counterparty,
+          receiverParty: debit ? counterparty : ownDetails,
+          metadata: {
+            message,
+            ...references({
+              statement_id: statementId,
+              end_to_end_id: endToEndId,
+              account_servicer_reference: serviceRef,
+              remittance: text(tx, 'RmtInf', 'Ustrd'),
+            }),
+          },
+        };
+      });
+    });
+  });
+}
+
+const EXTRACTORS: Record<Iso20022Message, (root: Element, message: string) => Omit<PaymentRecord, 'row'>[]> = {
+  'pain.001': extractPain001,
+  'pacs.008': extractPacs008,
+  'camt.053': extractCamt053,
+};
+
+// =============================================
+// ISO 20022 Parse
+// =============================================
+// Messages are small next to CSV exports, so the document is read whole.
+// DOMParser is not available in workers; this runs on the main thread.
+export async function parseISO20022(
+  file: File,
+  options: ParseOptions = {},
+  callbacks: ParseCallbacks = {}
+): Promise<ParseResult> {
+  const { onProgress, signal } = callbacks;
+  const xml = await file.text();
+  if (signal?.aborted) {
+    return { success: false, cancelled: true, transactions: [], errors: [{ message: 'Parsing cancelled.' }], rowCount: 0 };
+  }
+
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const parseError = doc.getElementsByTagName('parsererror')[0];
+  if (parseError) {
+    return {
+      success: false,
+      transactions: [],
+      errors: [{ message: `XML parse error: ${parseError.textContent?.trim().split('\n')[0] ?? 'malformed document'}` }],
+      rowCount: 0,
+    };
+  }
+
+  const root = Object.keys(MESSAGE_ROOTS)
+    .map((name) => doc.getElementsByTagNameNS('*', name)[0])
+    .find(Boolean);
+  if (!root) {
+    return {
+      success: false,
+      transactions: [],
+      errors: [{ message: 'Not a supported ISO 20022 message — expected pain.001, pacs.008 or camt.053.' }],
+      rowCount: 0,
+    };
+  }
+
+  const message = MESSAGE_ROOTS[root.localName];
+  const records = EXTRACTORS[message](root, messageVersion(root, message)).map((r, i) => ({ ...r, row: i + 1 }));
+  onProgress?.({ bytesRead: file.size, totalBytes: file.size, rows: records.length });
+  if (records.length === 0) {
+    return { success: false, transactions: [], errors: [{ message: `The ${message} message contains no transactions.` }], rowCount: 0 };
+  }
+  return validatePaymentRecords(records, options);
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { parseJSON } from './jsonParser';
+
+const jsonFile = (text: string, name = 'transfers.json') => {
+  const bytes = new TextEncoder().encode(text);
+  return {
+    name,
+    size: bytes.length,
+    slice: (start: number, end: number) => ({ arrayBuffer: async () => bytes.slice(start, end).buffer }),
+  } as unknown as File;
+};
+
+const record = (id: string, extra: Record<string, unknown> = {}) => ({
+  transaction_id: id,
+  sender_id: 'A',
+  receiver_id: 'B',
+  amount: '10.00',
+  timestamp: '2024-03-01',
+  ...extra,
+});
+
+describe('parseJSON array splitting', () => {
+  it('ignores brackets, braces and commas inside strings, escaped quotes included', async () => {
+    const memo = 'rent "March", ] } [ { \\ end';
+    const result = await parseJSON(jsonFile(JSON.stringify([record('T"1', { memo }), record('T2')], null, 2)));
+
+    expect(result.success).toBe(true);
+    expect(result.transactions.map((t) => t.transaction_id)).toEqual(['T"1', 'T2']);
+    expect(result.transactions[0].metadata).toEqual({ memo });
+  });
+
+  it('reports a scalar element, also right before the closing bracket, by position', async () => {
+    const text = `[${JSON.stringify(record('T1'))}, "stray", ${JSON.stringify(record('T3'))}, 42]`;
+    const result = await parseJSON(jsonFile(text), { mode: 'partial' });
+
+    expect(result.transactions.map((t) => t.transaction_id)).toEqual(['T1', 'T3']);
+    expect(result.rejected?.map((r) => [r.row, r.values.record])).toEqual([
+      [2, '"stray"'],
+      [4, '42'],
+    ]);
+  });
+
+  it('reports a truncated last element', async () => {
+    const text = `[${JSON.stringify(record('T1'))}, {"transaction_id": "T2", "amo`;
+    const result = await parseJSON(jsonFile(text), { mode: 'partial' });
+
+    expect(result.transactions.map((t) => t.transaction_id)).toEqual(['T1']);
+    expect(result.rejected).toHaveLength(1);
+    expect(result.rejected?.[0]).toMatchObject({ row: 2, reason: 'Row 2: not a valid JSON object' });
+  });
+});
+
+describe('parseJSON NDJSON', () => {
+  it('numbers records by line and skips blank lines', async () => {
+    const text = [JSON.stringify(record('T1')), '', JSON.stringify(record('T2', { amount: 'x' })), '{"broken"', JSON.stringify(record('T4'))].join('\n');
+    const result = await parseJSON(jsonFile(text, 'transfers.ndjson'), { mode: 'partial' });
+
+    expect(result.transactions.map((t) => t.transaction_id)).toEqual(['T1', 'T4']);
+    expect(result.rejected?.map((r) => [r.row, r.field ?? null])).toEqual([
+      [3, 'amount'],
+      [4, null],
+    ]);
+  });
+});
+
+describe('parseJSON fields', () => {
+  it('keeps unmapped fields as metadata with their nesting, and drops mapped paths', async () => {
+    const text = JSON.stringify([
+      { id: 'T1', payer: { account: 'A', name: 'Alice' }, payee: { account: 'B' }, value: 5, at: '2024-03-01', tags: ['x'] },
+    ]);
+    const mapping = { transaction_id: 'id', sender_id: 'payer.account', receiver_id: 'payee.account', amount: 'value', timestamp: 'at' };
+    const [tx] = (await parseJSON(jsonFile(text), { mapping })).transactions;
+
+    expect(tx).toMatchObject({ sender_id: 'A', receiver_id: 'B', amountMinor: 500 });
+    expect(tx.metadata).toEqual({ payer: { name: 'Alice' }, tags: ['x'] });
+  });
+
+  it('reads optional fields that first appear after the first chunk', async () => {
+    // Past the 2 MB first read, so the first batch of records never shows "channel" or "status"
+    const plain = Array.from({ length: 30_000 }, (_, i) => record(`T${i}`));
+    const late = [record('L1', { channel: 'wire', status: 'completed' }), record('L2', { channel: 'card' })];
+    const result = await parseJSON(jsonFile(JSON.stringify([...plain, ...late])));
+
+    expect(result.rowCount).toBe(30_002);
+    expect(result.transactions.slice(-2)).toMatchObject([{ channel: 'wire', status: 'completed' }, { channel: 'card' }]);
+    expect(result.transactions.at(-1)?.metadata).toBeUndefined();
+    expect(result.columnNulls).toMatchObject({ transaction_id: 0, channel: 30_000, status: 30_001 });
+  });
+
+  it('reports at most MAX_REPORTED_ERRORS row errors before summarising', async () => {
+    const rows = (n: number) => JSON.stringify(Array.from({ length: n }, (_, i) => record(`T${i}`, { amount: 'x' })));
+
+    expect((await parseJSON(jsonFile(rows(20)))).errors).toHaveLength(20);
+    const over = await parseJSON(jsonFile(rows(21)));
+    expect(over.errors).toHaveLength(11);
+    expect(over.errors[10].message).toBe('...and 11 more errors. Please check your CSV file format.');
+  });
+});
@@ -0,0 +1,288 @@
+import { ColumnNullCounts, ParseOptions, ParseResult, RejectedRow, Transaction, ValidationError } from '@/types';
+import {
+  MAX_REPORTED_ERRORS,
+  ParseCallbacks,
+  buildParseResult,
+  checkRequiredColumns,
+  createRowValidator,
+  resolveColumns,
+  withDuplicatesResolved,
+} from './csvParser';
+
+const CHUNK_SIZE = 2 * 1024 * 1024; // bytes decoded per read — also the progress granularity
+const HEADER_SAMPLE_BYTES = 256 * 1024;
+const HEADER_SAMPLE_RECORDS = 100;
+
+type JsonRecord = Record<string, unknown>;
+
+// array:  [ {...}, {...} ]
+// ndjson: one object per line (.ndjson / .jsonl)
+export type JsonLayout = 'array' | 'ndjson';
+
+export function detectJSONLayout(text: string): JsonLayout {
+  const first = text.replace(/^\uFEFF/, '').trimStart()[0];
+  return first === '[' ? 'array' : 'ndjson';
+}
+
+function isPlainObject(value: unknown): value is JsonRecord {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// =============================================
+// Record Flattening
+// =============================================
+// Nested objects become dotted paths ("payer.account.id") so they can be
+// mapped like CSV headers; arrays are kept as their JSON text.
+export function flattenRecord(record: JsonRecord, prefix = '', out: Record<string, string> = {}): Record<string, string> {
+  for (const [key, value] of Object.entries(record)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) flattenRecord(value, path, out);
+    else if (value === null || value === undefined) out[path] = '';
+    else out[path] = Array.isArray(value) ? JSON.stringify(value) : String(value);
+  }
+  return out;
+}
+
+// Everything the column mapping did not consume, nesting preserved
+function unmappedFields(record: JsonRecord, mapped: Set<string>, prefix = ''): JsonRecord {
+  const rest: JsonRecord = {};
+  for (const [key, value] of Object.entries(record)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (mapped.has(path)) continue;
+    if (isPlainObject(value)) {
+      const nested = unmappedFields(value, mapped, path);
+      if (Object.keys(nested).length > 0) rest[key] = nested;
+    } else {
+      rest[key] = value;
+    }
+  }
+  return rest;
+}
+
+// =============================================
+// Record Splitting
+// =============================================
+// Cuts decoded text into one string per record so large files never go
+// through a single JSON.parse. Records are numbered by line (NDJSON) or by
+// array position, and those numbers are what errors report as "Row N".
+interface RecordText {
+  row: number;
+  text: string;
+}
+
+interface RecordSplitter {
+  push: (chunk: string) => RecordText[];
+  flush: () => RecordText[];
+}
+
+function createLineSplitter(): RecordSplitter {
+  let carry = '';
+  let line = 0;
+  const toRecords = (lines: string[]) =>
+    lines.flatMap((text) => {
+      line++;
+      return text.trim() ? [{ row: line, text }] : [];
+    });
+
+  return {
+    push: (chunk) => {
+      const lines = (carry + chunk).split('\n');
+      carry = lines.pop() ?? '';
+      return toRecords(lines);
+    },
+    flush: () => {
+      const last = carry;
+      carry = '';
+      return toRecords([last]);
+    },
+  };
+}
+
+function createArraySplitter(): RecordSplitter {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let collecting = false;
+  let carry = '';
+  let element = 0;
+
+  return {
+    push: (chunk) => {
+      const out: RecordText[] = [];
+      let start = 0;
+      const emit = (end: number) => {
+        out.push({ row: ++element, text: carry + chunk.slice(start, end) });
+        carry = '';
+        collecting = false;
+      };
+
+      for (let i = 0; i < chunk.length; i++) {
+        const c = chunk[i];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (c === '\\') escaped = true;
+          else if (c === '"') inString = false;
+          continue;
+        }
+        if (depth === 1 && !collecting && c !== ',' && c !== ']' && !/\s/.test(c)) {
+          collecting = true;
+          start = i;
+        }
+        if (c === '"') {
+          inString = true;
+        } else if (c === '{' || c === '[') {
+          depth++;
+        } else if (c === '}' || c === ']') {
+          if (depth === 1 && collecting) emit(i); // scalar element right before the closing bracket
+          depth--;
+          if (depth === 1 && collecting) emit(i + 1);
+        } else if (c === ',' && depth === 1 && collecting) {
+          emit(i);
+        }
+      }
+      if (collecting) carry += chunk.slice(start);
+      return out;
+    },
+    // Whatever is left is a truncated element; emit it so it is reported
+    flush: () => (carry.trim() ? [{ row: ++element, text: carry }] : []),
+  };
+}
+
+function parseRecord(text: string): JsonRecord | null {
+  try {
+    const value = JSON.parse(text);
+    return isPlainObject(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function collectHeaders(records: JsonRecord[]): string[] {
+  const headers = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(flattenRecord(record))) headers.add(key);
+  }
+  return Array.from(headers);
+}
+
+// Field paths from the first records, for the column mapping step
+export async function readJSONHeaders(file: File): Promise<string[]> {
+  try {
+    const text = await file.slice(0, HEADER_SAMPLE_BYTES).text();
+    const split = detectJSONLayout(text) === 'array' ? createArraySplitter() : createLineSplitter();
+    const sample = file.size <= HEADER_SAMPLE_BYTES ? [...split.push(text), ...split.flush()] : split.push(text);
+    const records = sample
+      .slice(0, HEADER_SAMPLE_RECORDS)
+      .map((r) => parseRecord(r.text))
+      .filter((r): r is JsonRecord => r !== null);
+    return collectHeaders(records);
+  } catch {
+    return [];
+  }
+}
+
+// =============================================
+// Streaming JSON / NDJSON Parse
+// =============================================
+// Same validation and ParseResult as parseCSV; fields the mapping does not
+// use are kept on the transaction as metadata.
+export async function parseJSON(
+  file: File,
+  options: ParseOptions = {},
+  callbacks: ParseCallbacks = {}
+): Promise<ParseResult> {
+  const { onProgress, signal } = callbacks;
+  const columns = resolveColumns(options.mapping);
+  const mapped = new Set<string>(Object.values(columns));
+  const transactions: Transaction[] = [];
+  const errors: ValidationError[] = [];
+  const rejected: RejectedRow[] | undefined = options.mode === 'partial' ? [] : undefined;
+  let errorCount = 0;
+  let rowCount = 0;
+  let validate: ReturnType<typeof createRowValidator> | null = null;
+  // Records need not share keys: one first seen late counts as null in every earlier record
+  const columnNulls: ColumnNullCounts = {};
+  let counted = 0;
+  const countNulls = (values: Record<string, string>) => {
+    for (const key of Object.keys(values)) columnNulls[key] ??= counted;
+    for (const key of Object.keys(columnNulls)) {
+      if (!String(values[key] ?? '').trim()) columnNulls[key]++;
+    }
+    counted++;
+  };
+  let split: RecordSplitter | null = null;
+  const decoder = new TextDecoder();
+
+  const reject = (error: ValidationError, values: Record<string, string>) => {
+    if (errorCount < MAX_REPORTED_ERRORS) errors.push(error);
+    errorCount++;
+    rejected?.push({ row: error.row, field: error.field, reason: error.message, values });
+  };
+
+  // Returns a header error when the first records lack required fields
+  const handle = (records: RecordText[]): ValidationError | null => {
+    const parsed = records.map((r) => ({ ...r, record: parseRecord(r.text) }));
+    if (!validate) {
+      if (parsed.length === 0) return null;
+      const headers = collectHeaders(parsed.map((p) => p.record).filter((r): r is JsonRecord => r !== null));
+      const headerError = checkRequiredColumns(headers, columns);
+      if (headerError) return headerError;
+      // Optional fields may first appear in a later record, so every mapped one is read;
+      // a record without it is blank there, as in a CSV column
+      validate = createRowValidator([...mapped], options);
+    }
+
+    for (const { row, text, record } of parsed) {
+      rowCount++;
+      if (!record) {
+        reject({ row, message: `Row ${row}: not a valid JSON object` }, { record: text });
+        continue;
+      }
+      const values = flattenRecord(record);
+      countNulls(values);
+      const outcome = validate(values, row);
+      if ('error' in outcome) {
+        reject(outcome.error, values);
+        continue;
+      }
+      const metadata = unmappedFields(record, mapped);
+      transactions.push(
+        Object.keys(metadata).length > 0 ? { ...outcome.transaction, metadata } : outcome.transaction
+      );
+    }
+    return null;
+  };
+
+  try {
+    for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+      if (signal?.aborted) {
+        return { success: false, cancelled: true, transactions: [], errors: [{ message: 'Parsing cancelled.' }], rowCount };
+      }
+      const text = decoder.decode(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer(), { stream: true });
+      split ??= detectJSONLayout(text) === 'array' ? createArraySplitter() : createLineSplitter();
+      const headerError = handle(split.push(text));
+      if (headerError) return { success: false, transactions: [], errors: [headerError], rowCount: 0 };
+      onProgress?.({
+        bytesRead: Math.min(offset + CHUNK_SIZE, file.size),
+        totalBytes: file.size,
+        rows: rowCount,
+      });
+    }
+    if (split) {
+      const headerError = handle([...split.push(decoder.decode()), ...split.flush()]);
+      if (headerError) return { success: false, transactions: [], errors: [headerError], rowCount: 0 };
+    }
+  } catch (err) {
+    return {
+      success: false,
+      transactions: [],
+      errors: [{ message: `JSON read error: ${err instanceof Error ? err.message : String(err)}` }],
+      rowCount: 0,
+    };
+  }
+
+  return {
+    ...withDuplicatesResolved(buildParseResult(transactions, errors, errorCount, rowCount, rejected), options),
+    columnNulls,
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_MINOR_UNITS, currencyExponent, formatMinorUnits, parseMinorUnits } from './money';
+
+describe('currencyExponent', () => {
+  it('uses the ISO 4217 minor unit, and two decimals otherwise', () => {
+    expect(currencyExponent('JPY')).toBe(0);
+    expect(currencyExponent('KWD')).toBe(3);
+    expect(currencyExponent('CLF')).toBe(4);
+    expect(currencyExponent('EUR')).toBe(2);
+    expect(currencyExponent(undefined)).toBe(2);
+    expect(currencyExponent('')).toBe(2);
+  });
+});
+
+describe('parseMinorUnits', () => {
+  it('reads decimal text into integer minor units', () => {
+    expect(parseMinorUnits('1234.56', 2)).toBe(123456);
+    expect(parseMinorUnits('1234', 0)).toBe(1234);
+    expect(parseMinorUnits('1.234', 3)).toBe(1234);
+    expect(parseMinorUnits('.5', 2)).toBe(50);
+    expect(parseMinorUnits('5.', 2)).toBe(500);
+    expect(parseMinorUnits('+7', 2)).toBe(700);
+    expect(parseMinorUnits('-0.05', 2)).toBe(-5);
+  });
+
+  it('rounds digits past the minor unit half away from zero', () => {
+    expect(parseMinorUnits('1234.565', 2)).toBe(123457);
+    expect(parseMinorUnits('1234.564', 2)).toBe(123456);
+    expect(parseMinorUnits('-0.005', 2)).toBe(-1);
+    expect(parseMinorUnits('-0.004', 2)).toBe(0);
+    expect(parseMinorUnits('1234.5', 0)).toBe(1235);
+  });
+
+  it('applies a scientific exponent without going through a float', () => {
+    expect(parseMinorUnits('1.5e3', 2)).toBe(150_000);
+    expect(parseMinorUnits('12345E-4', 2)).toBe(123);
+    expect(parseMinorUnits('1e-3', 2)).toBe(0);
+  });
+
+  it('keeps amounts up to MAX_MINOR_UNITS exact and rejects larger ones', () => {
+    expect(parseMinorUnits('9007199254740.99', 2)).toBe(900_719_925_474_099);
+    expect(parseMinorUnits('10000000000000.00', 2)).toBe(MAX_MINOR_UNITS);
+    expect(parseMinorUnits('10000000000000.01', 2)).toBeNull();
+    expect(parseMinorUnits('1e20', 2)).toBeNull();
+  });
+
+  it('rejects text that is not a number', () => {
+    for (const text of ['', '.', '-', 'abc', '1,234.56', '12a']) expect(parseMinorUnits(text, 2)).toBeNull();
+  });
+
+  it('sums to the exact total where floats drift', () => {
+    const cents = Array.from({ length: 1000 }, () => parseMinorUnits('0.10', 2)!);
+    const total = cents.reduce((sum, c) => sum + c, 0);
+
+    expect(total).toBe(10_000);
+    expect(formatMinorUnits(total, 2)).toBe('100.00');
+    expect(Array.from({ length: 1000 }, () => 0.1).reduce((sum, x) => sum + x, 0)).not.toBe(100);
+  });
+});
+
+describe('formatMinorUnits', () => {
+  it('writes exact decimal text at the currency exponent', () => {
+    expect(formatMinorUnits(123456, 2)).toBe('1234.56');
+    expect(formatMinorUnits(-5, 2)).toBe('-0.05');
+    expect(formatMinorUnits(1, 3)).toBe('0.001');
+    expect(formatMinorUnits(7, 0)).toBe('7');
+    expect(formatMinorUnits(900_719_925_474_099, 2)).toBe('9007199254740.99');
+  });
+});
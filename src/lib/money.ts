@@ -0,0 +1,62 @@
+// =============================================
+// Money: Integer Minor Units
+// =============================================
+// Amounts are parsed from their decimal text straight into integer minor
+// units (cents, yen, fils) of their currency, and every aggregate sums those
+// integers, so totals reconcile with the source ledger to the last unit.
+// Float amounts are kept alongside for thresholds and display only.
+
+export const DEFAULT_CURRENCY_EXPONENT = 2;
+
+// ISO 4217 minor-unit exponents that differ from 2
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  CLF: 4, UYW: 4,
+};
+
+// 15 significant digits: every amount up to this converts to and from a float exactly
+export const MAX_MINOR_UNITS = 1e15;
+
+// Without a currency the amounts are treated as having two decimals
+export function currencyExponent(currency?: string): number {
+  return (currency ? CURRENCY_EXPONENTS[currency] : undefined) ?? DEFAULT_CURRENCY_EXPONENT;
+}
+
+// "1234.565" → 123457 at exponent 2; digits beyond the currency's minor unit
+// are rounded half away from zero. Expects canonical text ("." decimal point,
+// no grouping), as produced by normalizeLocaleNumber.
+export function parseMinorUnits(value: string, exponent: number): number | null {
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(value.trim());
+  if (!match || (!match[2] && !match[3])) return null;
+  const [, sign, whole, fraction = '', exp] = match;
+  // Move the decimal point by the scientific exponent plus the currency exponent
+  const shift = exponent + (exp ? Number(exp) : 0);
+  let digits = whole + fraction;
+  let point = whole.length + shift;
+  if (point < 0) {
+    digits = '0'.repeat(-point) + digits;
+    point = 0;
+  }
+  if (point - (digits.length - digits.replace(/^0+/, '').length) > 16) return null; // beyond MAX_MINOR_UNITS anyway
+  if (point > digits.length) digits = digits.padEnd(point, '0');
+  const integer = digits.slice(0, point) || '0';
+  const roundUp = digits.charCodeAt(point) >= 53; // next digit is 5 or more
+  const minor = Number(integer) + (roundUp ? 1 : 0);
+  if (!Number.isFinite(minor) || minor > MAX_MINOR_UNITS) return null;
+  return sign === '-' && minor !== 0 ? -minor : minor;
+}
+
+// Exact as a JSON number too: minor units stay below MAX_MINOR_UNITS
+export function fromMinorUnits(minor: number, exponent: number): number {
+  return minor / 10 ** exponent;
+}
+
+// Exact decimal text for exports: 123456 at exponent 2 → "1234.56"
+export function formatMinorUnits(minor: number, exponent: number): string {
+  const digits = Math.abs(minor).toString().padStart(exponent + 1, '0');
+  const whole = digits.slice(0, digits.length - exponent);
+  const fraction = exponent > 0 ? `.${digits.slice(digits.length - exponent)}` : '';
+  return `${minor < 0 ? '-' : ''}${whole}${fraction}`;
+}
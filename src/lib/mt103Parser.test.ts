@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { isMT103Text, parseMT103 } from './mt103Parser';
+
+const message = (reference: string, field32A: string) => `{1:F01BANKDEFFAXXX0000000000}{2:I103BANKGB2LXXXXN}{4:
+:20:${reference}
+:23B:CRED
+:32A:${field32A}
+:50K:/DE89370400440532013000
+ACME GMBH
+:59:/GB29NWBK60161331926819
+JOHN SMITH
+:71A:SHA
+-}`;
+
+// jsdom's File has no text(); the parser needs nothing else
+const textFile = (text: string) => ({ name: 'payments.fin', size: text.length, text: async () => text }) as unknown as File;
+
+describe('parseMT103', () => {
+  it('reads the 32A year in the century around the pivot', async () => {
+    const messages = [message('REF-1', '240115EUR1234,56'), message('REF-2', '991231EUR10,'), message('REF-3', '691231EUR10,')];
+    const result = await parseMT103(textFile(messages.join('\n')));
+
+    expect(result.success).toBe(true);
+    const rows = result.transactions.map((t) => [t.transaction_id, new Date(t.timestampMs).toISOString().slice(0, 10), t.amountMinor]);
+    expect(rows).toEqual([
+      ['REF-1', '2024-01-15', 123_456],
+      ['REF-2', '1999-12-31', 1_000],
+      ['REF-3', '2069-12-31', 1_000],
+    ]);
+  });
+});
+
+describe('isMT103Text', () => {
+  it('recognizes FIN blocks and bare block-4 field lists', () => {
+    expect(isMT103Text(message('REF-1', '240115EUR1,'))).toBe(true);
+    expect(isMT103Text('{4:\n:20:REF-1\n-}')).toBe(true);
+    expect(isMT103Text(':20:REF-1\n:32A:240115EUR1,\n-')).toBe(true);
+    expect(isMT103Text('\uFEFF\r\n\n{1:F01BANKDEFFAXXX0000000000}{4:\n:20:REF-1\n-}')).toBe(true);
+  });
+
+  it('only looks at the start of the file', () => {
+    expect(isMT103Text('id,memo\nT1,"see {1:F01BANKDEFFAXXX} copy"\n')).toBe(false);
+    expect(isMT103Text('id,memo\n:20:REF-1,pasted field\n')).toBe(false);
+    expect(isMT103Text('Payment report\n{4:\n:20:REF-1\n-}')).toBe(false);
+  });
+
+  it('does not mistake delimited text for MT103', () => {
+    expect(isMT103Text('transaction_id,sender_id,receiver_id,amount,timestamp\nT1,A,B,10.00,2024-01-15 12:20:00\n')).toBe(false);
+    expect(isMT103Text('id\tnote\nT1\tpaid at 10:20:30\n')).toBe(false);
+  });
+});
@@ -0,0 +1,218 @@
+import { ParseOptions, ParseResult, PartyDetails } from '@/types';
+import { ParseCallbacks } from './csvParser';
+import { PaymentRecord, compactParty, validatePaymentRecords } from './paymentMessages';
+
+// =============================================
+// SWIFT MT103 Messages
+// =============================================
+// A file holds one or more messages, either as full FIN messages
+// ({1:...}{2:...}{4:\n:20:...\n-}) or as bare block-4 field lists separated
+// by "-" / "$" lines. Only block 4 (and the UETR in block 3) is read:
+//
+// :20:   sender's reference        → transaction_id
+// :32A:  value date, currency, amount
+// :50K:  /account + name/address   (or 50A: /account + BIC, 50F: structured)
+// :59:   /account + name/address   (or 59A: /account + BIC)
+// :52A:  ordering institution BIC  :57A: account-with institution BIC
+
+interface Mt103Field {
+  tag: string;
+  value: string;
+}
+
+type Problem = NonNullable<PaymentRecord['problems']>[number];
+
+const BIC_REGEX = /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}(?:[A-Z0-9]{3})?$/;
+// YYMMDD, ISO currency, amount with a comma as decimal mark
+const FIELD_32A_REGEX = /^(\d{2})(\d{2})(\d{2})([A-Z]{3})(\d{1,15}),(\d{0,3})$/;
+// SWIFT went live in 1977: YY from the pivot up is 19YY, below it 20YY
+const CENTURY_PIVOT_YY = 70;
+
+// The file opens with a FIN block 1 header (or a bare block 4), or is a
+// block-4 field list whose first line is :20:. Only the start counts, so a
+// delimited export quoting "{1:" or ":20:" in some later row stays CSV.
+const MT103_START_REGEX = /^\uFEFF?\s*(?:\{[14]:|:20:)/;
+
+export function isMT103Text(text: string): boolean {
+  return MT103_START_REGEX.test(text);
+}
+
+// Splits a file into the block-4 text of each message
+function splitMessages(text: string): { body: string; header: string }[] {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  if (normalized.includes('{4:')) {
+    return normalized
+      .split(/(?=\{1:)/)
+      .map((msg) => {
+        const start = msg.indexOf('{4:');
+        if (start === -1) return null;
+        const end = msg.indexOf('\n-}', start);
+        return { header: msg.slice(0, start), body: msg.slice(start + 3, end === -1 ? undefined : end) };
+      })
+      .filter((m): m is { body: string; header: string } => m !== null && m.body.trim() !== '');
+  }
+  return normalized
+    .split(/^[-$]\}?\s*$/m)
+    .filter((body) => /^:\d{2}[A-Z]?:/m.test(body))
+    .map((body) => ({ header: '', body }));
+}
+
+function parseFields(body: string): Mt103Field[] {
+  const fields: Mt103Field[] = [];
+  for (const line of body.split('\n')) {
+    const tagged = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagged) fields.push({ tag: tagged[1], value: tagged[2].trim() });
+    else if (fields.length > 0 && line.trim()) fields[fields.length - 1].value += `\n${line.trim()}`;
+  }
+  return fields;
+}
+
+function lines(value: string): string[] {
+  return value.split('\n').map((l) => l.trim()).filter(Boolean);
+}
+
+// "/account" first line, when present
+function splitAccount(value: string): { account: string; rest: string[] } {
+  const [first = '', ...rest] = lines(value);
+  return first.startsWith('/') ? { account: first.slice(1).trim(), rest } : { account: '', rest: lines(value) };
+}
+
+interface PartyField {
+  account: string;
+  party?: PartyDetails;
+  problem?: Problem;
+}
+
+// 50K / 59 — account, then up to four name and address lines
+function parseNameAddress(tag: string, value: string): PartyField {
+  const { account, rest } = splitAccount(value);
+  if (!account) return { account, problem: { field: tag, message: `field ${tag} has no /account line` } };
+  const [name, ...address] = rest;
+  return { account, party: compactParty({ name, address: address.join(', ') }) };
+}
+
+// 50A / 59A — account, then the party's BIC
+function parseIdentifierCode(tag: string, value: string): PartyField {
+  const { account, rest } = splitAccount(value);
+  const bic = rest[0] ?? '';
+  if (!BIC_REGEX.test(bic)) return { account, problem: { field: tag, message: `field ${tag} BIC "${bic}" is not valid` } };
+  return { account: account || bic, party: { bic } };
+}
+
+// 50F — account (or party identifier), then numbered lines: 1/name, 2/address, 3/country and town
+function parseStructuredParty(tag: string, value: string): PartyField {
+  const [first = '', ...rest] = lines(value);
+  const account = first.startsWith('/') ? first.slice(1).trim() : first;
+  const numbered = (n: string) => rest.filter((l) => l.startsWith(`${n}/`)).map((l) => l.slice(2).trim());
+  if (!account || numbered('1').length === 0) {
+    return { account, problem: { field: tag, message: `field ${tag} is missing the account or the 1/ name line` } };
+  }
+  return {
+    account,
+    party: compactParty({ name: numbered('1').join(' '), address: [...numbered('2'), ...numbered('3')].join(', ') }),
+  };
+}
+
+function parseParty(field: Mt103Field | undefined, role: 'ordering' | 'beneficiary'): PartyField {
+  if (!field) {
+    const tags = role === 'ordering' ? '50A/50F/50K' : '59/59A';
+    return { account: '', problem: { field: role === 'ordering' ? '50K' : '59', message: `field ${tags} is missing` } };
+  }
+  if (field.tag.endsWith('A')) return parseIdentifierCode(field.tag, field.value);
+  if (field.tag === '50F') return parseStructuredParty(field.tag, field.value);
+  if (field.tag === '50K' || field.tag === '59') return parseNameAddress(field.tag, field.value);
+  return { account: '', problem: { field: field.tag, message: `field ${field.tag} option is not supported` } };
+}
+
+// 52A / 57A — optional "/party identifier" line, then the BIC
+function parseInstitution(field: Mt103Field | undefined): { bic?: string; problem?: Problem } {
+  if (!field) return {};
+  const bic = splitAccount(field.value).rest[0] ?? '';
+  return BIC_REGEX.test(bic) ? { bic } : { problem: { field: field.tag, message: `field ${field.tag} BIC "${bic}" is not valid` } };
+}
+
+function parse32A(value: string): { timestamp: string; currency: string; amount: string } | null {
+  const m = value.match(FIELD_32A_REGEX);
+  if (!m) return null;
+  const [, yy, mm, dd, currency, whole, fraction] = m;
+  const century = Number(yy) >= CENTURY_PIVOT_YY ? '19' : '20';
+  return { timestamp: `${century}${yy}-${mm}-${dd}`, currency, amount: fraction ? `${whole}.${fraction}` : whole };
+}
+
+function toRecord(header: string, body: string, row: number): PaymentRecord {
+  const fields = parseFields(body);
+  const field = (...tags: string[]) => fields.find((f) => tags.includes(f.tag));
+  const problems: Problem[] = [];
+
+  const messageType = header.match(/\{2:[IO](\d{3})/)?.[1];
+  if (messageType && messageType !== '103') {
+    problems.push({ message: `message type MT${messageType} is not supported — only MT103` });
+  }
+
+  const reference = field('20')?.value ?? '';
+  if (!reference) problems.push({ field: '20', message: 'field 20 (sender\'s reference) is missing' });
+
+  const raw32A = field('32A')?.value;
+  const valueDate = raw32A ? parse32A(raw32A) : null;
+  if (!raw32A) problems.push({ field: '32A', message: 'field 32A (value date/currency/amount) is missing' });
+  else if (!valueDate) problems.push({ field: '32A', message: `field 32A "${raw32A}" is not YYMMDD + currency + amount (e.g. 240115EUR1234,56)` });
+
+  const ordering = parseParty(field('50A', '50F', '50K'), 'ordering');
+  const beneficiary = parseParty(field('59', '59A', '59F'), 'beneficiary');
+  const orderingInstitution = parseInstitution(field('52A'));
+  const accountWithInstitution = parseInstitution(field('57A'));
+  for (const p of [ordering.problem, beneficiary.problem, orderingInstitution.problem, accountWithInstitution.problem]) {
+    if (p) problems.push(p);
+  }
+
+  const uetr = header.match(/\{121:([0-9a-f-]{36})\}/i)?.[1];
+  const metadata = Object.fromEntries(
+    Object.entries({
+      message: 'MT103',
+      sender_reference: reference,
+      bank_operation_code: field('23B')?.value,
+      remittance: field('70')?.value.replace(/\n/g, ' '),
+      details_of_charges: field('71A')?.value,
+      uetr,
+    }).filter(([, v]) => v)
+  );
+
+  return {
+    row,
+    values: {
+      transaction_id: reference,
+      sender_id: ordering.account,
+      receiver_id: beneficiary.account,
+      amount: valueDate?.amount ?? '',
+      currency: valueDate?.currency ?? '',
+      timestamp: valueDate?.timestamp ?? '',
+      channel: 'wire',
+    },
+    senderParty: compactParty({ ...ordering.party, bic: ordering.party?.bic ?? orderingInstitution.bic }),
+    receiverParty: compactParty({ ...beneficiary.party, bic: beneficiary.party?.bic ?? accountWithInstitution.bic }),
+    metadata,
+    ...(problems.length > 0 ? { problems } : {}),
+  };
+}
+
+// =============================================
+// MT103 Parse
+// =============================================
+export async function parseMT103(
+  file: File,
+  options: ParseOptions = {},
+  callbacks: ParseCallbacks = {}
+): Promise<ParseResult> {
+  const { onProgress, signal } = callbacks;
+  const text = await file.text();
+  if (signal?.aborted) {
+    return { success: false, cancelled: true, transactions: [], errors: [{ message: 'Parsing cancelled.' }], rowCount: 0 };
+  }
+
+  const records = splitMessages(text).map(({ header, body }, i) => toRecord(header, body, i + 1));
+  onProgress?.({ bytesRead: file.size, totalBytes: file.size, rows: records.length });
+  if (records.length === 0) {
+    return { success: false, transactions: [], errors: [{ message: 'No MT103 messages found (expected :20:, :32A:, :50K:, :59: fields).' }], rowCount: 0 };
+  }
+  return validatePaymentRecords(records, options);
+}
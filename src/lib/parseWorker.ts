@@ -0,0 +1,93 @@
+import { ParseOptions, ParseProgress, ParseResult, Transaction, TransactionColumns } from '@/types';
+import { createIdInterner, ParseCallbacks, withDuplicatesResolved } from './csvParser';
+import { canParseInWorker, parseSource } from './sourceFormats';
+import { materializeTransactions } from './transactionColumns';
+
+// =============================================
+// Worker Protocol
+// =============================================
+export interface ParseWorkerRequest {
+  file: File;
+  options: ParseOptions;
+}
+
+export type ParseWorkerMessage =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'batch'; transactions: Transaction[] }
+  | { type: 'columns'; columns: TransactionColumns }
+  | { type: 'done'; result: ParseResult };
+
+const CANCELLED: ParseResult = {
+  success: false,
+  cancelled: true,
+  transactions: [],
+  errors: [{ message: 'Parsing cancelled.' }],
+  rowCount: 0,
+};
+
+// Columnar sources come back as a store; the merge step needs Transaction
+// objects, and duplicate IDs are resolved on those like for any other format
+function materializeColumns(result: ParseResult, options: ParseOptions): ParseResult {
+  const { columns, ...rest } = result;
+  if (!columns) return result;
+  return withDuplicatesResolved({ ...rest, transactions: materializeTransactions(columns) }, options);
+}
+
+// =============================================
+// Main-thread Client
+// =============================================
+// Parses in a Web Worker when available (falls back to the main thread, e.g. in tests,
+// and for formats that need DOM APIs).
+// Aborting the signal terminates the worker immediately.
+export function parseFileInWorker(
+  file: File,
+  options: ParseOptions = {},
+  callbacks: ParseCallbacks = {}
+): Promise<ParseResult> {
+  const { onProgress, signal } = callbacks;
+  if (typeof Worker === 'undefined' || !canParseInWorker(file.name)) {
+    return parseSource(file, options, callbacks).then((result) => materializeColumns(result, options));
+  }
+  if (signal?.aborted) return Promise.resolve(CANCELLED);
+
+  return new Promise((resolve) => {
+    const worker = new Worker(new URL('./parser.worker.ts', import.meta.url), { type: 'module' });
+    const transactions: Transaction[] = [];
+    let columns: TransactionColumns | undefined;
+    // Structured clone copies every string, so re-share account IDs as batches arrive
+    const intern = createIdInterner();
+
+    const finish = (result: ParseResult) => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      resolve(result);
+    };
+    const onAbort = () => finish(CANCELLED);
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'batch') {
+        for (const tx of message.transactions) {
+          tx.sender_id = intern(tx.sender_id);
+          tx.receiver_id = intern(tx.receiver_id);
+          transactions.push(tx);
+        }
+      } else if (message.type === 'columns') {
+        columns = message.columns;
+      } else if (columns && message.result.success) {
+        finish(materializeColumns({ ...message.result, columns }, options));
+      } else {
+        finish({ ...message.result, transactions: message.result.success ? transactions : [] });
+      }
+    };
+    worker.onerror = (event) => {
+      finish({ success: false, transactions: [], errors: [{ message: `Parser worker failed: ${event.message}` }], rowCount: 0 });
+    };
+
+    const request: ParseWorkerRequest = { file, options };
+    worker.postMessage(request);
+  });
+}
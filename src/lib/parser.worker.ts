@@ -0,0 +1,35 @@
+import { parseSource } from './sourceFormats';
+import { columnBuffers } from './transactionColumns';
+import type { ParseWorkerRequest, ParseWorkerMessage } from './parseWorker';
+
+// =============================================
+// Parse Worker
+// =============================================
+// Runs the streaming parser off the main thread and ships transactions back
+// in batches, so no single structured clone holds the whole file.
+const BATCH_SIZE = 50_000;
+
+const ctx = self as unknown as Worker;
+const post = (message: ParseWorkerMessage, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+
+ctx.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  const { file, options } = event.data;
+
+  try {
+    const result = await parseSource(file, options, {
+      onProgress: (progress) => post({ type: 'progress', progress }),
+    });
+
+    // Columnar sources hand over their buffers instead of being copied
+    const { columns, ...rest } = result;
+    if (columns) post({ type: 'columns', columns }, columnBuffers(columns));
+    for (let i = 0; i < result.transactions.length; i += BATCH_SIZE) {
+      post({ type: 'batch', transactions: result.transactions.slice(i, i + BATCH_SIZE) });
+    }
+    post({ type: 'done', result: { ...rest, transactions: [] } });
+  } catch (err) {
+    // A rejected handler raises no error event, so the client would wait forever
+    const message = err instanceof Error ? err.message : String(err);
+    post({ type: 'done', result: { success: false, transactions: [], errors: [{ message: `Parser worker failed: ${message}` }], rowCount: 0 } });
+  }
+};
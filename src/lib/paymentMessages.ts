@@ -0,0 +1,90 @@
+import {
+  ParseOptions,
+  ParseResult,
+  PartyDetails,
+  RejectedRow,
+  Transaction,
+  TransactionField,
+  ValidationError,
+} from '@/types';
+import { TRANSACTION_FIELDS } from './columnMapping';
+import {
+  MAX_REPORTED_ERRORS,
+  buildParseResult,
+  createNullCounter,
+  createRowValidator,
+  withDuplicatesResolved,
+} from './csvParser';
+
+// =============================================
+// Payment Message Records
+// =============================================
+// Structured payment messages (ISO 20022 XML, SWIFT MT) have no headers of
+// their own: importers extract canonical field values, and from there the
+// same row validator as CSV decides what becomes a transaction.
+export const PAYMENT_MESSAGE_HEADERS: string[] = TRANSACTION_FIELDS.map((f) => f.field);
+
+export interface PaymentRecord {
+  row: number; // position of the transaction in the file, reported as "Row N"
+  values: Partial<Record<TransactionField, string>>;
+  senderParty?: PartyDetails;
+  receiverParty?: PartyDetails;
+  metadata?: Record<string, unknown>;
+  problems?: { field?: string; message: string }[]; // message fields that could not be parsed
+}
+
+// Drops empty members so exports don't carry `"bic": ""`
+export function compactParty(party: PartyDetails): PartyDetails | undefined {
+  const entries = Object.entries(party).filter(([, v]) => v);
+  return entries.length > 0 ? (Object.fromEntries(entries) as PartyDetails) : undefined;
+}
+
+export function validatePaymentRecords(records: PaymentRecord[], options: ParseOptions = {}): ParseResult {
+  const validate = createRowValidator(PAYMENT_MESSAGE_HEADERS, options);
+  const nulls = createNullCounter(PAYMENT_MESSAGE_HEADERS);
+  const transactions: Transaction[] = [];
+  const errors: ValidationError[] = [];
+  const rejected: RejectedRow[] | undefined = options.mode === 'partial' ? [] : undefined;
+  let errorCount = 0;
+
+  const reject = (rowErrors: ValidationError[], values: Record<string, string>) => {
+    for (const error of rowErrors) {
+      if (errorCount < MAX_REPORTED_ERRORS) errors.push(error);
+      errorCount++;
+    }
+    rejected?.push({
+      row: rowErrors[0].row,
+      field: rowErrors[0].field,
+      reason: rowErrors.map((e) => e.message).join('; '),
+      values,
+    });
+  };
+
+  for (const record of records) {
+    const values = record.values as Record<string, string>;
+    nulls.count(values);
+    if (record.problems?.length) {
+      reject(
+        record.problems.map((p) => ({ row: record.row, field: p.field, message: `Row ${record.row}: ${p.message}` })),
+        values
+      );
+      continue;
+    }
+    const outcome = validate(values, record.row);
+    if ('error' in outcome) {
+      reject([outcome.error], values);
+      continue;
+    }
+    transactions.push({
+      ...outcome.transaction,
+      ...(record.senderParty ? { senderParty: record.senderParty } : {}),
+      ...(record.receiverParty ? { receiverParty: record.receiverParty } : {}),
+      ...(record.metadata ? { metadata: record.metadata } : {}),
+    });
+  }
+
+  return {
+    ...withDuplicatesResolved(buildParseResult(transactions, errors, errorCount, records.length, rejected), options),
+    columnNulls: nulls.counts,
+  };
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { Transaction } from '@/types';
+import { analyzeTransactions } from './graphAnalysis';
+import { DEFAULT_DETECTION_CONFIG, exportDetectionConfig } from './detectionConfig';
+import { applyReversals } from './reversals';
+import { PSEUDONYM_PREFIX, derivePseudonymKey, pseudonymizeAllowlist, pseudonymizeTransactions } from './pseudonymize';
+
+const base = Date.parse('2024-03-01T00:00:00Z');
+const tx = (id: string, sender: string, receiver: string, hour: number): Transaction => ({
+  transaction_id: id,
+  sender_id: sender,
+  receiver_id: receiver,
+  amount: 100,
+  amountMinor: 10_000,
+  timestamp: new Date(base + hour * 3_600_000).toISOString(),
+  timestampMs: base + hour * 3_600_000,
+});
+
+describe('pseudonymizeTransactions', () => {
+  const IBAN = 'DE89370400440532013000';
+  const statement: Transaction[] = [
+    { ...tx(`${IBAN}:E1`, IBAN, 'SHOP-7', 0), statementAccount: IBAN },
+    { ...tx(`${IBAN}:E2`, 'SHOP-7', IBAN, 5), statementAccount: IBAN, status: 'refund', reverses_transaction_id: `${IBAN}:E1` },
+    tx('W1', 'ACC-1', 'ACC-2', 2),
+  ];
+
+  it('maps each account ID to the same pseudonym in every run', async () => {
+    const [first, second] = [
+      await pseudonymizeTransactions(statement, 'correct horse'),
+      await pseudonymizeTransactions(statement.slice().reverse(), 'correct horse'),
+    ];
+    expect(first.fingerprint).toBe(second.fingerprint);
+    for (const id of [IBAN, 'SHOP-7', 'ACC-1', 'ACC-2']) {
+      expect(first.pseudonyms.get(id)).toBe(second.pseudonyms.get(id));
+      expect(first.pseudonyms.get(id)).toMatch(/^PSN_[0-9a-f]{16}$/);
+    }
+    const other = await pseudonymizeTransactions(statement, 'another passphrase');
+    expect(other.pseudonyms.get(IBAN)).not.toBe(first.pseudonyms.get(IBAN));
+  });
+
+  it('rewrites statement entry IDs and the reversal links to them', async () => {
+    const run = await pseudonymizeTransactions(statement, 'correct horse');
+    const account = run.pseudonyms.get(IBAN)!;
+    const [original, refund, wire] = run.transactions;
+
+    expect(original.transaction_id).toBe(`${account}:E1`);
+    expect(refund.transaction_id).toBe(`${account}:E2`);
+    expect(refund.reverses_transaction_id).toBe(`${account}:E1`);
+    expect(wire.transaction_id).toBe('W1');
+    expect(JSON.stringify(run.transactions)).not.toContain(IBAN);
+  });
+
+  it('replaces source file names, also inside entry IDs numbered by row', async () => {
+    const FILE = `statement_${IBAN}.csv`;
+    const numbered: Transaction[] = [
+      { ...tx(`${IBAN}:${FILE}#2`, IBAN, 'SHOP-7', 0), statementAccount: IBAN, sourceFile: FILE },
+      { ...tx(`${IBAN}:${FILE}#3`, 'SHOP-7', IBAN, 5), statementAccount: IBAN, sourceFile: FILE, reverses_transaction_id: `${IBAN}:${FILE}#2` },
+      { ...tx('W1', 'ACC-1', 'ACC-2', 2), sourceFile: 'wires.csv' },
+    ];
+    const run = await pseudonymizeTransactions(numbered, 'correct horse');
+    const [debit, refund, wire] = run.transactions;
+    const file = debit.sourceFile!;
+
+    expect(file).toMatch(/^FILE_[0-9a-f]{16}$/);
+    expect(wire.sourceFile).toMatch(/^FILE_/);
+    expect(wire.sourceFile).not.toBe(file);
+    expect(debit.transaction_id).toBe(`${run.pseudonyms.get(IBAN)}:${file}#2`);
+    expect(refund.reverses_transaction_id).toBe(debit.transaction_id);
+    expect(JSON.stringify(run.transactions)).not.toContain(IBAN);
+    expect(JSON.stringify(run.transactions)).not.toContain('wires.csv');
+    expect((await pseudonymizeTransactions(numbered, 'correct horse')).transactions[0].sourceFile).toBe(file);
+  });
+
+  it('leaves reversal netting unchanged', async () => {
+    const run = await pseudonymizeTransactions(statement, 'correct horse');
+    const plain = applyReversals(statement, 'net');
+    const pseudonymized = applyReversals(run.transactions, 'net');
+
+    expect(plain.summary.originalsRemoved).toBe(1);
+    expect(pseudonymized.summary).toEqual(plain.summary);
+    expect(pseudonymized.transactions.map((t) => t.transaction_id)).toEqual(['W1']);
+  });
+});
+
+describe('pseudonymizeAllowlist', () => {
+  it('maps entries to the run pseudonyms and drops notes', async () => {
+    const transactions = [tx('T1', 'ACC-1', 'ACC-2', 0), tx('T2', 'ACC-2', 'ACC-3', 1), tx('T3', 'ACC-3', 'ACC-1', 2)];
+    const run = await pseudonymizeTransactions(transactions, 'correct horse');
+    const allowlist = await pseudonymizeAllowlist(
+      [{ account_id: 'ACC-1', note: 'Jane Doe payroll' }, { account_id: `${PSEUDONYM_PREFIX}abc` }],
+      run.key
+    );
+
+    expect(allowlist).toEqual([{ account_id: run.pseudonyms.get('ACC-1') }, { account_id: `${PSEUDONYM_PREFIX}abc` }]);
+
+    const result = analyzeTransactions(run.transactions, { ...DEFAULT_DETECTION_CONFIG, allowlist });
+    expect(result.suppressions.map((s) => [s.account_id, s.reason])).toEqual([[run.pseudonyms.get('ACC-1'), 'allowlist']]);
+    const exported = JSON.stringify(exportDetectionConfig(result.config));
+    expect(exported).not.toContain('ACC-1');
+    expect(exported).not.toContain('Jane Doe');
+  });
+
+  it('gives the same pseudonym for the same passphrase', async () => {
+    const [a, b] = await Promise.all([derivePseudonymKey('correct horse'), derivePseudonymKey('correct horse')]);
+    const [fromA, fromB] = await Promise.all([
+      pseudonymizeAllowlist([{ account_id: 'ACC-9' }], a),
+      pseudonymizeAllowlist([{ account_id: 'ACC-9' }], b),
+    ]);
+    expect(fromA).toEqual(fromB);
+    expect(fromA[0].account_id).toMatch(/^PSN_[0-9a-f]{16}$/);
+  });
+});
@@ -0,0 +1,155 @@
+import Papa from 'papaparse';
+import { AccountMasterData, AllowlistEntry, Transaction } from '@/types';
+
+// =============================================
+// Account ID Pseudonymization
+// =============================================
+// Account IDs are replaced with HMAC-SHA-256 pseudonyms keyed from a
+// passphrase (PBKDF2), after parsing and before anything else sees them. The
+// salt is fixed, so the same passphrase gives the same pseudonyms in every
+// dataset and reports stay comparable. The key never leaves the browser; the
+// re-identification table is only ever a local download.
+
+export const PSEUDONYM_PREFIX = 'PSN_';
+// Source file names, which often carry the account number of a statement
+export const FILE_PSEUDONYM_PREFIX = 'FILE_';
+const FILE_LABEL = 'pathproof.file:'; // keeps a file named like an account ID from sharing its pseudonym
+
+// Fixed on purpose: a random salt would make pseudonyms differ between runs
+const PBKDF2_SALT = 'pathproof.pseudonyms.v1';
+const PBKDF2_ITERATIONS = 310_000;
+const PSEUDONYM_BYTES = 8; // 64 bits: collisions stay negligible at millions of accounts
+const FINGERPRINT_LABEL = 'pathproof.fingerprint';
+const SIGN_BATCH = 1000;
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer, bytes: number) =>
+  Array.from(new Uint8Array(buffer, 0, bytes), (b) => b.toString(16).padStart(2, '0')).join('');
+
+export async function derivePseudonymKey(passphrase: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: encoder.encode(PBKDF2_SALT), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign']
+  );
+}
+
+// Short, shareable check that two runs used the same passphrase
+export async function keyFingerprint(key: CryptoKey): Promise<string> {
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(FINGERPRINT_LABEL)), 4);
+}
+
+export async function pseudonymizeIds(
+  ids: Iterable<string>,
+  key: CryptoKey,
+  { prefix = PSEUDONYM_PREFIX, label = '' }: { prefix?: string; label?: string } = {}
+): Promise<Map<string, string>> {
+  const unique = Array.from(new Set(ids));
+  const pseudonyms = new Map<string, string>();
+  for (let i = 0; i < unique.length; i += SIGN_BATCH) {
+    const batch = unique.slice(i, i + SIGN_BATCH);
+    const macs = await Promise.all(batch.map((id) => crypto.subtle.sign('HMAC', key, encoder.encode(label + id))));
+    batch.forEach((id, j) => pseudonyms.set(id, prefix + toHex(macs[j], PSEUDONYM_BYTES)));
+  }
+  return pseudonyms;
+}
+
+// Party details and unmapped metadata are dropped: they can hold names,
+// addresses and raw account numbers that the pseudonyms are meant to hide.
+// Source file names get pseudonyms of their own, also where they number
+// statement entries without a reference ("<account>:<file>#<row>").
+export async function pseudonymizeTransactions(
+  transactions: Transaction[],
+  passphrase: string,
+  accounts?: AccountMasterData
+): Promise<{
+  transactions: Transaction[];
+  accounts?: AccountMasterData;
+  pseudonyms: Map<string, string>; // account ID → pseudonym
+  fingerprint: string;
+  key: CryptoKey;
+}> {
+  const key = await derivePseudonymKey(passphrase);
+  const ids = new Set<string>(accounts?.keys());
+  for (const tx of transactions) {
+    ids.add(tx.sender_id);
+    ids.add(tx.receiver_id);
+  }
+  const pseudonyms = await pseudonymizeIds(ids, key);
+  const pseudonym = (id: string) => pseudonyms.get(id)!;
+  const files = await pseudonymizeIds(
+    transactions.flatMap((tx) => (tx.sourceFile ? [tx.sourceFile] : [])),
+    key,
+    { prefix: FILE_PSEUDONYM_PREFIX, label: FILE_LABEL }
+  );
+
+  // Statement entry IDs are prefixed with the account number, and numbered by file and row without a reference
+  const withAccountPrefix = (id: string, account?: string, file?: string) => {
+    if (!account || !id.startsWith(`${account}:`)) return id;
+    const entry = id.slice(account.length + 1);
+    const numbered = file !== undefined && entry.startsWith(`${file}#`);
+    return `${pseudonym(account)}:${numbered ? files.get(file)! + entry.slice(file.length) : entry}`;
+  };
+  const renamed = new Map<string, string>(); // original transaction_id → rewritten one
+  const rewritten = transactions.map((tx) => {
+    const { senderParty: _sender, receiverParty: _receiver, metadata: _metadata, sourceFile, ...rest } = tx;
+    const out: Transaction = { ...rest, sender_id: pseudonym(tx.sender_id), receiver_id: pseudonym(tx.receiver_id) };
+    if (sourceFile) out.sourceFile = files.get(sourceFile);
+    if (tx.statementAccount) {
+      out.statementAccount = pseudonym(tx.statementAccount);
+      out.transaction_id = withAccountPrefix(tx.transaction_id, tx.statementAccount, sourceFile);
+      if (out.transaction_id !== tx.transaction_id) renamed.set(tx.transaction_id, out.transaction_id);
+    }
+    if (tx.balances) {
+      out.balances = Object.fromEntries(Object.entries(tx.balances).map(([id, balance]) => [pseudonym(id), balance]));
+    }
+    return out;
+  });
+  // Reversals must still point at their originals for the netting to pair them
+  rewritten.forEach((out, i) => {
+    const original = out.reverses_transaction_id;
+    if (original) {
+      out.reverses_transaction_id =
+        renamed.get(original) ?? withAccountPrefix(original, transactions[i].statementAccount, transactions[i].sourceFile);
+    }
+  });
+
+  return {
+    transactions: rewritten,
+    ...(accounts
+      ? { accounts: new Map(Array.from(accounts, ([id, attributes]) => [pseudonym(id), attributes])) }
+      : {}),
+    pseudonyms,
+    fingerprint: await keyFingerprint(key),
+    key,
+  };
+}
+
+// The allowlist holds real account IDs and free-text notes. A pseudonymized
+// run matches and reports its entries by pseudonym only; entries that are
+// already pseudonyms (copied from an earlier report) are kept as they are.
+export async function pseudonymizeAllowlist(allowlist: AllowlistEntry[], key: CryptoKey): Promise<AllowlistEntry[]> {
+  const real = allowlist.map((e) => e.account_id).filter((id) => !id.startsWith(PSEUDONYM_PREFIX));
+  const pseudonyms = await pseudonymizeIds(real, key);
+  return allowlist.map((e) => ({ account_id: pseudonyms.get(e.account_id) ?? e.account_id }));
+}
+
+// =============================================
+// Re-identification Table (local download only)
+// =============================================
+export function downloadReidentificationTable(pseudonyms: Map<string, string>, filename = 'reidentification_table.csv') {
+  const data = Array.from(pseudonyms, ([accountId, pseudonym]) => [pseudonym, accountId]);
+  const blob = new Blob([Papa.unparse({ fields: ['pseudonym', 'account_id'], data })], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
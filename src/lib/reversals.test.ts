@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { Transaction } from '@/types';
+import { applyReversals, normalizeStatus } from './reversals';
+
+const base = Date.parse('2024-03-01T00:00:00Z');
+const tx = (id: string, sender: string, receiver: string, amountMinor: number, extra: Partial<Transaction> = {}): Transaction => ({
+  transaction_id: id,
+  sender_id: sender,
+  receiver_id: receiver,
+  amount: amountMinor / 100,
+  amountMinor,
+  timestamp: new Date(base).toISOString(),
+  timestampMs: base,
+  ...extra,
+});
+
+const refund = (id: string, original: string, amountMinor: number) =>
+  tx(id, 'B', 'A', amountMinor, { status: 'refund', reverses_transaction_id: original });
+
+const amounts = (transactions: Transaction[]) => Object.fromEntries(transactions.map((t) => [t.transaction_id, t.amountMinor]));
+
+describe('applyReversals', () => {
+  it('nets partial refunds off the original and drops the refund entries', () => {
+    const { transactions, summary } = applyReversals([
+      tx('T1', 'A', 'B', 10_000),
+      refund('R1', 'T1', 2_500),
+      refund('R2', 'T1', 1_000),
+      tx('T2', 'A', 'C', 5_000),
+    ]);
+
+    expect(amounts(transactions)).toEqual({ T1: 6_500, T2: 5_000 });
+    expect(transactions[0].amount).toBe(65);
+    expect(summary).toEqual({
+      policy: 'net',
+      reversalEntries: 2,
+      unmatched: 0,
+      originalsRemoved: 0,
+      originalsReduced: 1,
+      volumeRemovedMinor: 2 * 3_500,
+    });
+  });
+
+  it('removes an original reversed in full, by refund entries or by its own status', () => {
+    const { transactions, summary } = applyReversals([
+      tx('T1', 'A', 'B', 10_000),
+      refund('R1', 'T1', 10_000),
+      tx('T2', 'A', 'B', 3_000),
+      tx('CB', 'B', 'A', 4_000, { status: 'chargeback', reverses_transaction_id: 'T2' }),
+      tx('T3', 'A', 'C', 7_000, { status: 'reversed' }),
+      tx('T4', 'A', 'C', 1_000),
+    ]);
+
+    expect(amounts(transactions)).toEqual({ T4: 1_000 });
+    expect(summary).toMatchObject({ reversalEntries: 2, originalsRemoved: 3, originalsReduced: 0 });
+  });
+
+  it('drops a reversal entry whose original is not in the data and counts it as unmatched', () => {
+    const { transactions, summary } = applyReversals([
+      tx('T1', 'A', 'B', 10_000),
+      refund('R1', 'T0', 2_000),
+      tx('R2', 'B', 'A', 500, { status: 'refund' }),
+    ]);
+
+    expect(amounts(transactions)).toEqual({ T1: 10_000 });
+    expect(summary).toMatchObject({ reversalEntries: 2, unmatched: 2, volumeRemovedMinor: 2_500 });
+  });
+
+  it('scales the pre-conversion amount of a partially reversed original', () => {
+    const [netted] = applyReversals([
+      tx('T1', 'A', 'B', 10_000, { currency: 'JPY', originalAmount: 15_000, originalAmountMinor: 15_000, baseCurrency: 'EUR' }),
+      refund('R1', 'T1', 4_000),
+    ]).transactions;
+
+    expect(netted).toMatchObject({ amountMinor: 6_000, amount: 60, originalAmountMinor: 9_000, originalAmount: 9_000 });
+  });
+
+  it('drops even partially reversed originals under exclude', () => {
+    const { transactions, summary } = applyReversals([tx('T1', 'A', 'B', 10_000), refund('R1', 'T1', 1), tx('T2', 'A', 'C', 5_000)], 'exclude');
+
+    expect(amounts(transactions)).toEqual({ T2: 5_000 });
+    expect(summary).toMatchObject({ policy: 'exclude', originalsRemoved: 1, volumeRemovedMinor: 10_001 });
+  });
+
+  it('leaves everything in place under keep but still counts the entries', () => {
+    const input = [tx('T1', 'A', 'B', 10_000), refund('R1', 'T1', 2_500), refund('R2', 'T9', 100)];
+    const { transactions, summary } = applyReversals(input, 'keep');
+
+    expect(transactions).toBe(input);
+    expect(summary).toEqual({
+      policy: 'keep',
+      reversalEntries: 2,
+      unmatched: 1,
+      originalsRemoved: 0,
+      originalsReduced: 0,
+      volumeRemovedMinor: 0,
+    });
+  });
+});
+
+describe('normalizeStatus', () => {
+  it('maps source vocabularies onto the four statuses', () => {
+    expect(normalizeStatus('Settled')).toBe('completed');
+    expect(normalizeStatus('CHARGED BACK')).toBe('reversed');
+    expect(normalizeStatus('Return')).toBe('refund');
+    expect(normalizeStatus('chargeback')).toBe('chargeback');
+    expect(normalizeStatus('pending')).toBeNull();
+  });
+});
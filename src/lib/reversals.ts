@@ -0,0 +1,117 @@
+import { ReversalPolicy, ReversalSummary, Transaction, TransactionStatus } from '@/types';
+import { normalizeHeader } from './columnMapping';
+import { currencyExponent, fromMinorUnits } from './money';
+
+// =============================================
+// Reversals, Refunds & Chargebacks
+// =============================================
+// A reversal entry is a row with reverses_transaction_id set, or with status
+// refund / chargeback. An original with status "reversed" was undone in full
+// without a separate entry. Left in the graph, a refund B→A after A→B closes
+// a two-hop loop and every reversal inflates velocity, so they are handled
+// before detection:
+//
+// net     — reversal amounts are subtracted from the original; fully reversed
+//           originals and all reversal entries are dropped
+// exclude — reversed originals (even partially) and reversal entries are dropped
+// keep    — everything stays in the graph as ordinary transfers
+
+export const DEFAULT_REVERSAL_POLICY: ReversalPolicy = 'net';
+
+export const REVERSAL_POLICY_LABELS: Record<ReversalPolicy, string> = {
+  net: 'net out',
+  exclude: 'exclude',
+  keep: 'keep as transfers',
+};
+
+const STATUS_ALIASES: Record<string, TransactionStatus> = {
+  completed: 'completed',
+  complete: 'completed',
+  settled: 'completed',
+  posted: 'completed',
+  booked: 'completed',
+  success: 'completed',
+  successful: 'completed',
+  reversed: 'reversed',
+  returned: 'reversed',
+  cancelled: 'reversed',
+  canceled: 'reversed',
+  voided: 'reversed',
+  refunded: 'reversed',
+  charged_back: 'reversed',
+  refund: 'refund',
+  reversal: 'refund',
+  return: 'refund',
+  chargeback: 'chargeback',
+};
+
+export function normalizeStatus(value: string): TransactionStatus | null {
+  return STATUS_ALIASES[normalizeHeader(value)] ?? null;
+}
+
+export function isReversalEntry(tx: Transaction): boolean {
+  return Boolean(tx.reverses_transaction_id) || tx.status === 'refund' || tx.status === 'chargeback';
+}
+
+export function emptyReversalSummary(policy: ReversalPolicy = DEFAULT_REVERSAL_POLICY): ReversalSummary {
+  return { policy, reversalEntries: 0, unmatched: 0, originalsRemoved: 0, originalsReduced: 0, volumeRemovedMinor: 0 };
+}
+
+export function applyReversals(
+  transactions: Transaction[],
+  policy: ReversalPolicy = DEFAULT_REVERSAL_POLICY
+): { transactions: Transaction[]; summary: ReversalSummary } {
+  const summary = emptyReversalSummary(policy);
+
+  // Minor units reversed per original transaction_id
+  const reversedAmount = new Map<string, number>();
+  const ids = new Set<string>();
+  for (const tx of transactions) ids.add(tx.transaction_id);
+  for (const tx of transactions) {
+    if (!isReversalEntry(tx)) continue;
+    summary.reversalEntries++;
+    const original = tx.reverses_transaction_id;
+    if (!original || !ids.has(original)) {
+      summary.unmatched++;
+      continue;
+    }
+    reversedAmount.set(original, (reversedAmount.get(original) ?? 0) + tx.amountMinor);
+  }
+
+  if (policy === 'keep') return { transactions, summary };
+
+  const kept: Transaction[] = [];
+  for (const tx of transactions) {
+    if (isReversalEntry(tx)) {
+      summary.volumeRemovedMinor += tx.amountMinor;
+      continue;
+    }
+    const reversed = tx.status === 'reversed' ? tx.amountMinor : reversedAmount.get(tx.transaction_id);
+    if (reversed === undefined) {
+      kept.push(tx);
+      continue;
+    }
+    const remaining = tx.amountMinor - reversed;
+    if (policy === 'exclude' || remaining <= 0) {
+      summary.originalsRemoved++;
+      summary.volumeRemovedMinor += tx.amountMinor;
+      continue;
+    }
+    // Partial reversal: keep the net amount, scaling the pre-FX amount with it
+    summary.originalsReduced++;
+    summary.volumeRemovedMinor += reversed;
+    const exponent = currencyExponent(tx.baseCurrency);
+    const originalMinor = tx.originalAmountMinor !== undefined
+      ? Math.round((tx.originalAmountMinor * remaining) / tx.amountMinor)
+      : undefined;
+    kept.push({
+      ...tx,
+      amount: fromMinorUnits(remaining, exponent),
+      amountMinor: remaining,
+      ...(originalMinor !== undefined
+        ? { originalAmount: fromMinorUnits(originalMinor, currencyExponent(tx.currency)), originalAmountMinor: originalMinor }
+        : {}),
+    });
+  }
+  return { transactions: kept, summary };
+}
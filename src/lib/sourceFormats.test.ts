@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { detectSourceFormat, isSupportedFile, sniffSourceFormat } from './sourceFormats';
+
+// jsdom's Blob has no text(); sniffing only reads a slice of the file
+const textFile = (name: string, text: string) =>
+  ({ name, size: text.length, slice: (start: number, end: number) => ({ text: async () => text.slice(start, end) }) }) as unknown as File;
+
+describe('sniffSourceFormat', () => {
+  it('routes a .txt file to MT103 only when its content is MT103', async () => {
+    expect(await sniffSourceFormat(textFile('wire.txt', '{1:F01BANKDEFFAXXX0000000000}{4:\n:20:REF-1\n-}'))).toBe('mt103');
+    expect(await sniffSourceFormat(textFile('wire.TXT', ':20:REF-1\n:32A:240115EUR1,\n'))).toBe('mt103');
+    expect(await sniffSourceFormat(textFile('export.txt', 'transaction_id;sender_id;receiver_id\nT1;A;B\n'))).toBe('csv');
+    expect(await sniffSourceFormat(textFile('export.txt', 'id;memo\nT1;{1:F01 copy\nT2;\n:20:REF-1\n'))).toBe('csv');
+  });
+
+  it('goes by the extension for every other file', async () => {
+    expect(await sniffSourceFormat(textFile('wire.fin', 'transaction_id,sender_id\n'))).toBe('mt103');
+    expect(await sniffSourceFormat(textFile('export.csv', ':20:REF-1\n'))).toBe('csv');
+    expect(await sniffSourceFormat(textFile('notes.md', ':20:REF-1\n'))).toBeNull();
+  });
+});
+
+describe('isSupportedFile', () => {
+  it('accepts .txt although its format depends on the content', () => {
+    expect(detectSourceFormat('export.txt')).toBeNull();
+    expect(isSupportedFile('export.txt')).toBe(true);
+    expect(isSupportedFile('data.parquet')).toBe(true);
+    expect(isSupportedFile('notes.md')).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { ParseOptions, ParseResult } from '@/types';
+import { ParseCallbacks, parseCSV, readCSVHeaders } from './csvParser';
+import { parseJSON, readJSONHeaders } from './jsonParser';
+import { parseISO20022 } from './iso20022Parser';
+import { isMT103Text, parseMT103 } from './mt103Parser';
+import { PAYMENT_MESSAGE_HEADERS } from './paymentMessages';
+import { parseStatement } from './statementParser';
+import { parseSQLite, readSQLiteHeaders } from './sqliteParser';
+import { parseColumnar, readColumnarHeaders } from './columnarParser';
+
+// =============================================
+// Source File Formats
+// =============================================
+// Every format yields mappable headers and the same ParseResult, so the
+// upload flow, worker and merge step don't care which one a file is.
+export type SourceFormat = 'csv' | 'json' | 'iso20022' | 'mt103' | 'sqlite' | 'arrow' | 'parquet';
+
+const FORMAT_EXTENSIONS: Record<SourceFormat, string[]> = {
+  csv: ['.csv'],
+  json: ['.json', '.ndjson', '.jsonl'],
+  iso20022: ['.xml'],
+  mt103: ['.mt103', '.fin'],
+  sqlite: ['.sqlite', '.sqlite3', '.db'],
+  arrow: ['.arrow', '.arrows', '.feather', '.ipc'],
+  parquet: ['.parquet'],
+};
+
+// Formats whose parser needs DOM APIs that workers don't have
+const MAIN_THREAD_FORMATS: SourceFormat[] = ['iso20022'];
+
+// Plain-text exports hold MT103 messages or delimited rows; the content decides
+const TEXT_EXTENSIONS = ['.txt'];
+// Enough of the file to see the first message's blocks or :20: tag
+const SNIFF_BYTES = 4096;
+
+export const SUPPORTED_EXTENSIONS = [...Object.values(FORMAT_EXTENSIONS).flat(), ...TEXT_EXTENSIONS];
+
+// By name alone: null for unsupported files and for .txt, which needs sniffSourceFormat
+export function detectSourceFormat(fileName: string): SourceFormat | null {
+  const name = fileName.toLowerCase();
+  const match = (Object.keys(FORMAT_EXTENSIONS) as SourceFormat[]).find((format) =>
+    FORMAT_EXTENSIONS[format].some((ext) => name.endsWith(ext))
+  );
+  return match ?? null;
+}
+
+const isTextFile = (fileName: string) => TEXT_EXTENSIONS.some((ext) => fileName.toLowerCase().endsWith(ext));
+
+export function isSupportedFile(fileName: string): boolean {
+  return detectSourceFormat(fileName) !== null || isTextFile(fileName);
+}
+
+export async function sniffSourceFormat(file: File): Promise<SourceFormat | null> {
+  if (!isTextFile(file.name)) return detectSourceFormat(file.name);
+  return isMT103Text(await file.slice(0, SNIFF_BYTES).text()) ? 'mt103' : 'csv';
+}
+
+export function canParseInWorker(fileName: string): boolean {
+  return !MAIN_THREAD_FORMATS.includes(detectSourceFormat(fileName));
+}
+
+// Payment messages expose the canonical fields, so the mapping step is a confirmation
+export async function readSourceHeaders(
+  file: File,
+  options: Pick<ParseOptions, 'dialect' | 'sqlQuery'> = {}
+): Promise<string[]> {
+  switch (await sniffSourceFormat(file)) {
+    case 'json':
+      return readJSONHeaders(file);
+    case 'sqlite':
+      return readSQLiteHeaders(file, options.sqlQuery);
+    case 'arrow':
+      return readColumnarHeaders(file, 'arrow');
+    case 'parquet':
+      return readColumnarHeaders(file, 'parquet');
+    case 'iso20022':
+    case 'mt103':
+      return PAYMENT_MESSAGE_HEADERS;
+    default:
+      return readCSVHeaders(file, options.dialect);
+  }
+}
+
+export async function parseSource(
+  file: File,
+  options: ParseOptions = {},
+  callbacks: ParseCallbacks = {}
+): Promise<ParseResult> {
+  switch (await sniffSourceFormat(file)) {
+    case 'json':
+      return parseJSON(file, options, callbacks);
+    case 'iso20022':
+      return parseISO20022(file, options, callbacks);
+    case 'mt103':
+      return parseMT103(file, options, callbacks);
+    case 'sqlite':
+      return parseSQLite(file, options, callbacks);
+    case 'arrow':
+      return parseColumnar(file, 'arrow', options, callbacks);
+    case 'parquet':
+      return parseColumnar(file, 'parquet', options, callbacks);
+    default:
+      return options.statementMapping ? parseStatement(file, options, callbacks) : parseCSV(file, options, callbacks);
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import initSqlJs from 'sql.js';
+import { checkSelectQuery, inspectSQLite, parseSQLite, tableQuery } from './sqliteParser';
+
+// Vite resolves the ?url import in the app; under vitest it is the file on disk
+vi.mock('sql.js/dist/sql-wasm.wasm?url', () => ({ default: `${process.cwd()}/node_modules/sql.js/dist/sql-wasm.wasm` }));
+
+const dbFile = (bytes: Uint8Array) =>
+  ({ name: 'ledger.sqlite', size: bytes.length, arrayBuffer: async () => bytes.slice().buffer }) as unknown as File;
+
+// Account numbers past 2^53 (9007199254740992) only survive as bigint
+const BIG_SENDER = '9007199254740993';
+const BIG_RECEIVER = '12345678901234567';
+
+let ledger: File;
+
+beforeAll(async () => {
+  const SQL = await initSqlJs({ locateFile: () => `${process.cwd()}/node_modules/sql.js/dist/sql-wasm.wasm` });
+  const db = new SQL.Database();
+  db.run(`
+    CREATE TABLE transfers (id INTEGER PRIMARY KEY AUTOINCREMENT, ref TEXT, debtor INTEGER, creditor INTEGER, amt REAL, booked TEXT, note BLOB);
+    INSERT INTO transfers (ref, debtor, creditor, amt, booked, note) VALUES
+      ('T1', ${BIG_SENDER}, ${BIG_RECEIVER}, 10.5, '2024-03-01', NULL),
+      ('T2', ${BIG_RECEIVER}, 42, 7, '2024-03-02', x'00ff'),
+      ('T3', 42, x'0102', 3.25, '2024-03-03', NULL);
+    CREATE TABLE accounts (account_no INTEGER, holder TEXT);
+    CREATE VIEW large_transfers AS SELECT * FROM transfers WHERE amt > 5;
+  `);
+  ledger = dbFile(db.export());
+  db.close();
+});
+
+const mapping = { transaction_id: 'ref', sender_id: 'debtor', receiver_id: 'creditor', amount: 'amt', timestamp: 'booked' };
+
+describe('inspectSQLite', () => {
+  it('lists tables and views without SQLite internals, and reads the first one', async () => {
+    const info = await inspectSQLite(ledger);
+
+    expect(info.tables).toEqual(['accounts', 'large_transfers', 'transfers']);
+    expect(info.query).toBe('SELECT * FROM "accounts"');
+    expect(info.headers).toEqual(['account_no', 'holder']);
+    expect(info.error).toBeUndefined();
+  });
+
+  it('reads the result columns of a query', async () => {
+    const info = await inspectSQLite(ledger, 'SELECT ref AS transaction_id, debtor, amt * 100 AS cents FROM large_transfers;');
+
+    expect(info.headers).toEqual(['transaction_id', 'debtor', 'cents']);
+  });
+
+  it('reports queries it cannot use instead of throwing', async () => {
+    expect((await inspectSQLite(ledger, 'DELETE FROM transfers')).error).toBe('Only SELECT queries can be used as a source.');
+    expect((await inspectSQLite(ledger, 'SELECT * FROM missing')).error).toMatch(/^SQLite: no such table: missing/);
+    expect((await inspectSQLite(dbFile(new TextEncoder().encode('not a database')))).error).toMatch(/^SQLite: /);
+  });
+});
+
+describe('parseSQLite', () => {
+  it('keeps INTEGER account numbers past 2^53 exact', async () => {
+    const result = await parseSQLite(ledger, { mapping, sqlQuery: tableQuery('transfers'), mode: 'partial' });
+
+    expect(result.transactions.map((t) => [t.transaction_id, t.sender_id, t.receiver_id, t.amountMinor])).toEqual([
+      ['T1', BIG_SENDER, BIG_RECEIVER, 1_050],
+      ['T2', BIG_RECEIVER, '42', 700],
+    ]);
+  });
+
+  it('reads a BLOB as empty and counts it as a null', async () => {
+    const result = await parseSQLite(ledger, { mapping, sqlQuery: tableQuery('transfers'), mode: 'partial' });
+
+    expect(result.rejected).toMatchObject([{ row: 3, field: 'receiver_id', values: { ref: 'T3', creditor: '' } }]);
+    expect(result.columnNulls).toMatchObject({ ref: 0, creditor: 1, note: 3 });
+  });
+
+  it('checks the mapping against the query columns', async () => {
+    const result = await parseSQLite(ledger, { mapping, sqlQuery: 'SELECT ref, debtor FROM transfers' });
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0].message).toMatch(/^Missing required columns: receiver_id \(mapped to "creditor"\)/);
+  });
+});
+
+describe('checkSelectQuery', () => {
+  it('takes one SELECT or WITH statement, with or without a trailing semicolon', () => {
+    expect(checkSelectQuery('  select * from t;  ')).toBeNull();
+    expect(checkSelectQuery('WITH x AS (SELECT 1) SELECT * FROM x')).toBeNull();
+    expect(checkSelectQuery('SELECT 1; DROP TABLE t')).toBe('Enter a single SELECT statement.');
+    expect(checkSelectQuery('PRAGMA table_info(t)')).toBe('Only SELECT queries can be used as a source.');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { ColumnMapping, StatementField, Transaction } from '@/types';
+import { normalizeSignedAmount, pairStatementEntries, parseStatement } from './statementParser';
+
+const csvFile = (text: string, name = 'statement.csv') => {
+  const bytes = new TextEncoder().encode(text);
+  return {
+    name,
+    size: bytes.length,
+    slice: (start: number, end: number) => ({ arrayBuffer: async () => bytes.slice(start, end).buffer }),
+  } as unknown as File;
+};
+
+const mapping: ColumnMapping<StatementField> = {
+  account_id: 'account',
+  counterparty_id: 'counterparty',
+  timestamp: 'date',
+  debit: 'debit',
+  credit: 'credit',
+  balance: 'balance',
+  entry_id: 'ref',
+};
+
+const statement = (rows: string[]) => parseStatement(csvFile(['account,counterparty,date,debit,credit,balance,ref', ...rows].join('\n')), { statementMapping: mapping });
+
+describe('normalizeSignedAmount', () => {
+  it('reads minus, parentheses and trailing minus as negative', () => {
+    expect(normalizeSignedAmount('-1234.50')).toBe('-1234.50');
+    expect(normalizeSignedAmount('(1234.50)')).toBe('-1234.50');
+    expect(normalizeSignedAmount('1234.50-')).toBe('-1234.50');
+    expect(normalizeSignedAmount('1.234,50-', { decimalSeparator: ',', thousandsSeparator: '.' })).toBe('-1234.50');
+  });
+
+  it('rejects a doubled sign and text that is not a number', () => {
+    expect(normalizeSignedAmount('(-5)')).toBeNull();
+    expect(normalizeSignedAmount('-5-')).toBeNull();
+    expect(normalizeSignedAmount('')).toBeNull();
+    expect(normalizeSignedAmount('n/a')).toBeNull();
+  });
+});
+
+describe('parseStatement', () => {
+  it('directs debits out of and credits into the statement account', async () => {
+    const result = await statement(['ACC1,SHOP,2024-03-01,25.00,,975.00,E1', 'ACC1,EMPLOYER,2024-03-02,,1000.00,1975.00,E2', 'ACC1,BANK,2024-03-03,-3.00,,1972.00,E3']);
+
+    expect(result.success).toBe(true);
+    expect(result.transactions.map((t) => [t.transaction_id, t.sender_id, t.receiver_id, t.amountMinor, t.direction])).toEqual([
+      ['ACC1:E1', 'ACC1', 'SHOP', 2_500, 'outbound'],
+      ['ACC1:E2', 'EMPLOYER', 'ACC1', 100_000, 'inbound'],
+      ['ACC1:E3', 'ACC1', 'BANK', 300, 'outbound'],
+    ]);
+  });
+
+  it('keeps the sign of a negative credit', async () => {
+    const result = await statement(['ACC1,EMPLOYER,2024-03-02,,1000.00,,E1', 'ACC1,EMPLOYER,2024-03-04,,(1000.00),,E2']);
+
+    expect(result.transactions.map((t) => [t.sender_id, t.receiver_id, t.amountMinor, t.direction])).toEqual([
+      ['EMPLOYER', 'ACC1', 100_000, 'inbound'],
+      ['ACC1', 'EMPLOYER', 100_000, 'outbound'],
+    ]);
+    expect(result.transactions.map((t) => t.balances)).toEqual([{ ACC1: 100_000 }, { ACC1: 0 }]);
+  });
+
+  it('rejects rows with both debit and credit, or neither', async () => {
+    const result = await statement(['ACC1,SHOP,2024-03-01,25.00,10.00,,E1', 'ACC1,SHOP,2024-03-01,,,,E2']);
+
+    expect(result.success).toBe(false);
+    expect(result.errors.map((e) => [e.row, e.field])).toEqual([
+      [2, 'debit'],
+      [3, 'amount'],
+    ]);
+  });
+
+  it('fills missing balances from the last given one, in time order', async () => {
+    const result = await statement([
+      'ACC1,C,2024-03-03,,50.00,,E3',
+      'ACC1,B,2024-03-02,20.00,,480.00,E2',
+      'ACC1,D,2024-03-04,5.00,,,E4',
+      'ACC2,X,2024-03-01,,10.00,,F1',
+      'ACC2,Y,2024-03-02,4.00,,,F2',
+    ]);
+
+    const balances = Object.fromEntries(result.transactions.map((t) => [t.transaction_id, t.balances]));
+    expect(balances).toEqual({
+      'ACC1:E2': { ACC1: 48_000 },
+      'ACC1:E3': { ACC1: 53_000 },
+      'ACC1:E4': { ACC1: 52_500 },
+      // No balance column value at all: net flow since the first entry
+      'ACC2:F1': { ACC2: 1_000 },
+      'ACC2:F2': { ACC2: 600 },
+    });
+  });
+});
+
+describe('pairStatementEntries', () => {
+  const DAY_MS = 86_400_000;
+  const base = Date.parse('2024-03-01T00:00:00Z');
+  const entry = (id: string, account: string, sender: string, receiver: string, amountMinor: number, day: number): Transaction => ({
+    transaction_id: id,
+    sender_id: sender,
+    receiver_id: receiver,
+    amount: amountMinor / 100,
+    amountMinor,
+    timestamp: new Date(base + day * DAY_MS).toISOString(),
+    timestampMs: base + day * DAY_MS,
+    statementAccount: account,
+    balances: { [account]: day },
+  });
+
+  it('merges the debit and credit sides of a transfer within three days', () => {
+    const { transactions, pairs } = pairStatementEntries([
+      entry('A:1', 'A', 'A', 'B', 10_000, 0),
+      entry('B:1', 'B', 'A', 'B', 10_000, 3),
+      entry('A:2', 'A', 'A', 'X', 500, 1),
+    ]);
+
+    expect(pairs).toBe(1);
+    expect(transactions).toHaveLength(2);
+    expect(transactions[0]).toMatchObject({
+      transaction_id: 'A:1',
+      direction: 'internal',
+      balances: { A: 0, B: 3 },
+      metadata: { paired_entry_id: 'B:1' },
+    });
+  });
+
+  it('leaves sides apart past the window or with another amount, and pairs each credit once', () => {
+    const { transactions, pairs } = pairStatementEntries([
+      entry('A:1', 'A', 'A', 'B', 10_000, 0),
+      entry('B:1', 'B', 'A', 'B', 10_000, 3.01),
+      entry('A:2', 'A', 'A', 'B', 20_000, 10),
+      entry('B:2', 'B', 'A', 'B', 20_001, 10),
+      entry('A:3', 'A', 'A', 'B', 500, 20),
+      entry('A:4', 'A', 'A', 'B', 500, 20.5),
+      entry('B:3', 'B', 'A', 'B', 500, 20.4),
+    ]);
+
+    expect(pairs).toBe(1);
+    expect(transactions.map((t) => t.transaction_id)).toEqual(['A:1', 'B:1', 'A:2', 'B:2', 'A:3', 'A:4']);
+    expect(transactions.find((t) => t.direction === 'internal')?.transaction_id).toBe('A:3');
+  });
+
+  it('needs statements of two accounts', () => {
+    const input = [entry('A:1', 'A', 'A', 'B', 10_000, 0), entry('A:2', 'A', 'B', 'A', 10_000, 0)];
+
+    expect(pairStatementEntries(input)).toEqual({ transactions: input, pairs: 0 });
+  });
+});
@@ -0,0 +1,384 @@
+import Papa from 'papaparse';
+import {
+  ColumnFieldDef,
+  ColumnMapping,
+  NumberFormat,
+  ParseOptions,
+  ParseResult,
+  RejectedRow,
+  StatementField,
+  Transaction,
+  ValidationError,
+} from '@/types';
+import {
+  MAX_REPORTED_ERRORS,
+  ParseCallbacks,
+  buildParseResult,
+  createIdInterner,
+  createNullCounter,
+  createRowValidator,
+  decodedTextStream,
+  withDuplicatesResolved,
+} from './csvParser';
+import { PAYMENT_MESSAGE_HEADERS } from './paymentMessages';
+import { DEFAULT_NUMBER_FORMAT, normalizeLocaleNumber, papaDialectConfig } from './csvDialect';
+import { currencyExponent, parseMinorUnits } from './money';
+
+// =============================================
+// Account Statement Columns
+// =============================================
+// One row per booking on one account: the counterparty, a signed amount (or
+// separate debit / credit columns) and usually the balance after the entry.
+export const STATEMENT_FIELDS: ColumnFieldDef<StatementField>[] = [
+  {
+    field: 'account_id',
+    type: 'String — the statement account',
+    required: true,
+    synonyms: ['account', 'account_number', 'account_no', 'acct_no', 'iban', 'statement_account', 'own_account'],
+  },
+  {
+    field: 'counterparty_id',
+    type: 'String',
+    required: true,
+    synonyms: ['counterparty', 'counterparty_account', 'counterparty_iban', 'contra_account', 'other_account', 'other_party', 'payee_payer'],
+  },
+  {
+    field: 'timestamp',
+    type: 'Date/time (ISO 8601, epoch, DD/MM/YYYY)',
+    required: true,
+    synonyms: ['booking_date', 'value_date', 'transaction_date', 'posting_date', 'posted_at', 'date', 'datetime'],
+  },
+  {
+    field: 'amount',
+    type: 'Signed number, negative = debit (or map debit/credit)',
+    required: false,
+    synonyms: ['signed_amount', 'net_amount', 'transaction_amount', 'amt', 'value'],
+  },
+  {
+    field: 'debit',
+    type: 'Number — money out (optional)',
+    required: false,
+    synonyms: ['debit_amount', 'withdrawal', 'withdrawals', 'paid_out', 'money_out', 'dr'],
+  },
+  {
+    field: 'credit',
+    type: 'Number — money in (optional)',
+    required: false,
+    synonyms: ['credit_amount', 'deposit', 'deposits', 'paid_in', 'money_in', 'cr'],
+  },
+  {
+    field: 'balance',
+    type: 'Number — balance after the entry (optional)',
+    required: false,
+    synonyms: ['running_balance', 'balance_after', 'closing_balance', 'ledger_balance', 'available_balance'],
+  },
+  {
+    field: 'entry_id',
+    type: 'String (optional)',
+    required: false,
+    synonyms: ['transaction_id', 'txn_id', 'entry_ref', 'entry_reference', 'reference', 'ref', 'id'],
+  },
+  {
+    field: 'currency',
+    type: 'ISO 4217 code (optional)',
+    required: false,
+    synonyms: ['ccy', 'curr', 'currency_code'],
+  },
+];
+
+// Loosest field (account_id) last, as for transactions
+export const STATEMENT_FIELD_KEYWORDS: Partial<Record<StatementField, string[]>> = {
+  counterparty_id: ['counterpart', 'counterparty', 'contra', 'payee', 'payer'],
+  timestamp: ['date', 'time', 'timestamp', 'datetime'],
+  debit: ['debit', 'debits', 'withdrawal', 'withdrawals'],
+  credit: ['credit', 'credits', 'deposit', 'deposits'],
+  balance: ['balance', 'bal'],
+  currency: ['ccy', 'curr', 'currency'],
+  amount: ['amount', 'amt'],
+  entry_id: ['txn', 'txnid', 'ref', 'reference'],
+  account_id: ['acc', 'acct', 'account', 'iban'],
+};
+
+// Kept apart from transaction mapping profiles so neither list shows the other's
+export const STATEMENT_MAPPING_STORAGE_KEY = 'pathproof.statementMappingProfiles';
+
+// Required fields plus the amount, which may come from amount or debit/credit
+export function missingStatementFields(mapping: ColumnMapping<StatementField>, headers: string[]): StatementField[] {
+  const mapped = (field: StatementField) => Boolean(mapping[field] && headers.includes(mapping[field]!));
+  const missing = STATEMENT_FIELDS.filter((def) => def.required && !mapped(def.field)).map((def) => def.field);
+  if (!mapped('amount') && !mapped('debit') && !mapped('credit')) missing.push('amount');
+  return missing;
+}
+
+// "-1234.50", "(1234.50)" and "1234.50-" are all "-1234.50"; canonical text keeps the exact digits
+export function normalizeSignedAmount(value: string, format: NumberFormat = DEFAULT_NUMBER_FORMAT): string | null {
+  let s = value.trim().replace(/\s+/g, '');
+  if (!s) return null;
+  let sign = 1;
+  if (/^\(.*\)$/.test(s)) {
+    sign = -1;
+    s = s.slice(1, -1);
+  } else if (s.endsWith('-')) {
+    sign = -1;
+    s = s.slice(0, -1);
+  }
+  // A leading sign only when there was no other negative marker
+  if (sign === -1 && /^[+-]/.test(s)) return null;
+  const amount = normalizeLocaleNumber(s, format);
+  if (amount === null) return null;
+  return sign === -1 ? `-${amount}` : amount;
+}
+
+// =============================================
+// Row → Directed Transaction
+// =============================================
+type StatementRowOutcome = { transaction: Transaction } | { error: ValidationError };
+
+function createStatementRowValidator(
+  fileName: string,
+  mapping: ColumnMapping<StatementField>,
+  options: ParseOptions
+): (row: Record<string, string>, rowNum: number) => StatementRowOutcome {
+  // Canonical values go through the transaction validator for timestamps, currency and FX
+  // Amounts arrive here already normalized, so the validator sees the default number format
+  const validate = createRowValidator(
+    PAYMENT_MESSAGE_HEADERS,
+    { ...options, mapping: undefined, dialect: undefined },
+    createIdInterner()
+  );
+  const numberFormat = options.dialect ?? DEFAULT_NUMBER_FORMAT;
+  const value = (row: Record<string, string>, field: StatementField) =>
+    mapping[field] ? String(row[mapping[field]!] ?? '').trim() : '';
+  const fail = (rowNum: number, field: StatementField, message: string): StatementRowOutcome => ({
+    error: { row: rowNum, field, message: `Row ${rowNum}: ${message}` },
+  });
+
+  return (row, rowNum) => {
+    const account = value(row, 'account_id');
+    const counterparty = value(row, 'counterparty_id');
+    if (!account) return fail(rowNum, 'account_id', 'account_id is empty');
+    if (!counterparty) return fail(rowNum, 'counterparty_id', 'counterparty_id is empty');
+
+    let signed: string | null = null;
+    let debit = false;
+    const amountStr = value(row, 'amount');
+    const debitStr = value(row, 'debit');
+    const creditStr = value(row, 'credit');
+    if (amountStr) {
+      signed = normalizeSignedAmount(amountStr, numberFormat);
+      if (signed === null) return fail(rowNum, 'amount', `amount "${amountStr}" is not a number`);
+      debit = signed.startsWith('-');
+    } else if (debitStr && creditStr) {
+      return fail(rowNum, 'debit', `both debit "${debitStr}" and credit "${creditStr}" are filled in`);
+    } else if (debitStr || creditStr) {
+      signed = normalizeSignedAmount(debitStr || creditStr, numberFormat);
+      if (signed === null) {
+        return fail(rowNum, debitStr ? 'debit' : 'credit', `${debitStr ? 'debit' : 'credit'} "${debitStr || creditStr}" is not a number`);
+      }
+      // Some banks sign the debit column, others don't; a negative credit is
+      // money out (e.g. a returned deposit), read like a signed amount
+      debit = Boolean(debitStr) || signed.startsWith('-');
+    }
+    if (signed === null) return fail(rowNum, 'amount', 'no amount, debit or credit value');
+    if (Number(signed) === 0) return fail(rowNum, 'amount', 'amount is zero');
+
+    const balanceStr = value(row, 'balance');
+    const balance = balanceStr ? normalizeSignedAmount(balanceStr, numberFormat) : undefined;
+    if (balance === null) return fail(rowNum, 'balance', `balance "${balanceStr}" is not a number`);
+
+    const entryId = value(row, 'entry_id');
+    const values: Record<string, string> = {
+      // Entry references are only unique within one account's statement
+      transaction_id: `${account}:${entryId || `${fileName}#${rowNum}`}`,
+      sender_id: debit ? account : counterparty,
+      receiver_id: debit ? counterparty : account,
+      amount: signed.replace(/^[+-]/, ''),
+      timestamp: value(row, 'timestamp'),
+      currency: value(row, 'currency'),
+      direction: debit ? 'outbound' : 'inbound',
+    };
+    const outcome = validate(values, rowNum);
+    if ('error' in outcome) return outcome;
+    // Balances are in the statement's own currency, before any FX
+    const balanceMinor = balance !== undefined
+      ? parseMinorUnits(balance, currencyExponent(outcome.transaction.currency))
+      : undefined;
+    if (balanceMinor === null) return fail(rowNum, 'balance', `balance "${balanceStr}" is too large`);
+    return {
+      transaction: {
+        ...outcome.transaction,
+        statementAccount: outcome.transaction[debit ? 'sender_id' : 'receiver_id'],
+        ...(balanceMinor !== undefined ? { balances: { [account]: balanceMinor } } : {}),
+        ...(entryId ? { metadata: { entry_id: entryId } } : {}),
+      },
+    };
+  };
+}
+
+// =============================================
+// Running Balances
+// =============================================
+// Entries without a balance continue from the previous one in time order;
+// an account with no balance column at all gets its net flow since the first
+// entry of the file, which is enough to spot money passing straight through.
+function fillRunningBalances(transactions: Transaction[]): void {
+  const byAccount = new Map<string, Transaction[]>();
+  for (const tx of transactions) {
+    const account = tx.statementAccount!;
+    if (!byAccount.has(account)) byAccount.set(account, []);
+    byAccount.get(account)!.push(tx);
+  }
+  for (const [account, entries] of byAccount) {
+    entries.sort((a, b) => a.timestampMs - b.timestampMs);
+    let running = 0;
+    for (const tx of entries) {
+      const given = tx.balances?.[account];
+      if (given !== undefined) {
+        running = given;
+        continue;
+      }
+      const amount = tx.originalAmountMinor ?? tx.amountMinor;
+      running += tx.sender_id === account ? -amount : amount;
+      tx.balances = { [account]: running };
+    }
+  }
+}
+
+// =============================================
+// Statement CSV Parse
+// =============================================
+export async function parseStatement(
+  file: File,
+  options: ParseOptions = {},
+  callbacks: ParseCallbacks = {}
+): Promise<ParseResult> {
+  const { onProgress, signal } = callbacks;
+  const mapping = options.statementMapping ?? {};
+
+  return new Promise((resolve) => {
+    const transactions: Transaction[] = [];
+    const errors: ValidationError[] = [];
+    const rejected: RejectedRow[] | undefined = options.mode === 'partial' ? [] : undefined;
+    let errorCount = 0;
+    let rowCount = 0;
+    let validate: ReturnType<typeof createStatementRowValidator> | null = null;
+    let nulls: ReturnType<typeof createNullCounter> | null = null;
+    let headerError: ValidationError | null = null;
+    let bytesRead = 0;
+    const dialect = papaDialectConfig(options.dialect);
+    const input = decodedTextStream(file, dialect.encoding ?? 'utf-8', (bytes) => (bytesRead = bytes));
+
+    Papa.parse<Record<string, string>>(input as unknown as NodeJS.ReadableStream, {
+      ...dialect,
+      header: true,
+      skipEmptyLines: true,
+      chunk: (result, parser) => {
+        if (signal?.aborted) {
+          parser.abort();
+          return;
+        }
+        if (!validate) {
+          const headers: string[] = result.meta.fields ?? [];
+          const missing = missingStatementFields(mapping, headers);
+          if (missing.length > 0) {
+            headerError = {
+              message: `Statement columns not mapped: ${missing.map((f) => (f === 'amount' ? 'amount (or debit/credit)' : f)).join(', ')}. Found: ${headers.join(', ')}`,
+            };
+            parser.abort();
+            return;
+          }
+          validate = createStatementRowValidator(file.name, mapping, options);
+          nulls = createNullCounter(headers);
+        }
+
+        for (const row of result.data) {
+          rowCount++;
+          nulls.count(row);
+          const outcome = validate(row, rowCount + 1);
+          if ('error' in outcome) {
+            if (errorCount < MAX_REPORTED_ERRORS) errors.push(outcome.error);
+            errorCount++;
+            rejected?.push({ row: outcome.error.row, field: outcome.error.field, reason: outcome.error.message, values: row });
+          } else {
+            transactions.push(outcome.transaction);
+          }
+        }
+
+        onProgress?.({ bytesRead, totalBytes: file.size, rows: rowCount });
+      },
+      complete: () => {
+        input.stop();
+        if (signal?.aborted) {
+          resolve({ success: false, cancelled: true, transactions: [], errors: [{ message: 'Parsing cancelled.' }], rowCount });
+          return;
+        }
+        if (headerError) {
+          resolve({ success: false, transactions: [], errors: [headerError], rowCount: 0 });
+          return;
+        }
+        fillRunningBalances(transactions);
+        resolve({
+          ...withDuplicatesResolved(buildParseResult(transactions, errors, errorCount, rowCount, rejected), options),
+          columnNulls: nulls?.counts ?? {},
+          ...(options.dialect ? { dialect: options.dialect } : {}),
+        });
+      },
+      error: (err) => {
+        input.stop();
+        resolve({ success: false, transactions: [], errors: [{ message: `Statement parse error: ${err.message}` }], rowCount: 0 });
+      },
+    });
+  });
+}
+
+// =============================================
+// Internal Transfer Pairing
+// =============================================
+// When both accounts' statements are loaded, one transfer appears twice: as a
+// debit on the payer's statement and a credit on the payee's. The two sides
+// are matched on accounts and exact amount within a few days (value dates
+// differ) and merged into one transaction carrying both balances.
+const PAIR_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+
+export function pairStatementEntries(transactions: Transaction[]): { transactions: Transaction[]; pairs: number } {
+  const statementAccounts = new Set<string>();
+  for (const tx of transactions) {
+    if (tx.statementAccount) statementAccounts.add(tx.statementAccount);
+  }
+  if (statementAccounts.size < 2) return { transactions, pairs: 0 };
+
+  const key = (tx: Transaction) => `${tx.sender_id}\u0000${tx.receiver_id}`;
+  // Credit sides of internal transfers, by payer → payee
+  const credits = new Map<string, Transaction[]>();
+  for (const tx of transactions) {
+    if (tx.statementAccount !== tx.receiver_id || !statementAccounts.has(tx.sender_id)) continue;
+    if (!credits.has(key(tx))) credits.set(key(tx), []);
+    credits.get(key(tx))!.push(tx);
+  }
+
+  const consumed = new Set<Transaction>();
+  const merged = new Map<Transaction, Transaction>();
+  for (const tx of transactions) {
+    if (tx.statementAccount !== tx.sender_id || !statementAccounts.has(tx.receiver_id)) continue;
+    let best: Transaction | undefined;
+    for (const candidate of credits.get(key(tx)) ?? []) {
+      if (consumed.has(candidate) || candidate.amountMinor !== tx.amountMinor) continue;
+      const gap = Math.abs(candidate.timestampMs - tx.timestampMs);
+      if (gap > PAIR_WINDOW_MS) continue;
+      if (!best || gap < Math.abs(best.timestampMs - tx.timestampMs)) best = candidate;
+    }
+    if (!best) continue;
+    consumed.add(best);
+    merged.set(tx, {
+      ...tx,
+      direction: 'internal',
+      balances: { ...tx.balances, ...best.balances },
+      metadata: { ...tx.metadata, paired_entry_id: best.transaction_id },
+    });
+  }
+
+  return {
+    transactions: transactions.filter((tx) => !consumed.has(tx)).map((tx) => merged.get(tx) ?? tx),
+    pairs: consumed.size,
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { isValidTimeZone, parseTimestamp } from './timestamp';
+
+const utc = (iso: string) => Date.parse(iso);
+const MINUTE_MS = 60_000;
+
+describe('parseTimestamp', () => {
+  it('reads naive timestamps as UTC by default', () => {
+    expect(parseTimestamp('2024-03-01 12:00:00')).toBe(utc('2024-03-01T12:00:00Z'));
+    expect(parseTimestamp('01/03/2024 12:00')).toBe(utc('2024-03-01T12:00:00Z'));
+  });
+
+  it('reads naive timestamps as wall-clock time in the source IANA zone', () => {
+    expect(parseTimestamp('2024-01-15 12:00:00', { timezone: 'Europe/Berlin' })).toBe(utc('2024-01-15T11:00:00Z'));
+    expect(parseTimestamp('2024-07-15 12:00:00', { timezone: 'Europe/Berlin' })).toBe(utc('2024-07-15T10:00:00Z'));
+    expect(parseTimestamp('15.07.2024 12:00', { timezone: 'Europe/Berlin' })).toBe(utc('2024-07-15T10:00:00Z'));
+    expect(parseTimestamp('2024-07-04T09:30', { timezone: 'America/New_York' })).toBe(utc('2024-07-04T13:30:00Z'));
+    expect(parseTimestamp('2024-03-01 05:30:00', { timezone: 'Asia/Kolkata' })).toBe(utc('2024-03-01T00:00:00Z'));
+  });
+
+  it('lets an explicit offset win over the source zone', () => {
+    expect(parseTimestamp('2024-07-15T12:00:00+02:00', { timezone: 'America/New_York' })).toBe(utc('2024-07-15T10:00:00Z'));
+    expect(parseTimestamp('2024-07-15T12:00:00Z', { timezone: 'Asia/Tokyo' })).toBe(utc('2024-07-15T12:00:00Z'));
+    expect(parseTimestamp('2024-07-15T12:00:00-0530')).toBe(utc('2024-07-15T17:30:00Z'));
+  });
+
+  it('keeps wall-clock time continuous across the spring-forward gap', () => {
+    // Berlin clocks jump from 02:00 CET to 03:00 CEST on 2024-03-31
+    const zone = { timezone: 'Europe/Berlin' };
+    const before = parseTimestamp('2024-03-31 01:59', zone)!;
+    const after = parseTimestamp('2024-03-31 03:00', zone)!;
+
+    expect(before).toBe(utc('2024-03-31T00:59:00Z'));
+    expect(after - before).toBe(MINUTE_MS);
+    // A time inside the gap is read with the offset in force before it
+    expect(parseTimestamp('2024-03-31 02:30', zone)).toBe(utc('2024-03-31T01:30:00Z'));
+  });
+
+  it('reads a repeated fall-back hour as its second occurrence', () => {
+    // Berlin clocks go back from 03:00 CEST to 02:00 CET on 2024-10-27
+    const zone = { timezone: 'Europe/Berlin' };
+
+    expect(parseTimestamp('2024-10-27 01:59', zone)).toBe(utc('2024-10-26T23:59:00Z'));
+    // 02:30 happens at 00:30Z (CEST) and again at 01:30Z (CET)
+    expect(parseTimestamp('2024-10-27 02:30', zone)).toBe(utc('2024-10-27T01:30:00Z'));
+    expect(parseTimestamp('2024-10-27 03:00', zone)).toBe(utc('2024-10-27T02:00:00Z'));
+    // US zones switch on their own dates
+    expect(parseTimestamp('2024-03-10 12:00', { timezone: 'America/New_York' })).toBe(utc('2024-03-10T16:00:00Z'));
+    expect(parseTimestamp('2024-03-09 12:00', { timezone: 'America/New_York' })).toBe(utc('2024-03-09T17:00:00Z'));
+  });
+
+  it('reads epoch seconds and milliseconds', () => {
+    expect(parseTimestamp('1709251200')).toBe(utc('2024-03-01T00:00:00Z'));
+    expect(parseTimestamp('1709251200500')).toBe(utc('2024-03-01T00:00:00.500Z'));
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseTimestamp('2023-02-29')).toBeNull();
+    expect(parseTimestamp('2024-02-29')).toBe(utc('2024-02-29T00:00:00Z'));
+    expect(parseTimestamp('31/04/2024')).toBeNull();
+    expect(parseTimestamp('2024-03-01 24:00')).toBeNull();
+    expect(parseTimestamp('yesterday')).toBeNull();
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA zone names only', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
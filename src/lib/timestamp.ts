@@ -0,0 +1,159 @@
+// =============================================
+// Timestamp Parsing (all formats → UTC epoch ms)
+// =============================================
+// Naive timestamps (no offset) are read as wall-clock time in the configured
+// source timezone, never the browser's, so windows are identical on every machine.
+
+export const DEFAULT_SOURCE_TIMEZONE = 'UTC';
+
+export const SUPPORTED_TIMESTAMP_FORMATS = [
+  'YYYY-MM-DD HH:MM:SS',
+  'ISO 8601 (with Z or ±HH:MM offset)',
+  'DD/MM/YYYY [HH:MM[:SS]]',
+  'Epoch seconds / milliseconds',
+];
+
+export interface TimestampOptions {
+  timezone?: string; // IANA zone applied to timestamps without an explicit offset
+}
+
+// YYYY-MM-DD[ T]HH:MM[:SS[.fff]][Z|±HH[:]MM]  (date-only also accepted; '/' separators too)
+const ISO_REGEX =
+  /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,9}))?)?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?$/i;
+
+// DD/MM/YYYY, DD-MM-YYYY, DD.MM.YYYY [HH:MM[:SS]]
+const DMY_REGEX = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[T ,]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+const EPOCH_REGEX = /^\d{9,14}(?:\.\d+)?$/;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isUtcZone(timeZone: string): boolean {
+  return /^(utc|gmt|etc\/utc|etc\/gmt|z)$/i.test(timeZone);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Wall-clock components → ms as if the wall clock were UTC, or null if out of range
+function wallClockMs(
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+  ms = 0
+): number | null {
+  if (month < 1 || month > 12) return null;
+  if (day < 1 || day > daysInMonth(year, month)) return null;
+  if (hour > 23 || minute > 59 || second > 59) return null;
+  return Date.UTC(year, month - 1, day, hour, minute, second, ms);
+}
+
+function parseOffset(offset: string): number {
+  if (offset.toUpperCase() === 'Z') return 0;
+  const sign = offset[0] === '-' ? -1 : 1;
+  const digits = offset.slice(1).replace(':', '');
+  const hours = parseInt(digits.slice(0, 2), 10);
+  const minutes = digits.length > 2 ? parseInt(digits.slice(2, 4), 10) : 0;
+  return sign * (hours * 60 + minutes) * 60 * 1000;
+}
+
+// =============================================
+// Timezone Offsets (cached per wall-clock hour)
+// =============================================
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const offsetCache = new Map<string, Map<number, number>>();
+const HOUR_MS = 60 * 60 * 1000;
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let dtf = formatters.get(timeZone);
+  if (!dtf) {
+    dtf = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, dtf);
+  }
+  return dtf;
+}
+
+// Offset of `timeZone` from UTC at the given instant
+function zoneOffsetAt(utcMs: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const p of getFormatter(timeZone).formatToParts(new Date(utcMs))) {
+    if (p.type !== 'literal') parts[p.type] = parseInt(p.value, 10);
+  }
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (utcMs - (((utcMs % 1000) + 1000) % 1000));
+}
+
+function wallClockToUtc(wallMs: number, timeZone: string): number {
+  if (isUtcZone(timeZone)) return wallMs;
+
+  let cache = offsetCache.get(timeZone);
+  if (!cache) {
+    cache = new Map();
+    offsetCache.set(timeZone, cache);
+  }
+  const hourKey = Math.floor(wallMs / HOUR_MS);
+  let offset = cache.get(hourKey);
+  if (offset === undefined) {
+    // Two passes settle the offset around DST transitions
+    const guess = wallMs - zoneOffsetAt(wallMs, timeZone);
+    offset = zoneOffsetAt(guess, timeZone);
+    if (cache.size > 50_000) cache.clear();
+    cache.set(hourKey, offset);
+  }
+  return wallMs - offset;
+}
+
+// =============================================
+// Public Parser
+// =============================================
+export function parseTimestamp(ts: string, options: TimestampOptions = {}): number | null {
+  const cleaned = ts.trim();
+  if (!cleaned) return null;
+  const timeZone = options.timezone || DEFAULT_SOURCE_TIMEZONE;
+
+  // Epoch seconds (≤ 11 integer digits) or milliseconds
+  if (EPOCH_REGEX.test(cleaned)) {
+    const value = parseFloat(cleaned);
+    const intDigits = cleaned.split('.')[0].length;
+    return Math.round(intDigits <= 11 ? value * 1000 : value);
+  }
+
+  const iso = cleaned.match(ISO_REGEX);
+  if (iso) {
+    const [, y, mo, d, h, mi, s, frac, offset] = iso;
+    const ms = frac ? parseInt(frac.padEnd(3, '0').slice(0, 3), 10) : 0;
+    const wall = wallClockMs(+y, +mo, +d, h ? +h : 0, mi ? +mi : 0, s ? +s : 0, ms);
+    if (wall === null) return null;
+    return offset ? wall - parseOffset(offset) : wallClockToUtc(wall, timeZone);
+  }
+
+  const dmy = cleaned.match(DMY_REGEX);
+  if (dmy) {
+    const [, d, mo, y, h, mi, s] = dmy;
+    const wall = wallClockMs(+y, +mo, +d, h ? +h : 0, mi ? +mi : 0, s ? +s : 0);
+    if (wall === null) return null;
+    return wallClockToUtc(wall, timeZone);
+  }
+
+  return null;
+}
@@ -0,0 +1,165 @@
+import { CodedTransactionField, Transaction, TransactionColumns } from '@/types';
+import { currencyExponent, fromMinorUnits } from './money';
+
+// =============================================
+// Columnar Transaction Store
+// =============================================
+// Large Arrow / Parquet extracts are validated row by row in the worker and
+// handed back as typed arrays: account IDs and the low-cardinality fields are
+// dictionary-coded, and the buffers move by transfer rather than structured
+// clone of millions of objects. This is a transfer format only: the main
+// thread materializes it into Transaction objects before merging, so the
+// analysis itself holds the same rows as for any other source.
+
+const CODED_FIELDS: CodedTransactionField[] = ['currency', 'baseCurrency', 'channel', 'direction', 'status'];
+const INITIAL_CAPACITY = 1024;
+
+function grow<T extends Uint32Array | Uint16Array | Float64Array>(array: T, capacity: number): T {
+  const next = new (array.constructor as new (length: number) => T)(capacity);
+  next.set(array);
+  return next;
+}
+
+function createDictionary(): { values: string[]; code: (value: string | undefined) => number } {
+  const values = [''];
+  const index = new Map<string, number>([['', 0]]);
+  return {
+    values,
+    code: (value) => {
+      if (!value) return 0;
+      let code = index.get(value);
+      if (code === undefined) {
+        code = values.length;
+        index.set(value, code);
+        values.push(value);
+      }
+      return code;
+    },
+  };
+}
+
+// `capacity` is a hint (the source's row count); the arrays grow past it if needed
+export function createColumnBuilder(capacity = INITIAL_CAPACITY): {
+  push: (tx: Transaction) => void;
+  finish: () => TransactionColumns;
+} {
+  let size = Math.max(capacity, 1);
+  let length = 0;
+  const transactionIds: string[] = [];
+  const accounts = createDictionary();
+  let sender = new Uint32Array(size);
+  let receiver = new Uint32Array(size);
+  let amountMinor = new Float64Array(size);
+  let originalAmountMinor = new Float64Array(size);
+  let timestampMs = new Float64Array(size);
+  const codes = Object.fromEntries(CODED_FIELDS.map((f) => [f, new Uint16Array(size)])) as Record<CodedTransactionField, Uint16Array>;
+  const dictionaries = Object.fromEntries(CODED_FIELDS.map((f) => [f, createDictionary()])) as Record<
+    CodedTransactionField,
+    ReturnType<typeof createDictionary>
+  >;
+  const reverses = new Map<number, string>();
+
+  const ensureCapacity = () => {
+    if (length < size) return;
+    size *= 2;
+    sender = grow(sender, size);
+    receiver = grow(receiver, size);
+    amountMinor = grow(amountMinor, size);
+    originalAmountMinor = grow(originalAmountMinor, size);
+    timestampMs = grow(timestampMs, size);
+    for (const f of CODED_FIELDS) codes[f] = grow(codes[f], size);
+  };
+
+  return {
+    push: (tx) => {
+      ensureCapacity();
+      transactionIds.push(tx.transaction_id);
+      sender[length] = accounts.code(tx.sender_id);
+      receiver[length] = accounts.code(tx.receiver_id);
+      amountMinor[length] = tx.amountMinor;
+      originalAmountMinor[length] = tx.originalAmountMinor ?? NaN;
+      timestampMs[length] = tx.timestampMs;
+      for (const f of CODED_FIELDS) codes[f][length] = dictionaries[f].code(tx[f]);
+      if (tx.reverses_transaction_id) reverses.set(length, tx.reverses_transaction_id);
+      length++;
+    },
+    finish: () => ({
+      length,
+      transactionIds,
+      accounts: accounts.values,
+      sender: sender.subarray(0, length),
+      receiver: receiver.subarray(0, length),
+      amountMinor: amountMinor.subarray(0, length),
+      originalAmountMinor: originalAmountMinor.subarray(0, length),
+      timestampMs: timestampMs.subarray(0, length),
+      codes: Object.fromEntries(CODED_FIELDS.map((f) => [f, codes[f].subarray(0, length)])) as Record<
+        CodedTransactionField,
+        Uint16Array
+      >,
+      dictionaries: Object.fromEntries(CODED_FIELDS.map((f) => [f, dictionaries[f].values])) as Record<
+        CodedTransactionField,
+        string[]
+      >,
+      reverses,
+    }),
+  };
+}
+
+// Buffers to list in postMessage's transfer argument
+export function columnBuffers(columns: TransactionColumns): ArrayBuffer[] {
+  const arrays = [
+    columns.sender,
+    columns.receiver,
+    columns.amountMinor,
+    columns.originalAmountMinor,
+    columns.timestampMs,
+    ...CODED_FIELDS.map((f) => columns.codes[f]),
+  ];
+  return arrays.map((a) => a.buffer as ArrayBuffer);
+}
+
+// =============================================
+// Materialization
+// =============================================
+// The merge, reversal and detection steps still work on Transaction objects.
+// Rows built here share one string per account and per coded value, and the
+// timestamp text is the parsed instant in ISO 8601 UTC.
+export function materializeTransactions(columns: TransactionColumns): Transaction[] {
+  const { accounts, codes, dictionaries } = columns;
+  const transactions: Transaction[] = new Array(columns.length);
+  for (let i = 0; i < columns.length; i++) {
+    const value = (field: CodedTransactionField) => dictionaries[field][codes[field][i]] || undefined;
+    const currency = value('currency');
+    const baseCurrency = value('baseCurrency');
+    const channel = value('channel');
+    const direction = value('direction');
+    const status = value('status');
+    const reverses = columns.reverses.get(i);
+    const amountMinor = columns.amountMinor[i];
+    const originalAmountMinor = columns.originalAmountMinor[i];
+    const timestampMs = columns.timestampMs[i];
+
+    transactions[i] = {
+      transaction_id: columns.transactionIds[i],
+      sender_id: accounts[columns.sender[i]],
+      receiver_id: accounts[columns.receiver[i]],
+      amount: fromMinorUnits(amountMinor, currencyExponent(baseCurrency)),
+      amountMinor,
+      timestamp: new Date(timestampMs).toISOString(),
+      timestampMs,
+      ...(baseCurrency ? { baseCurrency } : {}),
+      ...(currency
+        ? {
+            currency,
+            originalAmount: fromMinorUnits(originalAmountMinor, currencyExponent(currency)),
+            originalAmountMinor,
+          }
+        : {}),
+      ...(channel ? { channel: channel as Transaction['channel'] } : {}),
+      ...(direction ? { direction: direction as Transaction['direction'] } : {}),
+      ...(status ? { status: status as Transaction['status'] } : {}),
+      ...(reverses ? { reverses_transaction_id: reverses } : {}),
+    };
+  }
+  return transactions;
+}
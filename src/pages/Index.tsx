@@ -1,22 +1,34 @@
 import React, { useState, useCallback } from 'react';
-import { Transaction, AnalysisResult } from '@/types';
+import { Transaction, AnalysisResult, IngestionSummary, AccountMasterData, DetectionConfig } from '@/types';
 import { CSVUpload } from '@/components/CSVUpload';
 import { ResultsDashboard } from '@/components/ResultsDashboard';
+import { DataProfileView } from '@/components/DataProfileView';
 import { analyzeTransactions } from '@/lib/graphAnalysis';
+import { DataProfile, profileTransactions } from '@/lib/dataProfile';
+import { DEFAULT_DETECTION_CONFIG, loadAllowlist, saveAllowlist } from '@/lib/detectionConfig';
+import { pseudonymizeAllowlist } from '@/lib/pseudonymize';
 import { Shield, Zap, Network, FileJson, Loader2, AlertCircle } from 'lucide-react';
 
-type AppState = 'upload' | 'processing' | 'results' | 'error';
+type AppState = 'upload' | 'profile' | 'processing' | 'results' | 'error';
 
 export default function Index() {
   const [appState, setAppState] = useState<AppState>('upload');
   const [result, setResult] = useState<AnalysisResult | null>(null);
-  const [fileName, setFileName] = useState('');
+  const [fileNames, setFileNames] = useState<string[]>([]);
+  const [ingestion, setIngestion] = useState<IngestionSummary | null>(null);
+  const [parsed, setParsed] = useState<{ transactions: Transaction[]; accounts?: AccountMasterData } | null>(null);
+  const [profile, setProfile] = useState<DataProfile | null>(null);
+  const [config, setConfig] = useState<DetectionConfig>(() => ({ ...DEFAULT_DETECTION_CONFIG, allowlist: loadAllowlist() }));
   const [processingError, setProcessingError] = useState('');
   const [progressMsg, setProgressMsg] = useState('');
 
   const handleParsed = useCallback(
-    async (transactions: Transaction[], name: string) => {
-      setFileName(name);
+    async (
+      transactions: Transaction[],
+      detection: DetectionConfig,
+      accounts?: AccountMasterData,
+      pseudonymKey?: CryptoKey
+    ) => {
       setAppState('processing');
       setProgressMsg('Building transaction graph…');
 
@@ -27,7 +39,11 @@ export default function Index() {
         setProgressMsg(`Analyzing ${transactions.length.toLocaleString()} transactions…`);
         await new Promise((r) => setTimeout(r, 20));
 
-        const res = analyzeTransactions(transactions);
+        // Graph nodes are pseudonyms; so are the allowlist entries the run matches and exports
+        const runConfig = pseudonymKey
+          ? { ...detection, allowlist: await pseudonymizeAllowlist(detection.allowlist, pseudonymKey) }
+          : detection;
+        const res = analyzeTransactions(transactions, runConfig, accounts);
         setResult(res);
         setAppState('results');
       } catch (err: any) {
@@ -38,16 +54,32 @@ export default function Index() {
     []
   );
 
+  // Profile the parsed data first; analysis starts from the profile screen
   const handleCSVReady = useCallback(
-    (transactions: Transaction[], name: string) => {
-      handleParsed(transactions, name);
+    (transactions: Transaction[], names: string[], summary: IngestionSummary, accounts?: AccountMasterData) => {
+      setFileNames(names);
+      setIngestion(summary);
+      setParsed({ transactions, accounts });
+      setProfile(profileTransactions(transactions, summary, accounts));
+      setAppState('profile');
     },
-    [handleParsed]
+    []
   );
 
+  const changeConfig = (next: DetectionConfig) => {
+    if (next.allowlist !== config.allowlist) saveAllowlist(next.allowlist);
+    setConfig(next);
+  };
+
+  const runAnalysis = () => {
+    if (parsed) handleParsed(parsed.transactions, config, parsed.accounts, ingestion?.pseudonymization?.key);
+  };
+
   const reset = () => {
     setAppState('upload');
     setResult(null);
+    setParsed(null);
+    setProfile(null);
     setProcessingError('');
   };
 
@@ -108,7 +140,7 @@ export default function Index() {
             <div className="flex flex-wrap justify-center gap-3 mb-12">
               {[
                 { icon: <Network className="w-3.5 h-3.5" />, label: 'Force-Directed Graph Viz' },
-                { icon: <Shield className="w-3.5 h-3.5" />, label: 'Cycle Detection (3–5 hops)' },
+                { icon: <Shield className="w-3.5 h-3.5" />, label: 'Cycle Detection (2–10 accounts)' },
                 { icon: <Zap className="w-3.5 h-3.5" />, label: 'Smurfing (Fan-in / Fan-out)' },
                 { icon: <FileJson className="w-3.5 h-3.5" />, label: 'Downloadable JSON Report' },
               ].map((f) => (
@@ -144,6 +176,18 @@ export default function Index() {
           </div>
         )}
 
+        {/* ── PROFILE STATE ── */}
+        {appState === 'profile' && profile && (
+          <DataProfileView
+            profile={profile}
+            fileNames={fileNames}
+            config={config}
+            onConfigChange={changeConfig}
+            onAnalyze={runAnalysis}
+            onReset={reset}
+          />
+        )}
+
         {/* ── PROCESSING STATE ── */}
         {appState === 'processing' && (
           <div className="flex flex-col items-center justify-center min-h-96 gap-6 animate-fade-in-up">
@@ -159,8 +203,8 @@ export default function Index() {
             </div>
             <div className="flex gap-8 text-center">
               {[
-                { label: 'Cycle Detection', sublabel: 'DFS 3–5 hops' },
-                { label: 'Smurfing Analysis', sublabel: '72h sliding window' },
+                { label: 'Cycle Detection', sublabel: `${config.cycles.minLength}–${config.cycles.maxLength} accounts${config.temporalCycles.enabled ? `, in order within ${config.temporalCycles.windowHours}h` : ', SCC-pruned'}` },
+                { label: 'Smurfing Analysis', sublabel: `${config.smurfing.windowHours}h sliding window` },
                 { label: 'Shell Networks', sublabel: 'BFS chain detection' },
               ].map((item) => (
                 <div key={item.label}>
@@ -174,7 +218,7 @@ export default function Index() {
 
         {/* ── RESULTS STATE ── */}
         {appState === 'results' && result && (
-          <ResultsDashboard result={result} fileName={fileName} onReset={reset} />
+          <ResultsDashboard result={result} fileNames={fileNames} ingestion={ingestion} onReset={reset} />
         )}
 
         {/* ── ERROR STATE ── */}
@@ -3,30 +3,77 @@
 // Core Type Definitions
 // =============================================
 
+export type Channel = 'wire' | 'ach' | 'card' | 'cash_deposit' | 'atm' | 'crypto';
+
+// Relative to the institution that produced the data
+export type TransactionDirection = 'inbound' | 'outbound' | 'internal';
+
+// completed: ordinary transfer · reversed: this transfer was undone in full ·
+// refund / chargeback: this row reverses an earlier transfer
+export type TransactionStatus = 'completed' | 'reversed' | 'refund' | 'chargeback';
+
 export interface RawTransaction {
   transaction_id: string;
   sender_id: string;
   receiver_id: string;
   amount: number;
-  timestamp: string; // YYYY-MM-DD HH:MM:SS
+  timestamp: string; // as found in the source (ISO 8601, epoch, DD/MM/YYYY, ...)
+  currency?: string; // ISO 4217 code; optional column
+  channel?: Channel; // optional column
+  direction?: TransactionDirection; // optional column
+  status?: TransactionStatus; // optional column
+  reverses_transaction_id?: string; // optional column: the transfer this row reverses
+}
+
+// Counterparty details carried by payment messages (ISO 20022, MT103)
+export interface PartyDetails {
+  name?: string;
+  bic?: string; // BIC of the account-holding bank
+  address?: string;
+}
+
+// Account master data, joined onto graph nodes by account ID
+export interface AccountAttributes {
+  account_type?: string; // e.g. personal, savings, business current
+  open_date?: number; // epoch ms, UTC
+  customer_segment?: string;
+  country?: string;
+  income_band?: string; // declared income band, as given
+  is_business?: boolean;
 }
 
+export type AccountField = 'account_id' | keyof AccountAttributes;
+
+export type AccountMasterData = Map<string, AccountAttributes>;
+
 export interface Transaction extends RawTransaction {
-  timestampMs: number; // parsed epoch ms
+  timestampMs: number; // parsed epoch ms, always UTC
+  amountMinor: number; // `amount` in integer minor units of baseCurrency — what aggregates sum
+  baseCurrency?: string; // currency of `amount`; absent when the source has no currency and no FX table
+  originalAmount?: number; // amount in `currency` before FX; `amount` is in the base currency
+  originalAmountMinor?: number; // originalAmount in minor units of `currency`
+  sourceFile?: string; // input file the row came from
+  metadata?: Record<string, unknown>; // unmapped source fields (JSON imports), carried through to edges
+  senderParty?: PartyDetails;
+  receiverParty?: PartyDetails;
+  statementAccount?: string; // statement imports: the account whose statement the row came from
+  balances?: Record<string, number>; // statement imports: account → balance after this entry, minor units of the statement currency
 }
 
 // Graph node
 export interface GraphNode {
   id: string;
   totalTransactions: number;
-  totalSent: number;
-  totalReceived: number;
+  totalSentMinor: number; // base-currency minor units
+  totalReceivedMinor: number;
   uniqueSenders: Set<string>;
   uniqueReceivers: Set<string>;
   isSuspicious: boolean;
   suspicionScore: number;
   detectedPatterns: PatternType[];
   ringId?: string;
+  party?: PartyDetails; // first party details seen for this account
+  attributes?: AccountAttributes; // from the account master-data file
 }
 
 // Graph edge
@@ -34,24 +81,51 @@ export interface GraphEdge {
   source: string;
   target: string;
   amount: number;
+  amountMinor: number;
   timestamp: number; // epoch ms
   transactionId: string;
+  originalAmount?: number; // pre-FX amount in `currency`
+  originalAmountMinor?: number;
+  currency?: string;
+  channel?: Channel;
+  direction?: TransactionDirection;
+  sourceFile?: string;
+  metadata?: Record<string, unknown>;
+  balances?: Record<string, number>;
 }
 
 export type PatternType =
-  | 'cycle_length_3'
-  | 'cycle_length_4'
-  | 'cycle_length_5'
+  | `cycle_length_${number}`
   | 'fan_in'
   | 'fan_out'
   | 'shell_chain'
-  | 'high_velocity';
+  | 'high_velocity'
+  | 'new_account_inflow'
+  | 'amount_conserved';
 
 export interface FraudRing {
   ring_id: string;
   member_accounts: string[];
   pattern_type: 'cycle' | 'fan_in' | 'fan_out' | 'shell_chain';
   risk_score: number;
+  loops?: CycleLoop[]; // temporal cycle mode: the transactions that carried the money round
+  amount_flow?: AmountFlow; // cycle and shell rings: the member path that best kept its amount
+}
+
+// How much of the money entering a cycle or chain makes it to the end
+export interface AmountFlow {
+  accounts: string[]; // the path in hop order; a cycle's last hop returns to accounts[0]
+  hop_retention: number[]; // per intermediate account: amount passed on ÷ amount received
+  leakage: number; // 1 − last hop's amount ÷ first hop's amount
+  conserved: boolean; // every hop_retention within [1 − tolerance, 1]
+}
+
+// One pass of money round a cycle, hop by hop in time order
+export interface CycleLoop {
+  accounts: string[]; // in the order the money moved, starting with the first sender
+  transaction_ids: string[]; // one per hop; the last returns to accounts[0]
+  started_at: number; // epoch ms of the first hop
+  closed_at: number; // epoch ms of the last hop
 }
 
 export interface SuspiciousAccount {
@@ -59,19 +133,85 @@ export interface SuspiciousAccount {
   suspicion_score: number;
   detected_patterns: PatternType[];
   ring_id?: string;
+  party?: PartyDetails;
+  attributes?: AccountAttributes;
 }
 
 export interface AnalysisSummary {
   total_accounts_analyzed: number;
   suspicious_accounts_flagged: number;
   fraud_rings_detected: number;
+  false_positives_suppressed: number;
   processing_time_seconds: number;
 }
 
+// How reversal entries are treated before detection (see lib/reversals)
+export type ReversalPolicy = 'net' | 'exclude' | 'keep';
+
+export interface ReversalSummary {
+  policy: ReversalPolicy;
+  reversalEntries: number; // refund / chargeback / linked reversal rows
+  unmatched: number; // reversal entries whose original is not in the data
+  originalsRemoved: number; // originals dropped from the graph
+  originalsReduced: number; // partially reversed originals kept at their net amount
+  volumeRemovedMinor: number; // base-currency minor units taken out of the graph, both sides
+}
+
+export interface CycleSearchSummary {
+  cyclesFound: number;
+  components: number; // strongly connected components that can hold a cycle
+  accountsInComponents: number; // accounts the search had to visit at all
+  truncated?: 'max_cycles' | 'time_budget'; // set when the search (or the temporal pass) stopped early
+  inTimeOrder?: number; // temporal mode: cycles whose transactions run round in order
+}
+
+// Detector thresholds and score weights for one analysis run (see lib/detectionConfig)
+export type ScoredPattern = 'cycle' | 'fanIn' | 'fanOut' | 'shell' | 'velocity' | 'newAccount' | 'conservation';
+
+export interface DetectionConfig {
+  cycles: { minLength: number; maxLength: number; maxCycles: number; timeBudgetSeconds: number }; // lengths in accounts per loop
+  temporalCycles: { enabled: boolean; maxHopHours: number; windowHours: number }; // each hop within maxHopHours of the last
+  conservation: { tolerance: number }; // share an intermediate may keep per hop, 0..1
+  smurfing: { threshold: number; windowHours: number }; // weighted unique counterparties within the window
+  shellChains: { minHops: number; maxTransactions: number }; // intermediates have 2..maxTransactions transactions
+  velocity: { minTransactions: number; windowHours: number }; // weighted transactions sent within the window
+  newAccounts: { minSenders: number; maxAgeDays: number }; // distinct senders within maxAgeDays of opening
+  scores: Record<ScoredPattern, number>; // points added per pattern; account scores are capped at 100
+  channelWeights: Record<'smurfing' | 'velocity', Record<Channel, number>>; // 0..1 per transaction
+  reversalPolicy: ReversalPolicy;
+  suppression: {
+    payroll: { enabled: boolean; minTransactions: number; maxVariation: number }; // coefficient of variation of amounts
+    merchant: { enabled: boolean; minPayers: number; minCardShare: number; maxPayerShare: number }; // shares are 0..1
+  };
+  allowlist: AllowlistEntry[]; // persisted in the browser between runs
+}
+
+// A known-legitimate account; its flags are always suppressed
+export interface AllowlistEntry {
+  account_id: string;
+  note?: string; // why it is legitimate, e.g. "payroll provider"
+}
+
+export type SuppressionReason = 'payroll' | 'merchant' | 'allowlist';
+
+// A flag the false-positive filters took away, and why
+export interface Suppression {
+  account_id: string;
+  reason: SuppressionReason;
+  detail: string; // the evidence, e.g. "24 payments, amounts vary 1.2%"
+  suppressed_patterns: PatternType[];
+  score_before: number;
+}
+
 export interface AnalysisResult {
   suspicious_accounts: SuspiciousAccount[];
   fraud_rings: FraudRing[];
   summary: AnalysisSummary;
+  reversals: ReversalSummary;
+  cycleSearch: CycleSearchSummary;
+  baseCurrency?: string; // currency of every amount and total; sets the minor-unit exponent
+  config: DetectionConfig; // as used for this run
+  suppressions: Suppression[];
   // Internal graph data (not in JSON export)
   nodes: Map<string, GraphNode>;
   edges: GraphEdge[];
@@ -99,6 +239,9 @@ export interface D3Link {
   target: string | D3Node;
   amount: number;
   transactionId: string;
+  originalAmount?: number;
+  currency?: string;
+  channel?: Channel;
 }
 
 export interface ValidationError {
@@ -112,4 +255,148 @@ export interface ParseResult {
   transactions: Transaction[];
   errors: ValidationError[];
   rowCount: number;
+  cancelled?: boolean;
+  rejected?: RejectedRow[]; // partial mode: rows left out of the analysis
+  duplicates?: DuplicateReport;
+  columnNulls?: ColumnNullCounts;
+  dialect?: CsvDialect; // CSV settings the file was read with
+  columns?: TransactionColumns; // columnar sources: the rows, in place of `transactions` until materialized
+}
+
+// Dictionary-coded fields of the columnar store; code 0 means absent
+export type CodedTransactionField = 'currency' | 'baseCurrency' | 'channel' | 'direction' | 'status';
+
+// Valid rows of a columnar (Arrow / Parquet) source as typed arrays, the form
+// they are transferred out of the worker in; materialized before the merge
+export interface TransactionColumns {
+  length: number;
+  transactionIds: string[];
+  accounts: string[]; // account dictionary: sender/receiver index → account ID
+  sender: Uint32Array;
+  receiver: Uint32Array;
+  amountMinor: Float64Array;
+  originalAmountMinor: Float64Array; // NaN where the row has no currency
+  timestampMs: Float64Array;
+  codes: Record<CodedTransactionField, Uint16Array>;
+  dictionaries: Record<CodedTransactionField, string[]>; // index 0 is ''
+  reverses: Map<number, string>; // row → reverses_transaction_id, for the few rows that have one
+}
+
+// Source column → number of rows where it was empty or absent
+export type ColumnNullCounts = Record<string, number>;
+
+export type DuplicatePolicy = 'drop' | 'keep_first' | 'fail';
+
+export interface DuplicateReport {
+  policy: DuplicatePolicy;
+  exactDuplicates: number; // extra identical copies of a transaction_id
+  conflictingIds: number; // IDs seen with different content
+  conflictingRecords: number; // records beyond the first for those IDs
+  removed: number; // records dropped by the policy
+  sampleConflictIds: string[];
+}
+
+// What happened between the raw file(s) and the transactions handed to analysis
+export interface IngestionFileSummary {
+  name: string;
+  rowsRead: number;
+  transactions: number;
+  rowsRejected: number;
+  columnNulls?: ColumnNullCounts;
+  dialect?: CsvDialect;
+}
+
+export interface IngestionSummary {
+  rowsRead: number;
+  transactions: number; // after cross-file de-duplication and statement pairing
+  rowsRejected: number;
+  duplicates: DuplicateReport;
+  files: IngestionFileSummary[];
+  statementPairs?: number; // internal transfers seen on both accounts' statements, merged into one
+  pseudonymization?: PseudonymizationSummary;
+}
+
+// Account IDs replaced with keyed pseudonyms on ingest (see lib/pseudonymize)
+export interface PseudonymizationSummary {
+  fingerprint: string; // same fingerprint ⇒ same passphrase ⇒ comparable pseudonyms
+  pseudonyms: Map<string, string>; // account ID → pseudonym; in memory and local download only, never exported
+  key: CryptoKey; // in memory only: pseudonymizes allowlist entries for the analysis
+}
+
+// A source row excluded in partial-success mode, kept verbatim for the quarantine report
+export interface RejectedRow {
+  row: number;
+  field?: string;
+  reason: string;
+  values: Record<string, string>;
+  sourceFile?: string;
+}
+
+// strict: any invalid row fails the file · partial: analyze valid rows, quarantine the rest
+export type IngestMode = 'strict' | 'partial';
+
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes: number; // 0 while the total isn't known (SQLite queries)
+  rows: number; // data rows read so far
+}
+
+// Column mapping (source header → canonical field)
+export type TransactionField = keyof RawTransaction;
+
+export type ColumnMapping<F extends string = TransactionField> = Partial<Record<F, string>>;
+
+export interface ColumnFieldDef<F extends string = TransactionField> {
+  field: F;
+  type: string; // human-readable type hint
+  required: boolean;
+  synonyms: string[]; // normalized header names that map to this field
+}
+
+// Statement layout: one row per booking on a single account
+export type StatementField =
+  | 'account_id'
+  | 'counterparty_id'
+  | 'timestamp'
+  | 'amount'
+  | 'debit'
+  | 'credit'
+  | 'balance'
+  | 'entry_id'
+  | 'currency';
+
+export interface MappingProfile<F extends string = TransactionField> {
+  name: string;
+  mapping: ColumnMapping<F>;
+}
+
+// FX rates: base-currency units per 1 unit of each currency
+export interface FxRateTable {
+  baseCurrency: string;
+  rates: Record<string, string>; // static rates, as decimal text so they apply exactly
+  daily: Record<string, Record<string, string>>; // YYYY-MM-DD → currency → rate
+}
+
+// CSV dialect: detected per file, overridable before parsing
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface NumberFormat {
+  decimalSeparator: '.' | ',';
+  thousandsSeparator: '' | ',' | '.' | ' ' | "'";
+}
+
+export interface CsvDialect extends NumberFormat {
+  encoding: CsvEncoding;
+  delimiter: string;
+}
+
+export interface ParseOptions {
+  mapping?: ColumnMapping;
+  timezone?: string; // IANA zone for timestamps without an offset (default UTC)
+  fx?: FxRateTable;
+  mode?: IngestMode; // default strict
+  duplicatePolicy?: DuplicatePolicy; // default keep_first
+  statementMapping?: ColumnMapping<StatementField>; // set for account-statement CSVs instead of `mapping`
+  dialect?: CsvDialect; // CSV only; default UTF-8, Papa's delimiter guess, 1234.56
+  sqlQuery?: string; // SQLite only: the SELECT (or table) whose rows are imported
 }